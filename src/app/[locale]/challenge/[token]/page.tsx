@@ -0,0 +1,19 @@
+import ChallengeGame from '@/components/ChallengeGame'
+import { getChallengeSecret, readChallengeToken } from '@/lib/challenge'
+
+// The link is verified on the server, where the signing secret lives
+export default async function ChallengePage({
+  params
+}: {
+  params: Promise<{ token: string }>
+}) {
+  const { token } = await params
+  let decoded: string
+  try {
+    decoded = decodeURIComponent(token)
+  } catch {
+    // A link with a broken escape cannot hold a valid token
+    return <ChallengeGame token={token} result={{ ok: false, error: 'malformed' }} />
+  }
+  return <ChallengeGame token={decoded} result={readChallengeToken(decoded, getChallengeSecret())} />
+}
@@ -0,0 +1,24 @@
+"use client"
+
+import dynamic from 'next/dynamic'
+import { useTranslations } from 'next-intl';
+
+// The teacher key is read from local storage, so the dashboard only renders on the client
+const ClassroomDashboard = dynamic(() => import('@/components/ClassroomDashboard'), {
+  ssr: false,
+  loading: () => <LoadingComponent />
+})
+
+function LoadingComponent() {
+  const t = useTranslations('common');
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <p className="text-gray-600 dark:text-gray-400">{t('loading')}</p>
+    </div>
+  );
+}
+
+export default function ClassroomDashboardPage() {
+  return <ClassroomDashboard />
+}
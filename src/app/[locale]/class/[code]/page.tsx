@@ -0,0 +1,20 @@
+import ClassroomGame from '@/components/ClassroomGame'
+import { normalizeJoinCode } from '@/lib/classroom'
+import { getClassroom } from '@/lib/classroomStore'
+
+// The session is read on the server, where the classroom store lives
+export default async function ClassroomPage({
+  params
+}: {
+  params: Promise<{ code: string }>
+}) {
+  const { code } = await params
+  let joinCode: string
+  try {
+    joinCode = normalizeJoinCode(decodeURIComponent(code))
+  } catch {
+    // A link with a broken escape cannot name any session
+    return <ClassroomGame classroom={null} />
+  }
+  return <ClassroomGame classroom={await getClassroom(joinCode)} />
+}
@@ -18,7 +18,7 @@ const geistMono = Geist_Mono({
 
 export const metadata: Metadata = {
   title: "Cost of Living Game",
-  description: "Learn to manage your budget in a realistic 6-month simulation",
+  description: "Learn to manage your budget in a realistic month-by-month simulation",
 };
 
 export default async function RootLayout({
@@ -39,7 +39,7 @@ export default async function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <NextIntlClientProvider messages={messages}>
-          <div className="fixed top-4 right-4 z-50">
+          <div className="fixed top-4 right-4 z-50 print:hidden">
             <LanguageSwitcher />
           </div>
           {children}
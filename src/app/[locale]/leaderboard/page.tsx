@@ -0,0 +1,24 @@
+"use client"
+
+import dynamic from 'next/dynamic'
+import { useTranslations } from 'next-intl';
+
+// Rankings are fetched from the API once the page is in the browser
+const Leaderboard = dynamic(() => import('@/components/Leaderboard'), {
+  ssr: false,
+  loading: () => <LoadingComponent />
+})
+
+function LoadingComponent() {
+  const t = useTranslations('common');
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <p className="text-gray-600 dark:text-gray-400">{t('loading')}</p>
+    </div>
+  );
+}
+
+export default function LeaderboardPage() {
+  return <Leaderboard />
+}
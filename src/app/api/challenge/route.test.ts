@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { NextRequest } from 'next/server'
+import { readChallengeToken, type ChallengeConfig } from '@/lib/challenge'
+import { POST } from './route'
+
+const CONFIG: ChallengeConfig = {
+  grossMonthlySalary: 2500,
+  location: 'Lisbon, Portugal',
+  costs: { housing_cost: 1100, utility_cost: 120, tax_rate: 20 },
+  useFlatTaxRate: false,
+  preTaxDeductions: { retirementRate: 0, hsaMonthly: 0 },
+  payFrequency: 'monthly',
+  totalRounds: 6,
+  savingsApy: 0.04,
+  seed: 777,
+  recurringExpenses: [],
+  goals: []
+}
+
+function post(body: string): Promise<Response> {
+  return POST(new Request('http://localhost/api/challenge', { method: 'POST', body }) as NextRequest)
+}
+
+describe('POST /api/challenge', () => {
+  beforeEach(() => {
+    process.env.CHALLENGE_SECRET = 'test-secret'
+  })
+
+  afterEach(() => {
+    delete process.env.CHALLENGE_SECRET
+  })
+
+  it('signs a valid configuration', async () => {
+    const response = await post(JSON.stringify({ config: CONFIG }))
+    expect(response.status).toBe(200)
+    const { token } = await response.json()
+    expect(readChallengeToken(token, 'test-secret')).toMatchObject({ ok: true, config: CONFIG })
+  })
+
+  it('rejects bodies without a configuration', async () => {
+    for (const body of ['null', '5', '"config"', '{}', '{"config":null}']) {
+      expect((await post(body)).status).toBe(400)
+    }
+  })
+
+  it('rejects a body that is not JSON', async () => {
+    expect((await post('{')).status).toBe(400)
+  })
+})
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  challengeConfigSchema,
+  createChallengeToken,
+  getChallengeSecret,
+  type ChallengeConfig
+} from '@/lib/challenge'
+import { validate } from '@/lib/gameStateSchema'
+
+// Sign a game configuration into a challenge link token
+export async function POST(request: NextRequest) {
+  const secret = getChallengeSecret()
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Challenge secret not configured' },
+      { status: 500 }
+    )
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const { config } = (body || {}) as Record<string, unknown>
+  const issues = validate(challengeConfigSchema, config, 'config')
+  if (issues.length > 0) {
+    return NextResponse.json({ error: 'Invalid challenge', issues }, { status: 400 })
+  }
+
+  return NextResponse.json({ token: createChallengeToken(config as ChallengeConfig, secret) })
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { normalizeJoinCode } from '@/lib/classroom'
+import { getClassroomProgress } from '@/lib/classroomStore'
+
+const PROGRESS_ERRORS = {
+  notFound: { error: 'Classroom not found', status: 404 },
+  forbidden: { error: 'Teacher key does not match', status: 403 }
+}
+
+// Every student's progress for the teacher dashboard. The teacher key is sent in
+// the X-Teacher-Key header so it stays out of URLs and logs.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params
+  const teacherKey = request.headers.get('x-teacher-key')
+  if (!teacherKey) {
+    return NextResponse.json({ error: 'Teacher key is required' }, { status: 401 })
+  }
+
+  try {
+    const result = await getClassroomProgress(normalizeJoinCode(code), teacherKey)
+    if (!result.ok) {
+      const { error, status } = PROGRESS_ERRORS[result.error]
+      return NextResponse.json({ error }, { status })
+    }
+    return NextResponse.json({ classroom: result.classroom, students: result.students })
+  } catch (error) {
+    console.error('Error loading classroom progress:', error)
+    return NextResponse.json({ error: 'Failed to load classroom progress' }, { status: 500 })
+  }
+}
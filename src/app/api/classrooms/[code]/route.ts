@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { normalizeJoinCode } from '@/lib/classroom'
+import { getClassroom } from '@/lib/classroomStore'
+
+// A session's name and settings, for students about to join
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params
+  const classroom = await getClassroom(normalizeJoinCode(code))
+  if (!classroom) {
+    return NextResponse.json({ error: 'Classroom not found' }, { status: 404 })
+  }
+  return NextResponse.json({ classroom })
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { normalizeJoinCode } from '@/lib/classroom'
+import { joinClassroom } from '@/lib/classroomStore'
+
+const JOIN_ERRORS = {
+  notFound: { error: 'Classroom or game not found', status: 404 },
+  forbidden: { error: 'Write key does not match', status: 403 },
+  mismatch: { error: 'Game does not use the classroom settings', status: 409 }
+}
+
+// Join a session with a stored game: POST { name, gameId, writeKey }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const { name, gameId, writeKey } = (body || {}) as Record<string, unknown>
+  if (typeof name !== 'string' || !name.trim() || typeof gameId !== 'string') {
+    return NextResponse.json({ error: 'name and gameId are required' }, { status: 400 })
+  }
+  if (typeof writeKey !== 'string' || !writeKey) {
+    return NextResponse.json({ error: 'Write key is required' }, { status: 401 })
+  }
+
+  try {
+    const result = await joinClassroom(normalizeJoinCode(code), name.trim(), gameId, writeKey)
+    if (!result.ok) {
+      const { error, status } = JOIN_ERRORS[result.error]
+      return NextResponse.json({ error }, { status })
+    }
+    return NextResponse.json({ student: result.student }, { status: 201 })
+  } catch (error) {
+    console.error('Error joining classroom:', error)
+    return NextResponse.json({ error: 'Failed to join classroom' }, { status: 500 })
+  }
+}
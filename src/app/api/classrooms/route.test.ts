@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest'
+import type { NextRequest } from 'next/server'
+import { POST } from './route'
+
+function post(body: string): Promise<Response> {
+  return POST(new Request('http://localhost/api/classrooms', { method: 'POST', body }) as NextRequest)
+}
+
+describe('POST /api/classrooms', () => {
+  it('rejects bodies without a configuration', async () => {
+    for (const body of ['null', '5', '{}', '{"config":null}', '{']) {
+      expect((await post(body)).status).toBe(400)
+    }
+  })
+})
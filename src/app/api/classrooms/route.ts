@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { challengeConfigSchema, type ChallengeConfig } from '@/lib/challenge'
+import { createClassroom } from '@/lib/classroomStore'
+import { validate } from '@/lib/gameStateSchema'
+
+// Start a classroom session with fixed settings: POST { config, name? }. The teacher
+// key in the response opens the dashboard and is not shown again.
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const { config, name } = (body || {}) as Record<string, unknown>
+  const issues = validate(challengeConfigSchema, config, 'config')
+  if (name !== undefined && typeof name !== 'string') {
+    issues.push({ path: 'name', message: 'must be a string' })
+  }
+  if (issues.length > 0) {
+    return NextResponse.json({ error: 'Invalid classroom', issues }, { status: 400 })
+  }
+
+  try {
+    const { classroom, teacherKey } = await createClassroom(config as ChallengeConfig, (name as string | undefined)?.trim() || '')
+    return NextResponse.json({ classroom, teacherKey }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating classroom:', error)
+    return NextResponse.json({ error: 'Failed to create classroom' }, { status: 500 })
+  }
+}
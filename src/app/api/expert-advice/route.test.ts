@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { NextRequest } from 'next/server'
+import { MOCK_RESPONSES } from '@/lib/llm'
+import { POST } from './route'
+
+const BODY = {
+  location: 'Austin, TX',
+  monthlySalary: 3000,
+  allocations: { groceries: { amount: 300, emoji: '🛒' } },
+  iteration: 2,
+  locale: 'en'
+}
+
+function post(body: unknown): Promise<Response> {
+  return POST(new Request('http://localhost/api/expert-advice', { method: 'POST', body: JSON.stringify(body) }) as NextRequest)
+}
+
+describe('POST /api/expert-advice', () => {
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'mock'
+  })
+
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER
+  })
+
+  it('returns the language model advice', async () => {
+    const response = await post(BODY)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ advice: MOCK_RESPONSES.expertAdvice })
+  })
+
+  it('rejects requests missing a required field', async () => {
+    expect((await post({ ...BODY, allocations: undefined })).status).toBe(400)
+  })
+
+  it('reports a missing language model provider', async () => {
+    process.env.LLM_PROVIDER = 'unknown'
+    expect((await post(BODY)).status).toBe(500)
+  })
+})
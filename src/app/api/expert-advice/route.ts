@@ -1,10 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
+import { getCompletionSettings, getLlmProvider } from '@/lib/llm'
 import { EXPERT_ADVICE_PROMPT, SYSTEM_PROMPTS } from '@/lib/prompts'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+import { DEFAULT_TOTAL_ROUNDS } from '@/lib/roundEngine'
+import { DEFAULT_PAY_FREQUENCY } from '@/lib/payFrequency'
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,6 +11,9 @@ export async function POST(request: NextRequest) {
       monthlySalary, 
       allocations, 
       iteration, 
+      totalRounds = DEFAULT_TOTAL_ROUNDS,
+      payFrequency = DEFAULT_PAY_FREQUENCY,
+      goals = [],
       isGameOver = false,
       locale = 'en'
     } = await request.json()
@@ -24,9 +25,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!process.env.OPENAI_API_KEY) {
+    const provider = getLlmProvider()
+    if (!provider) {
       return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
+        { error: 'Language model provider not configured' },
         { status: 500 }
       )
     }
@@ -36,24 +38,24 @@ export async function POST(request: NextRequest) {
       monthlySalary, 
       allocations, 
       iteration, 
+      totalRounds,
+      payFrequency,
+      Array.isArray(goals) ? goals : [],
       isGameOver,
       locale
     )
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
+    const advice = await provider.complete({
+      route: 'expertAdvice',
       messages: [
         { role: "system", content: SYSTEM_PROMPTS.expertAdvice },
         { role: "user", content: prompt }
       ],
-      max_tokens: 400,
-      temperature: 0.7
+      ...getCompletionSettings('expertAdvice')
     })
-
-    const advice = response.choices[0].message.content?.trim()
     
     if (!advice) {
-      throw new Error('No response from OpenAI')
+      throw new Error(`No response from ${provider.name} provider`)
     }
 
     return NextResponse.json({ advice })
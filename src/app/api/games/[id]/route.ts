@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getGame, parseGamePayload, updateGame } from '@/lib/gameStore'
+
+const UPDATE_ERRORS = {
+  notFound: { error: 'Game not found', status: 404 },
+  forbidden: { error: 'Write key does not match', status: 403 },
+  conflict: { error: 'Game setup and completed rounds cannot be changed', status: 409 }
+}
+
+// Fetch a stored run with its full round history
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const game = await getGame(id)
+  if (!game) {
+    return NextResponse.json({ error: 'Game not found' }, { status: 404 })
+  }
+  return NextResponse.json({ game })
+}
+
+// Save a newer state of a run: PUT { state, writeKey, name? }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const payload = parseGamePayload(body)
+  if (!payload.ok) {
+    return NextResponse.json({ error: 'Invalid game', issues: payload.issues }, { status: 400 })
+  }
+  if (!payload.writeKey) {
+    return NextResponse.json({ error: 'Write key is required' }, { status: 401 })
+  }
+
+  try {
+    const result = await updateGame(id, payload.writeKey, payload.state, payload.name)
+    if (!result.ok) {
+      const { error, status } = UPDATE_ERRORS[result.error]
+      return NextResponse.json({ error }, { status })
+    }
+    return NextResponse.json({ game: result.game })
+  } catch (error) {
+    console.error('Error updating game:', error)
+    return NextResponse.json({ error: 'Failed to update game' }, { status: 500 })
+  }
+}
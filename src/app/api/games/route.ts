@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createGame, listGames, parseGamePayload } from '@/lib/gameStore'
+
+const DEFAULT_LIST_LIMIT = 20
+const MAX_LIST_LIMIT = 100
+
+// List stored runs, most recently updated first: GET /api/games?limit=20
+export async function GET(request: NextRequest) {
+  const limit = Number(request.nextUrl.searchParams.get('limit') || DEFAULT_LIST_LIMIT)
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: 'limit must be a positive whole number' }, { status: 400 })
+  }
+
+  return NextResponse.json({ games: await listGames(Math.min(limit, MAX_LIST_LIMIT)) })
+}
+
+// Store a new run: POST { state, name? }. The write key in the response is needed
+// for every later update and is not shown again.
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const payload = parseGamePayload(body)
+  if (!payload.ok) {
+    return NextResponse.json({ error: 'Invalid game', issues: payload.issues }, { status: 400 })
+  }
+
+  try {
+    const { game, writeKey } = await createGame(payload.state, payload.name || '')
+    return NextResponse.json({ game, writeKey }, { status: 201 })
+  } catch (error) {
+    console.error('Error storing game:', error)
+    return NextResponse.json({ error: 'Failed to store game' }, { status: 500 })
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listLeaderboardEntries, submitToLeaderboard } from '@/lib/gameStore'
+import { getSalaryBand, groupEntries, normalizeDisplayName, normalizeLocation } from '@/lib/leaderboard'
+
+const DEFAULT_GROUP_SIZE = 10
+const MAX_GROUP_SIZE = 50
+
+const SUBMIT_ERRORS = {
+  notFound: { error: 'Game not found', status: 404 },
+  forbidden: { error: 'Write key does not match', status: 403 },
+  notFinished: { error: 'Only finished games can be submitted', status: 409 }
+}
+
+// Ranked groups of verified runs: GET /api/leaderboard?location=&salary=&limit=10
+// location matches any part of the normalized place name; salary picks its band.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const location = normalizeLocation(params.get('location') || '')
+  const salary = params.get('salary')
+  const limit = Number(params.get('limit') || DEFAULT_GROUP_SIZE)
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: 'limit must be a positive whole number' }, { status: 400 })
+  }
+  if (salary && !(Number(salary) >= 0)) {
+    return NextResponse.json({ error: 'salary must be a number' }, { status: 400 })
+  }
+  const band = salary ? getSalaryBand(Number(salary)) : null
+
+  const groups = groupEntries(await listLeaderboardEntries())
+    .filter(group => !location || group.location.includes(location))
+    .filter(group => band === null || group.salaryBand === band)
+    .map(group => ({
+      ...group,
+      total: group.entries.length,
+      entries: group.entries.slice(0, Math.min(limit, MAX_GROUP_SIZE))
+    }))
+  return NextResponse.json({ groups })
+}
+
+// Submit a finished stored run: POST { gameId, writeKey, displayName? }. The run is
+// replayed through the round engine and rejected if its outcome does not match.
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  const { gameId, writeKey, displayName } = (body || {}) as Record<string, unknown>
+  if (typeof gameId !== 'string') {
+    return NextResponse.json({ error: 'gameId is required' }, { status: 400 })
+  }
+  if (typeof writeKey !== 'string' || !writeKey) {
+    return NextResponse.json({ error: 'Write key is required' }, { status: 401 })
+  }
+
+  try {
+    const result = await submitToLeaderboard(gameId, writeKey, normalizeDisplayName(displayName))
+    if (!result.ok) {
+      if (result.error === 'rejected') {
+        return NextResponse.json(
+          { error: 'Run does not match a replay of its allocations', mismatch: result.mismatch },
+          { status: 422 }
+        )
+      }
+      const { error, status } = SUBMIT_ERRORS[result.error]
+      return NextResponse.json({ error }, { status })
+    }
+    return NextResponse.json({ entry: result.entry, rank: result.rank, groupSize: result.groupSize })
+  } catch (error) {
+    console.error('Error submitting to leaderboard:', error)
+    return NextResponse.json({ error: 'Failed to submit to leaderboard' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { NextRequest } from 'next/server'
+import { DEFAULT_COSTS } from '@/lib/costOfLiving'
+import { MOCK_RESPONSES } from '@/lib/llm'
+import { POST } from './route'
+
+function post(body: string): Promise<Response> {
+  return POST(new Request('http://localhost/api/location-costs', { method: 'POST', body }) as NextRequest)
+}
+
+describe('POST /api/location-costs', () => {
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'mock'
+  })
+
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER
+  })
+
+  it('answers places the dataset knows from the dataset', async () => {
+    const response = await post(JSON.stringify({ location: 'Austin, TX' }))
+    expect(response.status).toBe(200)
+    expect((await response.json()).provenance).toMatchObject({ source: 'dataset', confidence: 'high' })
+  })
+
+  it('asks the language model about places the dataset does not know', async () => {
+    const response = await post(JSON.stringify({ location: 'Zzyzx, Nowhere' }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      ...JSON.parse(MOCK_RESPONSES.locationCost),
+      provenance: { source: 'llm', confidence: 'low' }
+    })
+  })
+
+  it('falls back to defaults without a language model', async () => {
+    process.env.LLM_PROVIDER = 'unknown'
+    const response = await post(JSON.stringify({ location: 'Zzyzx, Nowhere' }))
+    expect(await response.json()).toEqual({ ...DEFAULT_COSTS, provenance: { source: 'default', confidence: 'none' } })
+  })
+
+  it('rejects bodies without a location', async () => {
+    for (const body of ['{}', '{"location":5}', '{']) {
+      expect((await post(body)).status).toBe(400)
+    }
+  })
+})
@@ -1,73 +1,84 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
+import { DEFAULT_COSTS, findCityCosts, type LocationCostResult } from '@/lib/costOfLiving'
+import { getCompletionSettings, getLlmProvider, type LlmProvider } from '@/lib/llm'
 import { LOCATION_COST_PROMPT, SYSTEM_PROMPTS } from '@/lib/prompts'
+import type { CostEstimates } from '@/lib/saveGames'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+// Ask the language model for a place the bundled dataset does not know
+async function estimateCosts(provider: LlmProvider, location: string): Promise<CostEstimates> {
+  const prompt = LOCATION_COST_PROMPT(location)
 
-export async function POST(request: NextRequest) {
-  try {
-    const { location } = await request.json()
-
-    if (!location) {
-      return NextResponse.json(
-        { error: 'Location is required' },
-        { status: 400 }
-      )
-    }
+  const responseText = await provider.complete({
+    route: 'locationCost',
+    messages: [
+      { role: "system", content: SYSTEM_PROMPTS.locationCost },
+      { role: "user", content: prompt }
+    ],
+    ...getCompletionSettings('locationCost')
+  })
 
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
-        { status: 500 }
-      )
-    }
+  if (!responseText) {
+    throw new Error(`No response from ${provider.name} provider`)
+  }
 
-    const prompt = LOCATION_COST_PROMPT(location)
+  // Clean the response if there are markdown code blocks
+  let cleanedResponse = responseText
+  if (cleanedResponse.startsWith("```") && cleanedResponse.endsWith("```")) {
+    cleanedResponse = cleanedResponse.slice(3, -3).trim()
+  }
+  if (cleanedResponse.startsWith("```json") && cleanedResponse.endsWith("```")) {
+    cleanedResponse = cleanedResponse.slice(7, -3).trim()
+  }
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        { role: "system", content: SYSTEM_PROMPTS.locationCost },
-        { role: "user", content: prompt }
-      ],
-      max_tokens: 150,
-      temperature: 0.3
-    })
+  const data = JSON.parse(cleanedResponse)
 
-    const responseText = response.choices[0].message.content?.trim()
-    
-    if (!responseText) {
-      throw new Error('No response from OpenAI')
-    }
+  // Validate the response structure
+  if (!data.housing_cost || !data.utility_cost || !data.tax_rate) {
+    throw new Error(`Invalid response structure from ${provider.name} provider`)
+  }
 
-    // Clean the response if there are markdown code blocks
-    let cleanedResponse = responseText
-    if (cleanedResponse.startsWith("```") && cleanedResponse.endsWith("```")) {
-      cleanedResponse = cleanedResponse.slice(3, -3).trim()
-    }
-    if (cleanedResponse.startsWith("```json") && cleanedResponse.endsWith("```")) {
-      cleanedResponse = cleanedResponse.slice(7, -3).trim()
-    }
+  return {
+    housing_cost: Number(data.housing_cost),
+    utility_cost: Number(data.utility_cost),
+    tax_rate: Number(data.tax_rate)
+  }
+}
 
-    const data = JSON.parse(cleanedResponse)
+// Monthly housing and utility costs and a tax rate for a location, with where they
+// came from: the bundled dataset when it clearly knows the place, otherwise a
+// language model estimate, otherwise defaults
+export async function POST(request: NextRequest) {
+  let location: unknown
+  try {
+    ({ location } = await request.json())
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
 
-    // Validate the response structure
-    if (!data.housing_cost || !data.utility_cost || !data.tax_rate) {
-      throw new Error('Invalid response structure from OpenAI')
-    }
+  if (!location || typeof location !== 'string') {
+    return NextResponse.json(
+      { error: 'Location is required' },
+      { status: 400 }
+    )
+  }
 
-    return NextResponse.json(data)
+  const match = findCityCosts(location)
+  if (match?.provenance.confidence === 'high') {
+    return NextResponse.json(match)
+  }
 
-  } catch (error) {
-    console.error('Error getting location costs:', error)
-    
-    // Return default values if API call fails
-    return NextResponse.json({
-      housing_cost: 1200,
-      utility_cost: 200,
-      tax_rate: 25
-    })
+  // A less certain dataset match, e.g. "Portland, Maine", is kept for when there is no better estimate
+  const provider = getLlmProvider()
+  if (provider) {
+    try {
+      const estimates = await estimateCosts(provider, location)
+      const result: LocationCostResult = { ...estimates, provenance: { source: 'llm', confidence: 'low' } }
+      return NextResponse.json(result)
+    } catch (error) {
+      console.error('Error getting location costs:', error)
+    }
   }
-} 
\ No newline at end of file
+
+  const fallback: LocationCostResult = match || { ...DEFAULT_COSTS, provenance: { source: 'default', confidence: 'none' } }
+  return NextResponse.json(fallback)
+}
@@ -0,0 +1,104 @@
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  createCustomCategory,
+  CATEGORY_TYPES,
+  DEFAULT_CATEGORIES,
+  type BudgetCategory,
+  type CategoryType
+} from '@/lib/categories'
+
+interface CategoryEditorProps {
+  categories: BudgetCategory[]
+  onChange: (categories: BudgetCategory[]) => void
+}
+
+export default function CategoryEditor({ categories, onChange }: CategoryEditorProps) {
+  const t = useTranslations()
+
+  const updateCategory = (key: string, changes: Partial<BudgetCategory>) => {
+    onChange(categories.map(category => category.key === key ? { ...category, ...changes } : category))
+  }
+
+  const removeCategory = (key: string) => {
+    onChange(categories.filter(category => category.key !== key))
+  }
+
+  const addCategory = () => {
+    onChange([...categories, createCustomCategory(categories, '')])
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="font-semibold">{t('categoryEditor.title')}</h4>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('categoryEditor.description')}</p>
+      </div>
+
+      <div className="space-y-2">
+        {categories.map(category => (
+          <div key={category.key} className="flex flex-wrap sm:flex-nowrap gap-2 items-center">
+            <Input
+              value={category.emoji}
+              onChange={(e) => updateCategory(category.key, { emoji: e.target.value })}
+              maxLength={4}
+              aria-label={t('categoryEditor.emojiLabel')}
+              className="w-16 text-center"
+            />
+            <Input
+              value={category.label || ''}
+              placeholder={category.builtIn ? t(`categories.${category.key}`) : t('categoryEditor.namePlaceholder')}
+              onChange={(e) => updateCategory(category.key, { label: e.target.value })}
+              aria-label={t('categoryEditor.nameLabel')}
+              className={`flex-1 min-w-0 ${!category.builtIn && !category.label?.trim() ? 'border-red-400' : ''}`}
+            />
+            <select
+              value={category.type}
+              onChange={(e) => updateCategory(category.key, { type: e.target.value as CategoryType })}
+              disabled={category.builtIn}
+              aria-label={t('categoryEditor.typeLabel')}
+              className="h-9 rounded-md border bg-transparent px-2 text-sm dark:bg-gray-800"
+            >
+              {CATEGORY_TYPES.map(type => (
+                <option key={type} value={type}>{t(`categoryEditor.types.${type}`)}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-sm whitespace-nowrap w-24">
+              {category.type === 'spending' && (
+                <>
+                  <input
+                    type="checkbox"
+                    checked={!!category.essential}
+                    onChange={(e) => updateCategory(category.key, { essential: e.target.checked })}
+                    disabled={category.builtIn}
+                  />
+                  {t('categoryEditor.essential')}
+                </>
+              )}
+            </label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => removeCategory(category.key)}
+              disabled={categories.length <= 1}
+              aria-label={t('categoryEditor.remove')}
+            >
+              ✕
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={addCategory}>
+          ➕ {t('categoryEditor.add')}
+        </Button>
+        <Button variant="ghost" onClick={() => onChange(DEFAULT_CATEGORIES)}>
+          {t('categoryEditor.reset')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useTranslations, useLocale } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import type { ChallengeConfig } from '@/lib/challenge'
+import { MAX_STUDENT_NAME_LENGTH } from '@/lib/classroom'
+import { roundsToMonths } from '@/lib/payFrequency'
+import { formatSeed } from '@/lib/random'
+
+interface ChallengeConfirmationProps {
+  config: ChallengeConfig
+  // Set when joining a classroom session; the student then gives their name
+  classroomName?: string
+  onAccept: (studentName: string) => void
+  // Offer to continue a game already started from this link or session
+  resumePrompt?: React.ReactNode
+}
+
+// Settings fixed by a challenge link or classroom session, shown before the game starts
+export default function ChallengeConfirmation({ config, classroomName, onAccept, resumePrompt }: ChallengeConfirmationProps) {
+  const t = useTranslations()
+  const locale = useLocale()
+  const [studentName, setStudentName] = useState('')
+  const isClassroom = classroomName !== undefined
+
+  const rows: [string, string][] = [
+    [t('challenge.salary'), `$${config.grossMonthlySalary.toLocaleString()}${t('common.perMonth')}`],
+    [t('challenge.location'), config.location],
+    [t('salary.payFrequencyLabel'), t('salary.payFrequencyOption', { frequency: config.payFrequency })],
+    [t('salary.lengthLabel'), t('salary.lengthSummary', {
+      rounds: config.totalRounds,
+      months: roundsToMonths(config.totalRounds, config.payFrequency)
+    })],
+    [t('location.housingCostLabel'), `$${config.costs.housing_cost.toLocaleString()}${t('common.perMonth')}`],
+    [t('location.utilitiesLabel'), `$${config.costs.utility_cost.toLocaleString()}${t('common.perMonth')}`],
+    [t('location.taxRateLabel'), config.useFlatTaxRate ? `${config.costs.tax_rate}%` : t('challenge.taxTables', { rate: config.costs.tax_rate })],
+    [t('salary.savingsApyLabel'), `${(config.savingsApy * 100).toFixed(2)}%`],
+    [t('salary.seedLabel'), formatSeed(config.seed)]
+  ]
+  if (config.preTaxDeductions.retirementRate > 0) {
+    rows.push([t('tax.retirementLabel'), `${(config.preTaxDeductions.retirementRate * 100).toFixed(1)}%`])
+  }
+  if (config.preTaxDeductions.hsaMonthly > 0) {
+    rows.push([t('tax.hsaLabel'), `$${config.preTaxDeductions.hsaMonthly.toLocaleString()}`])
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-2xl mx-auto pt-20">
+        <Card className="shadow-xl">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold">
+              {isClassroom ? t('classroom.joinTitle', { name: classroomName || t('classroom.unnamed') }) : t('challenge.title')}
+            </CardTitle>
+            <CardDescription className="text-lg">
+              {isClassroom ? t('classroom.joinDescription') : t('challenge.description')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {resumePrompt}
+
+            <div className="space-y-2 text-sm">
+              {rows.map(([label, value]) => (
+                <div key={label} className="flex justify-between gap-4 p-2 bg-gray-50 dark:bg-gray-800 rounded">
+                  <span>{label}</span>
+                  <span className="font-semibold text-right">{value}</span>
+                </div>
+              ))}
+            </div>
+
+            {config.recurringExpenses.length > 0 && (
+              <div className="space-y-2 text-sm">
+                <h4 className="font-semibold">{t('recurring.title')}</h4>
+                {config.recurringExpenses.map(expense => (
+                  <div key={expense.id} className="flex justify-between gap-4 p-2 bg-gray-50 dark:bg-gray-800 rounded">
+                    <span>🔁 {expense.label || t('recurring.unnamed')} · {t(`recurring.frequencies.${expense.frequency}`)}</span>
+                    <span className="font-semibold">${expense.amount.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {config.goals.length > 0 && (
+              <div className="space-y-2 text-sm">
+                <h4 className="font-semibold">{t('goals.title')}</h4>
+                <ul className="space-y-1">
+                  {config.goals.map(goal => (
+                    <li key={goal.id}>
+                      {t(`goals.describe.${goal.type}`, {
+                        amount: goal.targetAmount.toLocaleString(),
+                        label: goal.label?.trim() || t('goals.defaultLabel')
+                      })}
+                      {goal.deadlineMonth && ` ${t('goals.byMonth', { month: goal.deadlineMonth })}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {isClassroom && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('classroom.studentNameLabel')}</label>
+                <Input
+                  value={studentName}
+                  onChange={(e) => setStudentName(e.target.value)}
+                  maxLength={MAX_STUDENT_NAME_LENGTH}
+                  placeholder={t('classroom.studentNamePlaceholder')}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button variant="outline" asChild className="flex-1">
+                <Link href={`/${locale}`}>{t('challenge.playOwn')}</Link>
+              </Button>
+              <Button
+                onClick={() => onAccept(studentName.trim())}
+                disabled={isClassroom && !studentName.trim()}
+                size="lg"
+                className="flex-1"
+              >
+                {isClassroom ? t('classroom.join') : t('challenge.accept')} ➡️
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+"use client"
+
+import React from 'react'
+import dynamic from 'next/dynamic'
+import Link from 'next/link'
+import { useTranslations, useLocale } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { ChallengeResult } from '@/lib/challenge'
+
+const GameClient = dynamic(() => import('@/components/GameClient'), { ssr: false })
+
+interface ChallengeGameProps {
+  token: string
+  result: ChallengeResult
+}
+
+// A game started from a challenge link, or why the link cannot be played
+export default function ChallengeGame({ token, result }: ChallengeGameProps) {
+  const t = useTranslations()
+  const locale = useLocale()
+
+  if (result.ok) {
+    return <GameClient challenge={result.config} challengeId={result.id} challengeToken={token} />
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-md mx-auto pt-20">
+        <Card className="shadow-xl text-center">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold">{t('challenge.invalidTitle')}</CardTitle>
+            <CardDescription>{t(`challenge.errors.${result.error}`)}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild className="w-full">
+              <Link href={`/${locale}`}>{t('challenge.playOwn')}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { useTranslations, useLocale } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  loadTeacherKey,
+  normalizeJoinCode,
+  storeTeacherKey,
+  type ClassroomSession,
+  type StudentProgress
+} from '@/lib/classroom'
+import { formatSeed } from '@/lib/random'
+
+// How often the dashboard asks for fresh progress
+const POLL_INTERVAL_MS = 5000
+
+type DashboardError = 'forbidden' | 'notFound' | 'failed'
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+// Live progress of every student in a classroom session, for the teacher who started it
+export default function ClassroomDashboard() {
+  const t = useTranslations()
+  const locale = useLocale()
+  const params = useParams<{ code: string }>()
+  const code = normalizeJoinCode(params.code || '')
+  const [teacherKey, setTeacherKey] = useState<string | null>(null)
+  const [keyInput, setKeyInput] = useState('')
+  const [classroom, setClassroom] = useState<ClassroomSession | null>(null)
+  const [students, setStudents] = useState<StudentProgress[]>([])
+  const [error, setError] = useState<DashboardError | null>(null)
+
+  // The key comes from this browser's storage, or from the address when storage was unavailable
+  useEffect(() => {
+    const fromHash = window.location.hash.slice(1)
+    setTeacherKey(loadTeacherKey(window.localStorage, code) || fromHash || null)
+  }, [code])
+
+  useEffect(() => {
+    if (!teacherKey) return
+
+    let cancelled = false
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/classrooms/${code}/progress`, {
+          headers: { 'X-Teacher-Key': teacherKey }
+        })
+        if (cancelled) return
+        if (response.status === 403 || response.status === 404) {
+          setError(response.status === 403 ? 'forbidden' : 'notFound')
+          return
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to load classroom progress (${response.status})`)
+        }
+
+        const data = await response.json()
+        if (!cancelled) {
+          setClassroom(data.classroom)
+          setStudents(data.students)
+          setError(null)
+        }
+      } catch (loadError) {
+        console.error('Error loading classroom progress:', loadError)
+        if (!cancelled) {
+          setError('failed')
+        }
+      }
+    }
+
+    load()
+    const timer = setInterval(load, POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [code, teacherKey])
+
+  const submitKey = () => {
+    const key = keyInput.trim()
+    storeTeacherKey(window.localStorage, code, key)
+    setError(null)
+    setTeacherKey(key)
+  }
+
+  if (!teacherKey || error === 'forbidden' || error === 'notFound') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+        <div className="max-w-md mx-auto pt-20">
+          <Card className="shadow-xl">
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl font-bold">{t('classroom.dashboardTitle', { code })}</CardTitle>
+              <CardDescription>
+                {error === 'notFound' ? t('classroom.notFound') : error === 'forbidden' ? t('classroom.wrongKey') : t('classroom.keyNeeded')}
+              </CardDescription>
+            </CardHeader>
+            {error !== 'notFound' && (
+              <CardContent className="flex gap-2">
+                <Input
+                  value={keyInput}
+                  onChange={(e) => setKeyInput(e.target.value)}
+                  placeholder={t('classroom.teacherKeyLabel')}
+                  aria-label={t('classroom.teacherKeyLabel')}
+                  className="font-mono"
+                />
+                <Button onClick={submitKey} disabled={!keyInput.trim()}>{t('common.continue')}</Button>
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  const finished = students.filter(student => student.stage === 'game_over').length
+  const inDebt = students.filter(student => student.debt > 0).length
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-6xl mx-auto pt-20 space-y-6">
+        <Card className="shadow-xl">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold">🏫 {classroom?.name || t('classroom.unnamed')}</CardTitle>
+            <CardDescription className="text-lg">
+              {t('classroom.joinWith')} <span className="font-mono font-bold text-2xl tracking-widest">{code}</span>
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {classroom && (
+              <p className="text-sm text-center text-gray-600 dark:text-gray-400">
+                {t('classroom.settingsSummary', {
+                  location: classroom.config.location,
+                  salary: classroom.config.grossMonthlySalary.toLocaleString(),
+                  rounds: classroom.config.totalRounds,
+                  seed: formatSeed(classroom.config.seed)
+                })}
+              </p>
+            )}
+            <p className="text-sm text-center break-all">
+              {t('classroom.studentLink')}{' '}
+              <code className="font-mono select-all">{`${window.location.origin}/${locale}/class/${code}`}</code>
+            </p>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded">
+                <div className="text-2xl font-bold">{students.length}</div>
+                <div className="text-sm">{t('classroom.stats.joined')}</div>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded">
+                <div className="text-2xl font-bold">{finished}</div>
+                <div className="text-sm">{t('classroom.stats.finished')}</div>
+              </div>
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded">
+                <div className="text-2xl font-bold text-red-600 dark:text-red-400">{inDebt}</div>
+                <div className="text-sm">{t('classroom.stats.inDebt')}</div>
+              </div>
+            </div>
+            {error === 'failed' && (
+              <p className="text-sm text-center text-red-600 dark:text-red-400">{t('classroom.refreshFailed')}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="overflow-x-auto pt-6">
+            {students.length === 0 ? (
+              <p className="text-center text-gray-600 dark:text-gray-400">{t('classroom.noStudents')}</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-2 pr-2">{t('classroom.columns.student')}</th>
+                    <th className="py-2 pr-2">{t('classroom.columns.round')}</th>
+                    <th className="py-2 pr-2 text-right">{t('classroom.columns.balance')}</th>
+                    <th className="py-2 pr-2 text-right">{t('classroom.columns.savings')}</th>
+                    <th className="py-2 pr-2 text-right">{t('classroom.columns.debt')}</th>
+                    <th className="py-2 pr-2">{t('classroom.columns.goals')}</th>
+                    <th className="py-2">{t('classroom.columns.debtRounds')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {students.map(student => (
+                    <tr key={student.id} className={`border-b last:border-0 ${student.debt > 0 ? 'bg-red-50 dark:bg-red-900/20' : ''}`}>
+                      <td className="py-2 pr-2 font-medium">{student.name}</td>
+                      <td className="py-2 pr-2">
+                        {student.stage === null
+                          ? t('classroom.missingGame')
+                          : student.stage === 'game_over'
+                            ? t('classroom.finished', { grade: student.grade || '–' })
+                            : t('classroom.roundOf', { round: student.roundsPlayed, total: student.totalRounds })}
+                      </td>
+                      <td className="py-2 pr-2 text-right">${formatAmount(student.balance)}</td>
+                      <td className="py-2 pr-2 text-right">${formatAmount(student.savings)}</td>
+                      <td className="py-2 pr-2 text-right">${formatAmount(student.debt)}</td>
+                      <td className="py-2 pr-2">
+                        {student.goalsTotal > 0 ? t('classroom.goalsMet', { met: student.goalsMet, total: student.goalsTotal }) : '–'}
+                      </td>
+                      <td className="py-2">{student.debtRounds.length > 0 ? student.debtRounds.join(', ') : '–'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        <details className="text-sm text-gray-600 dark:text-gray-400">
+          <summary className="cursor-pointer">{t('classroom.teacherKeyLabel')}</summary>
+          <p className="mt-2">{t('classroom.teacherKeyHint')}</p>
+          <code className="font-mono select-all break-all">{teacherKey}</code>
+        </details>
+
+        <Button asChild variant="outline" className="w-full">
+          <Link href={`/${locale}`}>{t('report.backToGame')}</Link>
+        </Button>
+      </div>
+    </div>
+  )
+}
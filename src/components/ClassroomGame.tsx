@@ -0,0 +1,43 @@
+"use client"
+
+import React from 'react'
+import dynamic from 'next/dynamic'
+import Link from 'next/link'
+import { useTranslations, useLocale } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Card, CardDescription, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { ClassroomSession } from '@/lib/classroom'
+
+const GameClient = dynamic(() => import('@/components/GameClient'), { ssr: false })
+
+interface ClassroomGameProps {
+  classroom: ClassroomSession | null
+}
+
+// A student's game in a classroom session, or why the join code cannot be used
+export default function ClassroomGame({ classroom }: ClassroomGameProps) {
+  const t = useTranslations()
+  const locale = useLocale()
+
+  if (classroom) {
+    return <GameClient challenge={classroom.config} classroom={classroom} />
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-md mx-auto pt-20">
+        <Card className="shadow-xl text-center">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold">{t('classroom.notFoundTitle')}</CardTitle>
+            <CardDescription>{t('classroom.notFound')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild className="w-full">
+              <Link href={`/${locale}`}>{t('challenge.playOwn')}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
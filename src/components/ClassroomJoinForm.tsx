@@ -0,0 +1,43 @@
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations, useLocale } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { isJoinCode, JOIN_CODE_LENGTH, normalizeJoinCode } from '@/lib/classroom'
+
+// Students enter the teacher's join code instead of setting up their own game
+export default function ClassroomJoinForm() {
+  const t = useTranslations()
+  const locale = useLocale()
+  const router = useRouter()
+  const [code, setCode] = useState('')
+  const joinCode = normalizeJoinCode(code)
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('classroom.joinFormTitle')}</label>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('classroom.joinFormDescription')}</p>
+      </div>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          router.push(`/${locale}/class/${joinCode}`)
+        }}
+      >
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          maxLength={JOIN_CODE_LENGTH + 2}
+          placeholder={t('classroom.codePlaceholder')}
+          aria-label={t('classroom.codeLabel')}
+          className="font-mono uppercase"
+        />
+        <Button type="submit" variant="outline" disabled={!isJoinCode(joinCode)}>
+          {t('classroom.join')}
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import type { CostConfidence, CostProvenance } from '@/lib/costOfLiving'
+
+interface CostProvenanceNoteProps {
+  provenance: CostProvenance
+}
+
+const CONFIDENCE_STYLES: Record<CostConfidence, string> = {
+  high: 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200',
+  medium: 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200',
+  low: 'bg-orange-50 dark:bg-orange-900/20 text-orange-800 dark:text-orange-200',
+  none: 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+}
+
+// Where the location's cost estimates came from and how far to trust them
+export default function CostProvenanceNote({ provenance }: CostProvenanceNoteProps) {
+  const t = useTranslations()
+
+  return (
+    <div className={`p-3 rounded-lg text-sm space-y-1 ${CONFIDENCE_STYLES[provenance.confidence]}`}>
+      <p className="font-medium">
+        {provenance.source === 'dataset'
+          ? t('location.provenance.dataset', { city: provenance.city || '', year: provenance.year || '', version: provenance.version || '' })
+          : t(`location.provenance.${provenance.source}`)}
+      </p>
+      <p>{t(`location.provenance.confidence.${provenance.confidence}`)}</p>
+    </div>
+  )
+}
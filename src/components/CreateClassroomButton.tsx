@@ -0,0 +1,80 @@
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations, useLocale } from 'next-intl'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { ChallengeConfig } from '@/lib/challenge'
+import { MAX_CLASSROOM_NAME_LENGTH, storeTeacherKey } from '@/lib/classroom'
+
+interface CreateClassroomButtonProps {
+  config: ChallengeConfig
+  disabled?: boolean
+}
+
+// Starts a classroom session with the current settings and opens its dashboard
+export default function CreateClassroomButton({ config, disabled = false }: CreateClassroomButtonProps) {
+  const t = useTranslations()
+  const locale = useLocale()
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+
+  const createClassroom = async () => {
+    setIsCreating(true)
+    try {
+      const response = await fetch('/api/classrooms', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ config, name }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to create classroom')
+      }
+
+      const { classroom, teacherKey } = await response.json()
+      if (!storeTeacherKey(window.localStorage, classroom.code, teacherKey)) {
+        // Without local storage the key only survives in the dashboard's address
+        router.push(`/${locale}/class/${classroom.code}/dashboard#${teacherKey}`)
+        return
+      }
+      router.push(`/${locale}/class/${classroom.code}/dashboard`)
+    } catch (error) {
+      console.error('Error creating classroom:', error)
+      toast.error(t('classroom.createFailed'))
+      setIsCreating(false)
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <Button variant="outline" onClick={() => setIsOpen(true)} disabled={disabled} className="w-full">
+        🏫 {t('classroom.create')}
+      </Button>
+    )
+  }
+
+  return (
+    <div className="space-y-2 p-4 border rounded-lg">
+      <p className="text-sm text-gray-600 dark:text-gray-400">{t('classroom.createDescription')}</p>
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={MAX_CLASSROOM_NAME_LENGTH}
+        placeholder={t('classroom.namePlaceholder')}
+        aria-label={t('classroom.nameLabel')}
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => setIsOpen(false)} className="flex-1">
+          {t('common.cancel')}
+        </Button>
+        <Button onClick={createClassroom} disabled={disabled || isCreating} className="flex-1">
+          {isCreating ? t('classroom.creating') : t('classroom.start')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+import React, { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Slider } from '@/components/ui/slider'
+import {
+  ALLOCATION_SOURCES,
+  sumPlanBySource,
+  type AllocationSource,
+  type PlannedAllocation
+} from '@/lib/allocationLogic'
+import type { BudgetCategory } from '@/lib/categories'
+import { getAvailableCredit, resolveRepaymentTarget, type DebtAccount, type DebtInstrument } from '@/lib/debtAccounts'
+
+interface FullBudgetPlannerProps {
+  // Categories still to allocate this round, with their display names
+  categories: (BudgetCategory & { name: string })[]
+  // Starting amounts per category key, e.g. from a budgeting template
+  initialAmounts?: Record<string, number>
+  // Money each source can still fund: income left this round, savings, credit on the chosen instrument
+  available: Record<AllocationSource, number>
+  debtAccounts: DebtAccount[]
+  debtInstrument: DebtInstrument
+  onDebtInstrumentChange: (instrument: DebtInstrument) => void
+  repaymentTarget: DebtInstrument
+  onRepaymentTargetChange: (instrument: DebtInstrument) => void
+  onSubmit: (plan: Record<string, PlannedAllocation>) => void
+}
+
+const SOURCE_STYLES: Record<AllocationSource, string> = {
+  income: 'text-blue-700 dark:text-blue-300',
+  savings: 'text-green-700 dark:text-green-300',
+  debt: 'text-red-700 dark:text-red-300'
+}
+
+export default function FullBudgetPlanner({
+  categories,
+  initialAmounts = {},
+  available,
+  debtAccounts,
+  debtInstrument,
+  onDebtInstrumentChange,
+  repaymentTarget,
+  onRepaymentTargetChange,
+  onSubmit
+}: FullBudgetPlannerProps) {
+  const t = useTranslations()
+  const [plan, setPlan] = useState<Record<string, PlannedAllocation>>(() =>
+    Object.fromEntries(categories.map(category => [category.key, { amount: initialAmounts[category.key] || 0, source: 'income' }]))
+  )
+
+  const totals = sumPlanBySource(plan)
+  const remaining: Record<AllocationSource, number> = {
+    income: available.income - totals.income,
+    savings: available.savings - totals.savings,
+    debt: available.debt - totals.debt
+  }
+  const overBudget = ALLOCATION_SOURCES.filter(source => remaining[source] < -0.005)
+  const accountsWithBalance = debtAccounts.filter(account => account.balance > 0)
+  const plansRepayment = categories.some(category => category.type === 'debtRepayment' && plan[category.key]?.amount > 0)
+
+  const updateLine = (key: string, changes: Partial<PlannedAllocation>) => {
+    setPlan(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }))
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Live totals per funding source */}
+      <div className="grid sm:grid-cols-3 gap-3">
+        {ALLOCATION_SOURCES.map(source => (
+          <div key={source} className="bg-white dark:bg-gray-800 p-3 rounded-lg border">
+            <p className="text-sm text-gray-600 dark:text-gray-400">{t(`budgetPlan.remaining.${source}`)}</p>
+            <p className={`text-xl font-bold ${remaining[source] < -0.005 ? 'text-red-600 dark:text-red-400' : SOURCE_STYLES[source]}`}>
+              ${remaining[source].toFixed(2)}
+            </p>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {t('budgetPlan.ofAvailable', { amount: Math.max(0, available[source]).toFixed(2) })}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* One editable line per category */}
+      <div className="space-y-3">
+        {categories.map(category => {
+          const line = plan[category.key]
+          const lineMax = Math.max(0, line.amount + Math.max(0, remaining[line.source]))
+          return (
+            <div key={category.key} className="p-3 rounded-lg border bg-white dark:bg-gray-800 space-y-2">
+              <div className="flex flex-wrap sm:flex-nowrap gap-2 items-center">
+                <span className="flex-1 min-w-0 font-medium">{category.emoji} {category.name}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={5}
+                  value={line.amount || ''}
+                  placeholder="0"
+                  onChange={(e) => updateLine(category.key, { amount: Math.max(0, Number(e.target.value)) })}
+                  aria-label={t('common.amount')}
+                  className="w-28"
+                />
+                <select
+                  value={line.source}
+                  onChange={(e) => updateLine(category.key, { source: e.target.value as AllocationSource })}
+                  aria-label={t('budgetPlan.sourceLabel')}
+                  className={`h-9 w-36 rounded-md border bg-transparent px-2 text-sm dark:bg-gray-800 ${SOURCE_STYLES[line.source]}`}
+                >
+                  {ALLOCATION_SOURCES.map(source => (
+                    <option key={source} value={source} disabled={source !== line.source && available[source] <= 0}>
+                      {t(`budgetPlan.sources.${source}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <Slider
+                value={[Math.min(line.amount, lineMax)]}
+                onValueChange={(value) => updateLine(category.key, { amount: value[0] })}
+                max={lineMax}
+                step={5}
+                disabled={lineMax <= 0}
+              />
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Which credit line pays for debt-funded lines, and which account repayments go to */}
+      {totals.debt > 0 && (
+        <div className="bg-red-50 dark:bg-red-900/20 p-3 rounded-lg space-y-2">
+          <label className="flex flex-wrap items-center gap-2 text-sm text-red-800 dark:text-red-200">
+            {t('debt.chooseInstrument')}
+            <select
+              value={debtInstrument}
+              onChange={(e) => onDebtInstrumentChange(e.target.value as DebtInstrument)}
+              className="h-9 rounded-md border bg-transparent px-2 text-sm dark:bg-gray-800"
+            >
+              {debtAccounts.map(account => (
+                <option key={account.id} value={account.id} disabled={getAvailableCredit(account) <= 0}>
+                  {t(`debt.instruments.${account.id}`)} · {t('debt.apr', { rate: (account.apr * 100).toFixed(0) })}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-red-700 dark:text-red-300">{t('allocation.debtInterestWarning')}</p>
+        </div>
+      )}
+      {plansRepayment && accountsWithBalance.length > 0 && (
+        <label className="flex flex-wrap items-center gap-2 text-sm">
+          {t('debt.repaymentTargetLabel')}
+          <select
+            value={resolveRepaymentTarget(debtAccounts, repaymentTarget)}
+            onChange={(e) => onRepaymentTargetChange(e.target.value as DebtInstrument)}
+            className="h-9 rounded-md border bg-transparent px-2 text-sm dark:bg-gray-800"
+          >
+            {accountsWithBalance.map(account => (
+              <option key={account.id} value={account.id}>
+                {t(`debt.instruments.${account.id}`)} · ${account.balance.toFixed(2)}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {overBudget.length > 0 && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {overBudget.map(source => t(`budgetPlan.overBudget.${source}`)).join(' ')}
+        </p>
+      )}
+      <Button onClick={() => onSubmit(plan)} className="w-full" size="lg" disabled={overBudget.length > 0}>
+        {t('budgetPlan.submit')} ➡️
+      </Button>
+    </div>
+  )
+}
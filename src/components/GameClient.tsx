@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useMemo, useRef } from "react"
 import { useTranslations, useLocale } from 'next-intl'
+import Link from 'next/link'
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -9,52 +10,113 @@ import { Progress } from "@/components/ui/progress"
 import { Slider } from "@/components/ui/slider"
 import { toast } from "sonner"
 import {
-  handleNormalAllocation,
-  handleSavingsAllocation,
-  handleDebtAllocation,
+  applyAllocationPlan,
+  applyCategoryAllocation,
   determineAllocationMode,
   getAvailableDebtAllocation,
+  sumPlanBySource,
   type GameState,
-  type BudgetAllocation
+  type BudgetAllocation,
+  type PlannedAllocation
 } from '@/lib/allocationLogic'
+import {
+  advancePeriod,
+  getPeriodBudget,
+  normalizeTotalRounds,
+  DEFAULT_TOTAL_ROUNDS,
+  SIMULATION_LENGTH_PRESETS
+} from '@/lib/roundEngine'
+import {
+  getMonthForRound,
+  monthsToRounds,
+  prorateMonthly,
+  roundsToMonths,
+  DEFAULT_PAY_FREQUENCY,
+  PAY_FREQUENCIES,
+  type PayFrequency
+} from '@/lib/payFrequency'
+import {
+  createDebtAccounts,
+  getAvailableCredit,
+  getCostOfDebt,
+  getRemainingDue,
+  getTotalDebt,
+  resolveRepaymentTarget,
+  type DebtInstrument
+} from '@/lib/debtAccounts'
+import { DEFAULT_SAVINGS_APY, INVESTMENT_WITHDRAWAL_PENALTY, normalizeSavingsApy } from '@/lib/investments'
+import { formatSeed, generateSeed, parseSeed } from '@/lib/random'
+import {
+  calculatePaystub,
+  findTaxJurisdictions,
+  DEFAULT_PRE_TAX_DEDUCTIONS,
+  type PreTaxDeductions
+} from '@/lib/taxes'
+import { rollEventsForState } from '@/lib/eventCatalog'
+import { isValidCategoryList, type BudgetCategory } from '@/lib/categories'
+import { evaluateGoals, isValidGoalList, type GoalProgress } from '@/lib/goals'
+import { scoreGame } from '@/lib/scoring'
+import {
+  getTemplateAllocations,
+  getTemplateDeviation,
+  BUDGET_TEMPLATES,
+  type BudgetTemplate
+} from '@/lib/budgetTemplates'
+import {
+  createSaveId,
+  deleteSave,
+  getResumableSave,
+  listSaves,
+  loadSave,
+  renameSave,
+  summarizeSave,
+  writeSave,
+  formatSyncCode,
+  parseSyncCode,
+  SAVE_FORMAT_VERSION,
+  type RemoteGame,
+  type SaveGame,
+  type SaveSlotSummary
+} from '@/lib/saveGames'
+import { createInitialGameState, getSaveDefaults } from '@/lib/gameDefaults'
+import type { ChallengeConfig } from '@/lib/challenge'
+import type { CostProvenance, LocationCostResult } from '@/lib/costOfLiving'
+import { playsSessionSettings, type ClassroomSession } from '@/lib/classroom'
+import { validateGameState } from '@/lib/gameStateSchema'
+import { joinRunParts, type RunFile } from '@/lib/runFile'
 import PieChart from '@/components/PieChart'
+import HistoryTimeline from '@/components/HistoryTimeline'
+import PaystubBreakdown from '@/components/PaystubBreakdown'
+import CategoryEditor from '@/components/CategoryEditor'
+import RecurringExpenseEditor from '@/components/RecurringExpenseEditor'
+import GoalEditor from '@/components/GoalEditor'
+import GoalProgressList from '@/components/GoalProgressList'
+import ScoreCard from '@/components/ScoreCard'
+import FullBudgetPlanner from '@/components/FullBudgetPlanner'
+import SaveSlotList from '@/components/SaveSlotList'
+import RunExportButtons from '@/components/RunExportButtons'
+import RunImportButton from '@/components/RunImportButton'
+import RemoteGameLoader from '@/components/RemoteGameLoader'
+import TemplateDeviationTable from '@/components/TemplateDeviationTable'
+import ChallengeConfirmation from '@/components/ChallengeConfirmation'
+import ResumePrompt from '@/components/ResumePrompt'
+import ShareChallengeButton from '@/components/ShareChallengeButton'
+import LeaderboardSubmit from '@/components/LeaderboardSubmit'
+import ClassroomJoinForm from '@/components/ClassroomJoinForm'
+import CreateClassroomButton from '@/components/CreateClassroomButton'
+import CostProvenanceNote from '@/components/CostProvenanceNote'
 
 // Types are now imported from allocationLogic.ts
 
-// Categories for budget allocation - these will be translated in the component
-const getCategoriesWithTranslations = (t: (key: string) => string) => [
-  { name: t('categories.transportation'), emoji: "🚗", key: "transportation" },
-  { name: t('categories.groceries'), emoji: "🛒", key: "groceries" },
-  { name: t('categories.diningOut'), emoji: "🍽️", key: "diningOut" },
-  { name: t('categories.healthcare'), emoji: "🏥", key: "healthcare" },
-  { name: t('categories.entertainment'), emoji: "🎮", key: "entertainment" },
-  { name: t('categories.internetPhone'), emoji: "📱", key: "internetPhone" },
-  { name: t('categories.miscellaneous'), emoji: "🛍️", key: "miscellaneous" },
-  { name: t('categories.savings'), emoji: "💰", key: "savings" },
-  { name: t('categories.debtRepayment'), emoji: "💳", key: "debtRepayment" }
-]
-
-// Random events generator - now uses translations
-const generateRandomEvent = (biweeklyIncome: number, iteration: number, t: (key: string) => string) => {
-  const events = [
-    { message: t('events.carRepairs'), adjustment: -150 },
-    { message: t('events.utilityBill'), adjustment: -Math.floor((biweeklyIncome || 0) * 0.05) },
-    { message: t('events.medicalExpense'), adjustment: -100 },
-    { message: t('events.workBonus'), adjustment: 100 },
-    { message: t('events.refund'), adjustment: 50 },
-    { message: t('events.foundCash'), adjustment: 75 },
-    { message: t('events.homeRepair'), adjustment: -120 },
-    { message: t('events.friendPayback'), adjustment: 60 },
-    { message: t('events.diningDiscount'), adjustment: 30 },
-    { message: t('events.onlineScam'), adjustment: -80 }
-  ]
-  // Use iteration as seed to make it deterministic
-  const index = ((biweeklyIncome || 0) + (iteration || 1)) % events.length
-  return events[index] || events[0] // Fallback to first event if index is out of bounds
-}
+// Categories for budget allocation - built-in ones are translated unless the player renamed them
+const getCategoriesWithTranslations = (t: ReturnType<typeof useTranslations>, categories: BudgetCategory[]) =>
+  categories.map(category => ({
+    ...category,
+    name: category.label?.trim() || (t.has(`categories.${category.key}`) ? t(`categories.${category.key}`) : category.key)
+  }))
 
-// Mock AI functions (in real app, these would call OpenAI API)
-const getLocationCostEstimates = async (location: string) => {
+// Costs for a location from the bundled dataset, or estimated by the language model
+const getLocationCostEstimates = async (location: string): Promise<LocationCostResult> => {
   try {
     const response = await fetch('/api/location-costs', {
       method: 'POST',
@@ -73,15 +135,18 @@ const getLocationCostEstimates = async (location: string) => {
   } catch (error) {
     console.error('Error fetching location costs:', error)
     // Fallback to default values
-    return { housing_cost: 1200, utility_cost: 200, tax_rate: 25 }
+    return { housing_cost: 1200, utility_cost: 200, tax_rate: 25, provenance: { source: 'default', confidence: 'none' } }
   }
 }
 
 const getExpertAdvice = async (
   location: string,
   monthlySalary: number,
-  allocations: Record<string, { amount: number; emoji: string }>,
+  allocations: Record<string, BudgetAllocation>,
   iteration: number,
+  totalRounds: number,
+  payFrequency: PayFrequency,
+  goals: GoalProgress[],
   isGameOver: boolean = false,
   locale: string = 'en'
 ) => {
@@ -96,6 +161,9 @@ const getExpertAdvice = async (
         monthlySalary,
         allocations,
         iteration,
+        totalRounds,
+        payFrequency,
+        goals: goals.map(({ goal, progress, status }) => ({ ...goal, progress, status })),
         isGameOver,
         locale
       }),
@@ -114,36 +182,92 @@ const getExpertAdvice = async (
   }
 }
 
-export default function GameClient() {
+// Keep a copy of the run on the server so it can be reviewed or continued on another
+// device. Returns the server copy, or the previous one when the server is unavailable.
+const syncRemoteGame = async (state: GameState, name: string, remote: RemoteGame | null): Promise<RemoteGame | null> => {
+  try {
+    const response = await fetch(remote ? `/api/games/${remote.id}` : '/api/games', {
+      method: remote ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ state, name, writeKey: remote?.writeKey }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to store game (${response.status})`)
+    }
+
+    const data = await response.json()
+    return remote || { id: data.game.id, writeKey: data.writeKey }
+  } catch (error) {
+    console.error('Error storing game on the server:', error)
+    return remote
+  }
+}
+
+// A stored run as game state, or null when it is missing or no longer valid
+const fetchRemoteGame = async (id: string): Promise<{ state: GameState; name: string } | null> => {
+  try {
+    const response = await fetch(`/api/games/${encodeURIComponent(id)}`)
+    if (!response.ok) {
+      return null
+    }
+
+    const { game } = await response.json() as { game: Pick<RunFile, 'config' | 'rounds' | 'progress'> & { name: string } }
+    const state = joinRunParts(game)
+    return validateGameState(state).length === 0 ? { state, name: game.name } : null
+  } catch (error) {
+    console.error('Error fetching stored game:', error)
+    return null
+  }
+}
+
+// Register a stored game with a classroom session so the teacher can follow it
+const joinClassroomSession = async (code: string, name: string, remote: RemoteGame): Promise<boolean> => {
+  try {
+    const response = await fetch(`/api/classrooms/${encodeURIComponent(code)}/students`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ name, gameId: remote.id, writeKey: remote.writeKey }),
+    })
+    return response.ok
+  } catch (error) {
+    console.error('Error joining classroom:', error)
+    return false
+  }
+}
+
+interface GameClientProps {
+  // Settings from a verified challenge link or classroom session, confirmed before the game starts
+  challenge?: ChallengeConfig
+  challengeId?: string
+  challengeToken?: string
+  classroom?: ClassroomSession
+}
+
+export default function GameClient({ challenge, challengeId, challengeToken, classroom }: GameClientProps) {
   const t = useTranslations();
   const locale = useLocale();
   const [mounted, setMounted] = useState(false)
 
+  // Initialize game state only on client side
+  const [gameState, setGameState] = useState<GameState>(createInitialGameState)
+
   // Get translated categories
-  const categories = getCategoriesWithTranslations(t)
+  const categories = getCategoriesWithTranslations(t, gameState.categories)
 
-  // Initialize game state only on client side
-  const [gameState, setGameState] = useState<GameState>(() => ({
-    stage: 'salary',
-    grossMonthlySalary: 0,
-    monthlySalary: 0,
-    location: '',
-    biweeklyIncome: 0,
-    currentBalance: 0,
-    iteration: 1,
-    currentCategoryIndex: 0,
-    allocations: {},
-    allocatedAmount: 0,
-    debt: 0,
-    costOfDebt: 0,
-    savings: 0,
-    housingCost: 0,
-    utilityCost: 0,
-    taxRate: 25,
-    iterationHistory: []
-  }))
+  // Allocations are stored by category key; resolve the label in the current language
+  const getCategoryLabel = (key: string) => categories.find(category => category.key === key)?.name || key
 
   const [grossSalary, setGrossSalary] = useState<number>(0)
+  const [seedInput, setSeedInput] = useState<string>(() => formatSeed(gameState.seed))
+  const [payFrequency, setPayFrequency] = useState<PayFrequency>(DEFAULT_PAY_FREQUENCY)
+  const [lengthPreset, setLengthPreset] = useState<string>('sixMonths')
+  const [customRounds, setCustomRounds] = useState<number>(DEFAULT_TOTAL_ROUNDS)
+  const [savingsApyPercent, setSavingsApyPercent] = useState<number>(DEFAULT_SAVINGS_APY * 100)
   const [location, setLocation] = useState<string>('')
   const [currentAmount, setCurrentAmount] = useState<number>(0)
   const [savingsAmount, setSavingsAmount] = useState<number>(0)
@@ -152,6 +276,12 @@ export default function GameClient() {
   const [isUsingDebt, setIsUsingDebt] = useState<boolean>(false)
   const [savingsExhausted, setSavingsExhausted] = useState<boolean>(false)
   const [debtUsedThisRound, setDebtUsedThisRound] = useState<number>(0)
+  const [debtInstrument, setDebtInstrument] = useState<DebtInstrument>('creditCard')
+  const [repaymentTarget, setRepaymentTarget] = useState<DebtInstrument>('creditCard')
+  // Guided one-category-at-a-time wizard, or every category on one screen
+  const [allocationView, setAllocationView] = useState<'guided' | 'fullBudget'>('guided')
+  // Budgeting method used to pre-fill allocations, if any
+  const [budgetTemplate, setBudgetTemplate] = useState<BudgetTemplate | null>(null)
   const [expertAdvice, setExpertAdvice] = useState<string>('')
   const [isLoadingAdvice, setIsLoadingAdvice] = useState<boolean>(false)
   const [isLoadingLocation, setIsLoadingLocation] = useState<boolean>(false)
@@ -162,6 +292,7 @@ export default function GameClient() {
     utility_cost: number
     tax_rate: number
   } | null>(null)
+  const [costProvenance, setCostProvenance] = useState<CostProvenance | null>(null)
   const [editableCosts, setEditableCosts] = useState<{
     housing_cost: number
     utility_cost: number
@@ -171,12 +302,87 @@ export default function GameClient() {
     utility_cost: 200,
     tax_rate: 25
   })
+  const [preTaxDeductions, setPreTaxDeductions] = useState<PreTaxDeductions>(DEFAULT_PRE_TAX_DEDUCTIONS)
+  const [useFlatTaxRate, setUseFlatTaxRate] = useState<boolean>(false)
+  // Save slot the current game autosaves into, created when the game starts
+  const [activeSave, setActiveSave] = useState<Pick<SaveGame, 'id' | 'name' | 'createdAt'> | null>(null)
+  const [saveSlots, setSaveSlots] = useState<SaveSlotSummary[]>([])
+  const [resumeOffer, setResumeOffer] = useState<SaveGame | null>(null)
+  // Server copy of the current game. Syncs are chained so a slow first upload is
+  // never created twice.
+  const [remoteGame, setRemoteGame] = useState<RemoteGame | null>(null)
+  const remoteSync = useRef<Promise<RemoteGame | null>>(Promise.resolve(null))
 
   // Ensure component is mounted on client side
   useEffect(() => {
     setMounted(true)
   }, [])
 
+  // Offer to resume the most recent unfinished game. A challenge link or classroom
+  // page only offers a game started from it, e.g. after a refresh mid-game.
+  useEffect(() => {
+    const defaults = getSaveDefaults()
+    const startedHere = (state: GameState) => classroom
+      ? playsSessionSettings(state, classroom.config)
+      : state.challengeId === challengeId
+    setResumeOffer(getResumableSave(window.localStorage, defaults, challenge ? startedHere : undefined))
+    setSaveSlots(listSaves(window.localStorage, defaults).map(summarizeSave))
+  }, [challenge, challengeId, classroom])
+
+  // Autosave the game and the in-round UI state after every change
+  useEffect(() => {
+    if (!activeSave || gameState.stage === 'salary') {
+      return
+    }
+    writeSave(window.localStorage, {
+      version: SAVE_FORMAT_VERSION,
+      ...activeSave,
+      updatedAt: new Date().toISOString(),
+      state: gameState,
+      ui: {
+        currentAmount,
+        savingsAmount,
+        debtAmount,
+        isUsingSavings,
+        isUsingDebt,
+        savingsExhausted,
+        debtUsedThisRound,
+        debtInstrument,
+        repaymentTarget,
+        allocationView,
+        budgetTemplate,
+        expertAdvice,
+        locationEstimates,
+        costProvenance,
+        editableCosts,
+        preTaxDeductions,
+        useFlatTaxRate,
+        remoteGame
+      }
+    }, getSaveDefaults())
+  }, [
+    activeSave,
+    gameState,
+    currentAmount,
+    savingsAmount,
+    debtAmount,
+    isUsingSavings,
+    isUsingDebt,
+    savingsExhausted,
+    debtUsedThisRound,
+    debtInstrument,
+    repaymentTarget,
+    allocationView,
+    budgetTemplate,
+    expertAdvice,
+    locationEstimates,
+    costProvenance,
+    editableCosts,
+    preTaxDeductions,
+    useFlatTaxRate,
+    remoteGame
+  ])
+
   // Monitor when savings are exhausted during allocation
   useEffect(() => {
     if (isUsingSavings && savingsAmount >= gameState.savings && gameState.savings > 0) {
@@ -200,6 +406,17 @@ export default function GameClient() {
     }
   }, [gameState.savings])
 
+  // Pre-fill the guided slider with the template's suggestion for the current category
+  useEffect(() => {
+    const category = gameState.categories[gameState.currentCategoryIndex]
+    if (gameState.stage !== 'budget_allocation' || !budgetTemplate || !category) {
+      return
+    }
+    const suggested = getTemplateAllocations(budgetTemplate, gameState)[category.key] || 0
+    const remaining = getPeriodBudget(gameState).discretionaryIncome - gameState.allocatedAmount
+    setCurrentAmount(Math.max(0, Math.min(suggested, remaining)))
+  }, [budgetTemplate, gameState])
+
   // Auto-trigger expert review when summary stage loads
   useEffect(() => {
     if (gameState.stage === 'summary' && !expertAdvice && !isLoadingAdvice) {
@@ -222,12 +439,33 @@ export default function GameClient() {
     return loadingComponent
   }
 
+  // Presets are expressed in months, so their round count depends on the pay frequency
+  const getSelectedTotalRounds = () => {
+    const preset = SIMULATION_LENGTH_PRESETS.find(entry => entry.key === lengthPreset)
+    return preset ? monthsToRounds(preset.months, payFrequency) : normalizeTotalRounds(customRounds)
+  }
+
   const handleSalarySubmit = () => {
     if (grossSalary <= 0) return
+    const seed = parseSeed(seedInput)
+    if (seed === null) return
+
+    if (!activeSave) {
+      setActiveSave({
+        id: createSaveId(),
+        name: t('saves.defaultName', { date: new Date().toLocaleString(locale) }),
+        createdAt: new Date().toISOString()
+      })
+    }
+    setResumeOffer(null)
 
     setGameState(prev => ({
       ...prev,
       grossMonthlySalary: grossSalary,
+      seed,
+      payFrequency,
+      totalRounds: getSelectedTotalRounds(),
+      savingsApy: normalizeSavingsApy(savingsApyPercent / 100),
       stage: 'location'
     }))
   }
@@ -239,8 +477,9 @@ export default function GameClient() {
     const loadingToast = toast.loading(t('toasts.gettingEstimates', { location }))
 
     try {
-      const estimates = await getLocationCostEstimates(location)
+      const { provenance, ...estimates } = await getLocationCostEstimates(location)
       setLocationEstimates(estimates)
+      setCostProvenance(provenance)
       setEditableCosts(estimates)
       toast.dismiss(loadingToast)
       toast.success(t('toasts.estimatesLoaded', { location }))
@@ -249,6 +488,7 @@ export default function GameClient() {
       // Use default values if API fails
       const defaultEstimates = { housing_cost: 1200, utility_cost: 200, tax_rate: 25 }
       setLocationEstimates(defaultEstimates)
+      setCostProvenance({ source: 'default', confidence: 'none' })
       setEditableCosts(defaultEstimates)
       toast.dismiss(loadingToast)
       toast.error(t('toasts.estimatesFailed'))
@@ -257,10 +497,19 @@ export default function GameClient() {
     }
   }
 
+  // Gross-to-net pay for the chosen location. Bundled tax tables are used when the
+  // location is recognized, otherwise (or when the player overrides it) the flat rate.
+  const getPaystub = () => {
+    const jurisdictions = findTaxJurisdictions(location)
+    const flatRate = useFlatTaxRate || jurisdictions.length === 0 ? editableCosts.tax_rate : null
+    return calculatePaystub(Number(grossSalary), jurisdictions, preTaxDeductions, flatRate)
+  }
+
   const handleContinueWithCosts = () => {
-    const taxRate = editableCosts.tax_rate
-    const monthlySalary = Number(grossSalary) * (1 - taxRate / 100)
-    const biweeklyIncome = monthlySalary / 2
+    const paystub = getPaystub()
+    const taxRate = Math.round(paystub.effectiveTaxRate * 100) / 100
+    const monthlySalary = paystub.net
+    const paycheck = prorateMonthly(monthlySalary, gameState.payFrequency)
 
     console.log('Debug - Setting costs:', {
       housingCost: editableCosts.housing_cost,
@@ -272,17 +521,116 @@ export default function GameClient() {
       ...prev,
       location: location,
       monthlySalary: monthlySalary,
-      biweeklyIncome: biweeklyIncome,
+      paycheck: paycheck,
+      debtAccounts: createDebtAccounts(Number(grossSalary)),
       currentBalance: 0, // Start with 0 carryover for Round 1
       housingCost: editableCosts.housing_cost,
       utilityCost: editableCosts.utility_cost,
       taxRate: taxRate,
+      preTaxDeductions,
+      flatTaxRate: paystub.flatRate ? editableCosts.tax_rate : null,
       stage: 'budget_allocation'
     }))
 
     toast.success(t('toasts.budgetStarted'))
   }
 
+  // Start the game a challenge link or classroom session describes, skipping the
+  // salary and location steps. Students joining a class are registered with it
+  // through the game's server copy.
+  const handleAcceptChallenge = async (studentName: string) => {
+    if (!challenge) return
+    const jurisdictions = findTaxJurisdictions(challenge.location)
+    const flatRate = challenge.useFlatTaxRate || jurisdictions.length === 0 ? challenge.costs.tax_rate : null
+    const paystub = calculatePaystub(challenge.grossMonthlySalary, jurisdictions, challenge.preTaxDeductions, flatRate)
+
+    const saveName = classroom
+      ? t('classroom.saveName', { name: classroom.name || t('classroom.unnamed') })
+      : t('challenge.saveName', { location: challenge.location })
+    setActiveSave({
+      id: createSaveId(),
+      name: saveName,
+      createdAt: new Date().toISOString()
+    })
+    setResumeOffer(null)
+    setGrossSalary(challenge.grossMonthlySalary)
+    setSeedInput(formatSeed(challenge.seed))
+    setPayFrequency(challenge.payFrequency)
+    setLengthPreset('custom')
+    setCustomRounds(challenge.totalRounds)
+    setSavingsApyPercent(challenge.savingsApy * 100)
+    setLocation(challenge.location)
+    setLocationEstimates(challenge.costs)
+    setCostProvenance(null)
+    setEditableCosts(challenge.costs)
+    setPreTaxDeductions(challenge.preTaxDeductions)
+    setUseFlatTaxRate(challenge.useFlatTaxRate)
+
+    const nextState: GameState = {
+      ...gameState,
+      grossMonthlySalary: challenge.grossMonthlySalary,
+      location: challenge.location,
+      payFrequency: challenge.payFrequency,
+      totalRounds: challenge.totalRounds,
+      savingsApy: challenge.savingsApy,
+      seed: challenge.seed,
+      recurringExpenses: challenge.recurringExpenses,
+      goals: challenge.goals,
+      challengeId,
+      challengeToken,
+      monthlySalary: paystub.net,
+      paycheck: prorateMonthly(paystub.net, challenge.payFrequency),
+      debtAccounts: createDebtAccounts(challenge.grossMonthlySalary),
+      currentBalance: 0,
+      housingCost: challenge.costs.housing_cost,
+      utilityCost: challenge.costs.utility_cost,
+      taxRate: Math.round(paystub.effectiveTaxRate * 100) / 100,
+      preTaxDeductions: challenge.preTaxDeductions,
+      flatTaxRate: flatRate,
+      stage: 'budget_allocation'
+    }
+    setGameState(nextState)
+    toast.success(t('toasts.budgetStarted'))
+
+    if (classroom) {
+      pushRemoteGame(nextState, saveName)
+      const remote = await remoteSync.current
+      if (remote && await joinClassroomSession(classroom.code, studentName, remote)) {
+        toast.success(t('classroom.joined', { name: classroom.name || t('classroom.unnamed') }))
+      } else {
+        toast.error(t('classroom.joinFailed'))
+      }
+    }
+  }
+
+  // The current game's setup as a challenge for others: what is entered on the
+  // location screen, or once the game has started, what it is played with
+  const getChallengeConfig = (): ChallengeConfig => {
+    const started = gameState.stage !== 'salary' && gameState.stage !== 'location'
+    const setup = started
+      ? {
+        location: gameState.location,
+        costs: {
+          housing_cost: gameState.housingCost,
+          utility_cost: gameState.utilityCost,
+          tax_rate: gameState.flatTaxRate ?? gameState.taxRate
+        },
+        useFlatTaxRate: typeof gameState.flatTaxRate === 'number',
+        preTaxDeductions: gameState.preTaxDeductions || DEFAULT_PRE_TAX_DEDUCTIONS
+      }
+      : { location: location.trim(), costs: editableCosts, useFlatTaxRate, preTaxDeductions }
+    return {
+      ...setup,
+      grossMonthlySalary: gameState.grossMonthlySalary,
+      payFrequency: gameState.payFrequency,
+      totalRounds: gameState.totalRounds,
+      savingsApy: gameState.savingsApy,
+      seed: gameState.seed,
+      recurringExpenses: gameState.recurringExpenses,
+      goals: gameState.goals
+    }
+  }
+
 
 
   const handleAllocationSubmit = (overrideAmount?: number, mode?: 'normal' | 'savings' | 'debt') => {
@@ -298,11 +646,6 @@ export default function GameClient() {
     const amountToUse = overrideAmount !== undefined ? overrideAmount : currentAmount
 
     setGameState(prev => {
-      let newGameState: GameState
-      let newSavings: number
-      let newDebt: number
-      let savingsExhausted = false
-
       // Determine which allocation mode to use
       const actualMode = mode || (isUsingSavings ? 'savings' : isUsingDebt ? 'debt' : 'normal')
       console.log('Debug - handleAllocationSubmit called with:', {
@@ -311,67 +654,27 @@ export default function GameClient() {
         isUsingSavings,
         isUsingDebt,
         amountToUse,
-        categoryName: currentCategory.name
+        categoryKey: currentCategory.key
       })
 
-      if (actualMode === 'savings') {
-        console.log('Debug - Entering savings allocation mode')
-        // Savings allocation mode
-        const result = handleSavingsAllocation(prev, amountToUse, currentCategory.name, currentCategory.emoji)
-        newGameState = result.newGameState
-        newSavings = result.newSavings
-        newDebt = result.newDebt
-        savingsExhausted = result.savingsExhausted
-
-        console.log('Debug - Savings Exhausted:', result.savingsExhausted)
+      const source = actualMode === 'normal' ? 'income' : actualMode
+      const nextState = applyCategoryAllocation(prev, amountToUse, source, debtInstrument, repaymentTarget)
 
+      if (actualMode === 'savings') {
         // Update the component's savingsExhausted state immediately
-        if (result.savingsExhausted) {
+        const savingsExhausted = nextState.savings <= 0
+        console.log('Debug - Savings Exhausted:', savingsExhausted)
+        if (savingsExhausted) {
           setSavingsExhausted(true)
         }
       } else if (actualMode === 'debt') {
-        console.log('Debug - Entering debt allocation mode')
-        // Debt allocation mode
-        const result = handleDebtAllocation(prev, amountToUse, currentCategory.name, currentCategory.emoji)
-        newGameState = result.newGameState
-        newSavings = result.newSavings
-        newDebt = result.newDebt
-
         // Track debt used in this round
-        console.log('Debug - Setting debtUsedThisRound:', { current: debtUsedThisRound, adding: amountToUse, newTotal: debtUsedThisRound + amountToUse })
-        console.log('Debug - Call stack:', new Error().stack)
         const newDebtUsedThisRound = debtUsedThisRound + amountToUse
         console.log('Debug - Setting debt used to:', newDebtUsedThisRound)
         setDebtUsedThisRound(newDebtUsedThisRound)
-      } else {
-        // Normal allocation mode
-        const result = handleNormalAllocation(prev, amountToUse, currentCategory.name, currentCategory.emoji)
-        newGameState = result.newGameState
-        newSavings = result.newSavings
-        newDebt = result.newDebt
-      }
-
-      const newCategoryIndex = prev.currentCategoryIndex + 1
-
-      // If we've allocated all categories, move to summary
-      if (newCategoryIndex >= categories.length) {
-        return {
-          ...newGameState,
-          currentCategoryIndex: newCategoryIndex,
-          savings: newSavings,
-          debt: newDebt,
-          costOfDebt: newDebt * 0.15 / 26, // Update debt interest
-          stage: 'summary'
-        }
       }
 
-      return {
-        ...newGameState,
-        currentCategoryIndex: newCategoryIndex,
-        savings: newSavings,
-        debt: newDebt,
-        costOfDebt: newDebt * 0.15 / 26 // Update debt interest
-      }
+      return nextState
     })
 
     setCurrentAmount(0)
@@ -383,97 +686,39 @@ export default function GameClient() {
     submissionInProgress.current = false
   }
 
-  const handleNextPeriod = () => {
-    const biweeklyHousing = gameState.housingCost / 2
-    const biweeklyUtilities = gameState.utilityCost / 2
-    const biweeklyFixedCosts = biweeklyHousing + biweeklyUtilities
-
-    // Calculate new balance
-    let newBalance = gameState.currentBalance + gameState.biweeklyIncome
-    let newDebt = gameState.debt
-    let newSavings = gameState.savings
-
-    // Apply fixed costs
-    newBalance -= biweeklyFixedCosts
-
-    // Apply discretionary spending
-    newBalance -= gameState.allocatedAmount
-
-    // Generate random event
-    const event = generateRandomEvent(gameState.biweeklyIncome || 0, gameState.iteration, t)
-    newBalance += event?.adjustment || 0
-
-    // Handle debt repayment (already handled in allocation stage)
-    if (gameState.allocations["debtRepayment"]) {
-      const debtPayment = gameState.allocations["debtRepayment"].amount
-      if (debtPayment > 0 && newDebt > 0) {
-        newDebt = Math.max(0, newDebt - debtPayment)
-      }
-    }
-
-    // If balance goes negative, use savings first, then create debt
-    if (newBalance < 0) {
-      const shortfall = Math.abs(newBalance)
-
-      // Use savings first
-      if (newSavings >= shortfall) {
-        newSavings -= shortfall
-        newBalance = 0
-      } else {
-        // If savings aren't enough, use all savings and create debt for the rest
-        const remainingShortfall = shortfall - newSavings
-        newSavings = 0
-        newDebt += remainingShortfall
-        newBalance = 0
-      }
-    }
+  // Submit every remaining category at once from the full-budget view
+  const handleBudgetPlanSubmit = (plan: Record<string, PlannedAllocation>) => {
+    setGameState(prev => applyAllocationPlan(prev, plan, debtInstrument, repaymentTarget))
+    setDebtUsedThisRound(prev => prev + sumPlanBySource(plan).debt)
+  }
 
-    // Add monthly interest to debt (every 2 iterations = 1 month)
-    if (gameState.iteration % 2 === 0 && newDebt > 0) {
-      const monthlyInterest = newDebt * 0.15 / 12 // 15% APR
-      newDebt += monthlyInterest
-    }
+  // Store every completed round on the server
+  const pushRemoteGame = (state: GameState, name: string = activeSave?.name || '') => {
+    remoteSync.current = remoteSync.current.then(remote => syncRemoteGame(state, name, remote))
+    remoteSync.current.then(setRemoteGame)
+  }
 
-    const newIteration = gameState.iteration + 1
+  const handleNextPeriod = () => {
+    const events = rollEventsForState(gameState)
+    const { state: nextState } = advancePeriod(gameState, gameState.allocations, events)
 
-    setGameState(prev => ({
-      ...prev,
-      currentBalance: newBalance,
-      debt: newDebt,
-      savings: newSavings,
-      costOfDebt: newDebt * 0.15 / 26, // Biweekly interest
-      iteration: newIteration,
-      currentCategoryIndex: 0,
-      allocations: {},
-      allocatedAmount: 0,
-      stage: newIteration > 12 ? 'game_over' : 'budget_allocation'
-    }))
+    setGameState(nextState)
+    pushRemoteGame(nextState)
 
-    // Reset debt tracking for new round
+    // Reset debt tracking and advice for new round
     setDebtUsedThisRound(0)
+    setExpertAdvice('')
   }
 
   const resetGame = () => {
-    setGameState({
-      stage: 'salary',
-      grossMonthlySalary: 0,
-      monthlySalary: 0,
-      location: '',
-      biweeklyIncome: 0,
-      currentBalance: 0,
-      iteration: 1,
-      currentCategoryIndex: 0,
-      allocations: {},
-      allocatedAmount: 0,
-      debt: 0,
-      costOfDebt: 0,
-      savings: 0,
-      housingCost: 0,
-      utilityCost: 0,
-      taxRate: 25,
-      iterationHistory: []
-    })
+    const initialState = createInitialGameState()
+    setGameState(initialState)
+    setSeedInput(formatSeed(initialState.seed))
     setGrossSalary(0)
+    setPayFrequency(DEFAULT_PAY_FREQUENCY)
+    setLengthPreset('sixMonths')
+    setCustomRounds(DEFAULT_TOTAL_ROUNDS)
+    setSavingsApyPercent(DEFAULT_SAVINGS_APY * 100)
     setLocation('')
     setCurrentAmount(0)
     setSavingsAmount(0)
@@ -482,15 +727,113 @@ export default function GameClient() {
     setIsUsingDebt(false)
     setSavingsExhausted(false)
     setDebtUsedThisRound(0)
+    setDebtInstrument('creditCard')
+    setRepaymentTarget('creditCard')
     setExpertAdvice('')
     setIsLoadingAdvice(false)
     setIsLoadingLocation(false)
     setLocationEstimates(null)
+    setCostProvenance(null)
     setEditableCosts({
       housing_cost: 1200,
       utility_cost: 200,
       tax_rate: 25
     })
+    setPreTaxDeductions(DEFAULT_PRE_TAX_DEDUCTIONS)
+    setUseFlatTaxRate(false)
+    // The finished game keeps its slot; the next one gets a new slot when it starts
+    setActiveSave(null)
+    setRemoteGame(null)
+    remoteSync.current = Promise.resolve(null)
+    setSaveSlots(listSaves(window.localStorage, getSaveDefaults()).map(summarizeSave))
+  }
+
+  // Continue a saved game where it was left
+  const restoreSave = (save: SaveGame) => {
+    const { state, ui } = save
+    setGameState(state)
+    setSeedInput(formatSeed(state.seed))
+    setGrossSalary(state.grossMonthlySalary)
+    setPayFrequency(state.payFrequency)
+    setLocation(state.location)
+    setSavingsApyPercent(state.savingsApy * 100)
+    setCurrentAmount(ui.currentAmount)
+    setSavingsAmount(ui.savingsAmount)
+    setDebtAmount(ui.debtAmount)
+    setIsUsingSavings(ui.isUsingSavings)
+    setIsUsingDebt(ui.isUsingDebt)
+    setSavingsExhausted(ui.savingsExhausted)
+    setDebtUsedThisRound(ui.debtUsedThisRound)
+    setDebtInstrument(ui.debtInstrument)
+    setRepaymentTarget(ui.repaymentTarget)
+    setAllocationView(ui.allocationView)
+    setBudgetTemplate(ui.budgetTemplate)
+    setExpertAdvice(ui.expertAdvice)
+    setLocationEstimates(ui.locationEstimates)
+    setCostProvenance(ui.costProvenance)
+    setEditableCosts(ui.editableCosts)
+    setPreTaxDeductions(ui.preTaxDeductions)
+    setUseFlatTaxRate(ui.useFlatTaxRate)
+    setRemoteGame(ui.remoteGame)
+    remoteSync.current = Promise.resolve(ui.remoteGame)
+    setActiveSave({ id: save.id, name: save.name, createdAt: save.createdAt })
+    setResumeOffer(null)
+  }
+
+  const handleLoadSave = (id: string) => {
+    const save = loadSave(window.localStorage, id, getSaveDefaults())
+    if (save) {
+      restoreSave(save)
+    } else {
+      toast.error(t('saves.loadFailed'))
+    }
+  }
+
+  // Load an exported run for review or to keep playing; it autosaves into a new slot
+  const handleImportRun = (state: GameState, fileName: string) => {
+    const now = new Date().toISOString()
+    restoreSave({
+      version: SAVE_FORMAT_VERSION,
+      id: createSaveId(),
+      name: t('runFile.importedName', { file: fileName }),
+      createdAt: now,
+      updatedAt: now,
+      state,
+      ui: getSaveDefaults().ui
+    })
+    toast.success(t('runFile.imported'))
+  }
+
+  // Continue a server copy on this device; it autosaves into a new local slot
+  const handleLoadRemoteGame = async (code: string) => {
+    const remote = parseSyncCode(code)
+    const stored = remote && await fetchRemoteGame(remote.id)
+    if (!remote || !stored) {
+      toast.error(t('remote.loadFailed'))
+      return
+    }
+    const now = new Date().toISOString()
+    restoreSave({
+      version: SAVE_FORMAT_VERSION,
+      id: createSaveId(),
+      name: stored.name || t('remote.loadedName'),
+      createdAt: now,
+      updatedAt: now,
+      state: stored.state,
+      ui: { ...getSaveDefaults().ui, remoteGame: remote }
+    })
+    toast.success(t('remote.loaded'))
+  }
+
+  const handleRenameSave = (id: string, name: string) => {
+    renameSave(window.localStorage, id, name, getSaveDefaults())
+    setSaveSlots(listSaves(window.localStorage, getSaveDefaults()).map(summarizeSave))
+  }
+
+  const handleDeleteSave = (id: string) => {
+    deleteSave(window.localStorage, id)
+    setSaveSlots(slots => slots.filter(slot => slot.id !== id))
+    setResumeOffer(offer => offer?.id === id ? null : offer)
   }
 
   const fetchExpertAdvice = async (isGameOver: boolean = false) => {
@@ -499,8 +842,14 @@ export default function GameClient() {
       const advice = await getExpertAdvice(
         gameState.location,
         gameState.monthlySalary,
-        gameState.allocations,
+        // The advisor reads the allocations with labels in the player's language
+        Object.fromEntries(
+          Object.entries(gameState.allocations).map(([key, data]) => [getCategoryLabel(key), data])
+        ),
         gameState.iteration,
+        gameState.totalRounds,
+        gameState.payFrequency,
+        evaluateGoals(gameState, isGameOver),
         isGameOver,
         locale
       )
@@ -514,6 +863,24 @@ export default function GameClient() {
   }
 
   // Salary Input Stage
+  // A challenge link replaces the setup screens with a confirmation of its settings
+  if (challenge && gameState.stage === 'salary') {
+    return (
+      <ChallengeConfirmation
+        config={challenge}
+        classroomName={classroom?.name}
+        onAccept={handleAcceptChallenge}
+        resumePrompt={resumeOffer && (
+          <ResumePrompt
+            save={resumeOffer}
+            onResume={() => restoreSave(resumeOffer)}
+            onDismiss={() => setResumeOffer(null)}
+          />
+        )}
+      />
+    )
+  }
+
   if (gameState.stage === 'salary') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
@@ -528,6 +895,14 @@ export default function GameClient() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
+              {resumeOffer && (
+                <ResumePrompt
+                  save={resumeOffer}
+                  onResume={() => restoreSave(resumeOffer)}
+                  onDismiss={() => setResumeOffer(null)}
+                />
+              )}
+
               <div className="space-y-2">
                 <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
                   {t('salary.title')}
@@ -544,13 +919,131 @@ export default function GameClient() {
                 </p>
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {t('salary.payFrequencyLabel')}
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {PAY_FREQUENCIES.map(entry => (
+                    <Button
+                      key={entry.key}
+                      variant={payFrequency === entry.key ? 'default' : 'outline'}
+                      onClick={() => setPayFrequency(entry.key)}
+                    >
+                      {t('salary.payFrequencyOption', { frequency: entry.key })}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {t('salary.payFrequencyDescription', {
+                    periods: PAY_FREQUENCIES.find(entry => entry.key === payFrequency)?.periodsPerYear || 26
+                  })}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {t('salary.lengthLabel')}
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {SIMULATION_LENGTH_PRESETS.map(preset => (
+                    <Button
+                      key={preset.key}
+                      variant={lengthPreset === preset.key ? 'default' : 'outline'}
+                      onClick={() => setLengthPreset(preset.key)}
+                    >
+                      {t(`salary.length.${preset.key}`)}
+                    </Button>
+                  ))}
+                  <Button
+                    variant={lengthPreset === 'custom' ? 'default' : 'outline'}
+                    onClick={() => setLengthPreset('custom')}
+                  >
+                    {t('salary.length.custom')}
+                  </Button>
+                </div>
+                {lengthPreset === 'custom' && (
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder={t('salary.customRoundsPlaceholder')}
+                    value={customRounds || ''}
+                    onChange={(e) => setCustomRounds(Number(e.target.value))}
+                  />
+                )}
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {t('salary.lengthSummary', {
+                    rounds: getSelectedTotalRounds(),
+                    months: roundsToMonths(getSelectedTotalRounds(), payFrequency)
+                  })}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {t('salary.seedLabel')}
+                </label>
+                <div className="flex gap-2">
+                  <Input
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value.toUpperCase())}
+                    className="font-mono"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => setSeedInput(formatSeed(generateSeed()))}
+                  >
+                    🎲 {t('salary.newSeed')}
+                  </Button>
+                </div>
+                <p className={`text-sm ${parseSeed(seedInput) === null ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                  {parseSeed(seedInput) === null ? t('salary.invalidSeed') : t('salary.seedDescription')}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {t('salary.savingsApyLabel')}
+                </label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={20}
+                  step={0.1}
+                  value={savingsApyPercent}
+                  onChange={(e) => setSavingsApyPercent(Number(e.target.value))}
+                />
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {t('salary.savingsApyDescription')}
+                </p>
+              </div>
+
+              <GoalEditor
+                goals={gameState.goals}
+                totalMonths={Math.max(1, Math.ceil(roundsToMonths(getSelectedTotalRounds(), payFrequency)))}
+                onChange={(updated) => setGameState(prev => ({ ...prev, goals: updated }))}
+              />
+
+              <SaveSlotList
+                slots={saveSlots}
+                onLoad={handleLoadSave}
+                onRename={handleRenameSave}
+                onDelete={handleDeleteSave}
+              />
+
+              <RunImportButton onImport={handleImportRun} />
+
+              <RemoteGameLoader onLoad={handleLoadRemoteGame} />
+
+              <ClassroomJoinForm />
+
               {grossSalary > 0 && (
                 <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
                   <h4 className="font-semibold text-blue-800 dark:text-blue-200 mb-2">
                     {t('salary.incomeSummary')}
                   </h4>
                   <p className="text-blue-700 dark:text-blue-300">
-                    {t('salary.grossMonthly', { amount: grossSalary.toLocaleString() })}
+                    {t('salary.grossMonthly', { amount: grossSalary.toFixed(2) })}
                   </p>
                   <p className="text-blue-700 dark:text-blue-300">
                     {t('salary.taxCalculation')}
@@ -560,7 +1053,7 @@ export default function GameClient() {
 
               <Button
                 onClick={handleSalarySubmit}
-                disabled={grossSalary <= 0}
+                disabled={grossSalary <= 0 || parseSeed(seedInput) === null || !isValidGoalList(gameState.goals)}
                 className="w-full"
                 size="lg"
               >
@@ -575,7 +1068,9 @@ export default function GameClient() {
 
   // Location Input Stage
   if (gameState.stage === 'location') {
-    const calculatedNetMonthly = Number(grossSalary) * (1 - editableCosts.tax_rate / 100)
+    const taxJurisdictions = findTaxJurisdictions(location)
+    const paystub = getPaystub()
+    const calculatedNetMonthly = paystub.net
 
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
@@ -594,11 +1089,50 @@ export default function GameClient() {
                 <div className="space-y-4">
                   <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
                     <h4 className="font-semibold mb-2">{t('location.incomeSummary')}</h4>
-                    <p>{t('location.grossMonthly', { amount: grossSalary.toLocaleString() })}</p>
-                    <p>{t('location.taxFreeMonthly', { amount: calculatedNetMonthly.toLocaleString() })}</p>
-                    <p>{t('location.biweeklyBudget', { amount: (calculatedNetMonthly / 2).toLocaleString() })}</p>
+                    <p>{t('location.grossMonthly', { amount: grossSalary.toFixed(2) })}</p>
+                    <p>{t('location.taxFreeMonthly', { amount: calculatedNetMonthly.toFixed(2) })}</p>
+                    <p>{t('location.periodBudget', { amount: prorateMonthly(calculatedNetMonthly, gameState.payFrequency).toFixed(2), frequency: gameState.payFrequency })}</p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <h4 className="font-semibold">{t('tax.preTaxTitle')}</h4>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">{t('tax.retirementLabel')}</label>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={Math.round(preTaxDeductions.retirementRate * 1000) / 10}
+                          onChange={(e) => setPreTaxDeductions(prev => ({
+                            ...prev,
+                            retirementRate: Math.min(100, Math.max(0, Number(e.target.value))) / 100
+                          }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">{t('tax.hsaLabel')}</label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={preTaxDeductions.hsaMonthly}
+                          onChange={(e) => setPreTaxDeductions(prev => ({
+                            ...prev,
+                            hsaMonthly: Math.max(0, Number(e.target.value))
+                          }))}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">{t('tax.preTaxDescription')}</p>
                   </div>
 
+                  <PaystubBreakdown paystub={paystub} payFrequency={gameState.payFrequency} />
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    {paystub.flatRate
+                      ? (taxJurisdictions.length === 0 ? t('tax.noTablesForLocation') : t('tax.usingFlatRate'))
+                      : t('tax.usingTables', { jurisdictions: taxJurisdictions.map(jurisdiction => jurisdiction.name).join(' + ') })}
+                  </p>
+
                   <div className="space-y-2">
                     <label className="text-sm font-medium">{t('location.locationLabel')}</label>
                     <Input
@@ -632,6 +1166,7 @@ export default function GameClient() {
 
                   {locationEstimates ? (
                     <div className="space-y-4">
+                      {costProvenance && <CostProvenanceNote provenance={costProvenance} />}
                       <div className="grid gap-3">
                         <div className="space-y-2">
                           <label className="text-sm font-medium">{t('location.housingCost')}</label>
@@ -659,6 +1194,16 @@ export default function GameClient() {
                         </div>
                         <div className="space-y-2">
                           <label className="text-sm font-medium">{t('location.taxRate')}</label>
+                          {taxJurisdictions.length > 0 && (
+                            <label className="flex items-center gap-2 text-sm">
+                              <input
+                                type="checkbox"
+                                checked={useFlatTaxRate}
+                                onChange={(e) => setUseFlatTaxRate(e.target.checked)}
+                              />
+                              {t('tax.overrideRate')}
+                            </label>
+                          )}
                           <Input
                             type="number"
                             value={editableCosts.tax_rate}
@@ -666,6 +1211,7 @@ export default function GameClient() {
                               ...prev,
                               tax_rate: Number(e.target.value)
                             }))}
+                            disabled={!paystub.flatRate}
                             className="w-full"
                           />
                         </div>
@@ -676,14 +1222,23 @@ export default function GameClient() {
                           {t('salary.updatedIncomeSummary')}
                         </h5>
                         <div className="space-y-1 text-sm text-blue-700 dark:text-blue-300">
-                          <p>{t('salary.grossMonthlyLabel', { amount: grossSalary.toLocaleString() })}</p>
-                          <p>{t('salary.taxFreeMonthlyLabel', { amount: (Number(grossSalary) * (1 - editableCosts.tax_rate / 100)).toLocaleString() })}</p>
-                          <p>{t('salary.biweeklyBudgetLabel', { amount: (Number(grossSalary) * (1 - editableCosts.tax_rate / 100) / 2).toLocaleString() })}</p>
+                          <p>{t('salary.grossMonthlyLabel', { amount: grossSalary.toFixed(2) })}</p>
+                          <p>{t('salary.taxFreeMonthlyLabel', { amount: calculatedNetMonthly.toFixed(2) })}</p>
+                          <p>{t('salary.periodBudgetLabel', { amount: prorateMonthly(calculatedNetMonthly, gameState.payFrequency).toFixed(2), frequency: gameState.payFrequency })}</p>
                         </div>
                       </div>
 
+                      <ShareChallengeButton config={getChallengeConfig()} disabled={!location.trim()} />
+                      <CreateClassroomButton config={getChallengeConfig()} disabled={!location.trim()} />
+
+                      {!isValidCategoryList(gameState.categories) && (
+                        <p className="text-sm text-red-600 dark:text-red-400">
+                          {t('categoryEditor.invalid')}
+                        </p>
+                      )}
                       <Button
                         onClick={handleContinueWithCosts}
+                        disabled={!isValidCategoryList(gameState.categories)}
                         className="w-full"
                         size="lg"
                       >
@@ -694,15 +1249,15 @@ export default function GameClient() {
                     <div className="grid gap-3">
                       <div className="flex justify-between p-3 bg-white dark:bg-gray-800 rounded-lg border">
                         <span>{t('location.housingCostLabel')}</span>
-                        <span className="font-semibold">${editableCosts.housing_cost.toLocaleString()}{t('common.perMonth')}</span>
+                        <span className="font-semibold">${editableCosts.housing_cost.toFixed(2)}{t('common.perMonth')}</span>
                       </div>
                       <div className="flex justify-between p-3 bg-white dark:bg-gray-800 rounded-lg border">
                         <span>{t('location.utilitiesLabel')}</span>
-                        <span className="font-semibold">${editableCosts.utility_cost.toLocaleString()}{t('common.perMonth')}</span>
+                        <span className="font-semibold">${editableCosts.utility_cost.toFixed(2)}{t('common.perMonth')}</span>
                       </div>
                       <div className="flex justify-between p-3 bg-white dark:bg-gray-800 rounded-lg border">
                         <span>{t('location.taxRateLabel')}</span>
-                        <span className="font-semibold">{editableCosts.tax_rate}%</span>
+                        <span className="font-semibold">{paystub.effectiveTaxRate.toFixed(1)}%</span>
                       </div>
                     </div>
                   )}
@@ -719,6 +1274,21 @@ export default function GameClient() {
                   </div>
                 </div>
               </div>
+
+              <div className="border-t pt-6">
+                <RecurringExpenseEditor
+                  expenses={gameState.recurringExpenses}
+                  totalRounds={gameState.totalRounds}
+                  onChange={(updated) => setGameState(prev => ({ ...prev, recurringExpenses: updated }))}
+                />
+              </div>
+
+              <div className="border-t pt-6">
+                <CategoryEditor
+                  categories={gameState.categories}
+                  onChange={(updated) => setGameState(prev => ({ ...prev, categories: updated }))}
+                />
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -728,17 +1298,15 @@ export default function GameClient() {
 
   // Budget Allocation Stage
   if (gameState.stage === 'budget_allocation') {
-    const biweeklyHousing = gameState.housingCost / 2
-    const biweeklyUtilities = gameState.utilityCost / 2
-    const biweeklyFixedCosts = biweeklyHousing + biweeklyUtilities
-
-    // For Round 1: Only use current bi-weekly income
-    // For subsequent rounds: Use previous balance + current bi-weekly income
-    const currentPeriodIncome = gameState.iteration === 1 ? gameState.biweeklyIncome : gameState.currentBalance + gameState.biweeklyIncome
-
-
-
-    const discretionaryIncome = currentPeriodIncome - biweeklyFixedCosts - gameState.costOfDebt
+    // Previous balance carries over on top of the current bi-weekly income
+    const {
+      periodIncome: currentPeriodIncome,
+      housing: periodHousing,
+      utilities: periodUtilities,
+      recurringCharges,
+      fixedCosts: periodFixedCosts,
+      discretionaryIncome
+    } = getPeriodBudget(gameState)
     const remainingToAllocate = discretionaryIncome - gameState.allocatedAmount
     const currentCategory = categories[gameState.currentCategoryIndex]
 
@@ -751,16 +1319,16 @@ export default function GameClient() {
     console.log("remainingToAllocate", remainingToAllocate)
     console.log("debtUsedThisRound", debtUsedThisRound)
     console.log("savingsExhausted", savingsExhausted)
-    const allocationMode = determineAllocationMode(gameState, remainingToAllocate, debtUsedThisRound, savingsExhausted)
-    const availableDebtAllocation = getAvailableDebtAllocation(gameState, debtUsedThisRound)
+    const allocationMode = determineAllocationMode(gameState, remainingToAllocate, savingsExhausted)
+    const availableDebtAllocation = getAvailableDebtAllocation(gameState, debtInstrument)
 
     // Determine which mode is active
     const shouldActivateSavings = allocationMode === 'savings' && !isUsingSavings && !isUsingDebt
-    const shouldActivateDebt = allocationMode === 'debt' && availableDebtAllocation > 0
+    const shouldActivateDebt = allocationMode === 'debt'
 
     // Debug logging
     console.log('Debug - Debt Allocation:', {
-      maxDebtAllocation: gameState.monthlySalary / 4,
+      debtInstrument,
       debtUsedThisRound,
       availableDebtAllocation,
       allocationMode,
@@ -778,6 +1346,7 @@ export default function GameClient() {
 
     // Calculate available amounts
     const availableWithSavings = shouldActivateSavings ? gameState.savings : remainingToAllocate
+    const totalDebt = getTotalDebt(gameState.debtAccounts)
 
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
@@ -785,16 +1354,19 @@ export default function GameClient() {
           <Card className="shadow-xl">
             <CardHeader>
               <CardTitle className="text-2xl font-bold">
-                🎯 {t('game.iteration', { iteration: gameState.iteration })} ({t('common.month')} {Math.ceil(gameState.iteration / 2)})
+                🎯 {t('game.iteration', { iteration: gameState.iteration, total: gameState.totalRounds })} ({t('common.month')} {getMonthForRound(gameState.iteration, gameState.payFrequency)})
               </CardTitle>
+              <CardDescription className="font-mono">
+                {t('game.seed', { seed: formatSeed(gameState.seed) })}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               {/* Financial Summary */}
               <div className="grid md:grid-cols-3 gap-4">
                 <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg">
-                  <h4 className="font-semibold text-green-800 dark:text-green-200">💵 {t('game.biweeklyIncome')}</h4>
+                  <h4 className="font-semibold text-green-800 dark:text-green-200">💵 {t('game.periodIncome', { frequency: gameState.payFrequency })}</h4>
                   <p className="text-2xl font-bold text-green-700 dark:text-green-300">
-                    ${gameState.biweeklyIncome.toLocaleString()}
+                    ${gameState.paycheck.toFixed(2)}
                   </p>
                 </div>
                 <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
@@ -802,10 +1374,10 @@ export default function GameClient() {
                     {gameState.iteration === 1 ? t('allocation.thisPeriodBudget') : t('allocation.availableBudget')}
                   </h4>
                   <p className="text-2xl font-bold text-blue-700 dark:text-blue-300">
-                    ${currentPeriodIncome.toLocaleString()}
+                    ${currentPeriodIncome.toFixed(2)}
                   </p>
                   <p className="text-xs text-blue-600 dark:text-blue-400">
-                    {gameState.iteration === 1 ? t('allocation.currentBiweekly') : t('allocation.previousPlusCurrent')}
+                    {gameState.iteration === 1 ? t('allocation.currentPeriodIncome', { frequency: gameState.payFrequency }) : t('allocation.previousPlusCurrent')}
                   </p>
                 </div>
                 <div className="bg-purple-50 dark:bg-purple-900/20 p-4 rounded-lg">
@@ -814,8 +1386,8 @@ export default function GameClient() {
                       remainingToAllocate <= 0 && availableDebtAllocation > 0 ? t('allocation.availableFromDebtLabel') : t('allocation.availableToAllocate')}
                   </h4>
                   <p className="text-2xl font-bold text-purple-700 dark:text-purple-300">
-                    ${shouldActivateSavings ? availableWithSavings.toLocaleString() :
-                      remainingToAllocate <= 0 && availableDebtAllocation > 0 ? availableDebtAllocation.toLocaleString() : Math.max(0, remainingToAllocate).toLocaleString()}
+                    ${shouldActivateSavings ? availableWithSavings.toFixed(2) :
+                      remainingToAllocate <= 0 && availableDebtAllocation > 0 ? availableDebtAllocation.toFixed(2) : Math.max(0, remainingToAllocate).toFixed(2)}
                   </p>
                   {shouldActivateSavings && (
                     <p className="text-xs text-purple-600 dark:text-purple-400">
@@ -832,21 +1404,27 @@ export default function GameClient() {
 
               {/* Fixed Costs */}
               <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
-                <h4 className="font-semibold mb-3">{t('allocation.fixedCosts')}</h4>
+                <h4 className="font-semibold mb-3">{t('allocation.fixedCosts', { frequency: gameState.payFrequency })}</h4>
                 <div className="grid md:grid-cols-2 gap-4">
                   <div className="flex justify-between">
                     <span>{t('location.housing')}</span>
-                    <span className="font-semibold">${biweeklyHousing.toLocaleString()}</span>
+                    <span className="font-semibold">${periodHousing.toFixed(2)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>{t('location.utilitiesShort')}</span>
-                    <span className="font-semibold">${biweeklyUtilities.toLocaleString()}</span>
+                    <span className="font-semibold">${periodUtilities.toFixed(2)}</span>
                   </div>
+                  {recurringCharges.map(charge => (
+                    <div key={charge.id} className="flex justify-between">
+                      <span>🔁 {charge.label || t('recurring.unnamed')}</span>
+                      <span className="font-semibold">${charge.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
                 </div>
                 <div className="border-t mt-3 pt-3">
                   <div className="flex justify-between font-semibold">
                     <span>{t('allocation.totalFixedCosts')}</span>
-                    <span>${biweeklyFixedCosts.toLocaleString()}</span>
+                    <span>${periodFixedCosts.toFixed(2)}</span>
                   </div>
                 </div>
               </div>
@@ -858,10 +1436,10 @@ export default function GameClient() {
                     {t('allocation.fixedCostsExceedIncome')}
                   </h4>
                   <p className="text-red-700 dark:text-red-300">
-                    {t('allocation.fixedCostsExceedIncomeMsg', { fixedCosts: biweeklyFixedCosts.toLocaleString(), income: currentPeriodIncome.toLocaleString() })}
+                    {t('allocation.fixedCostsExceedIncomeMsg', { fixedCosts: periodFixedCosts.toFixed(2), income: currentPeriodIncome.toFixed(2) })}
                   </p>
                   <p className="text-red-700 dark:text-red-300 font-semibold">
-                    {t('allocation.debtWillBeAdded', { amount: debtNeeded.toLocaleString() })}
+                    {t('allocation.debtWillBeAdded', { amount: debtNeeded.toFixed(2) })}
                   </p>
                 </div>
               )}
@@ -870,7 +1448,7 @@ export default function GameClient() {
               {gameState.savings > 0 && (
                 <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg">
                   <h4 className="font-semibold text-green-800 dark:text-green-200 mb-2">
-                    {t('allocation.emergencySavingsLabel', { amount: gameState.savings.toLocaleString() })}
+                    {t('allocation.emergencySavingsLabel', { amount: gameState.savings.toFixed(2) })}
                   </h4>
                   <p className="text-green-700 dark:text-green-300">
                     {t('allocation.savingsAutoUseNote')}
@@ -878,279 +1456,414 @@ export default function GameClient() {
                 </div>
               )}
 
+              {/* Investment Information */}
+              {gameState.investments > 0 && (
+                <div className="bg-purple-50 dark:bg-purple-900/20 p-4 rounded-lg">
+                  <h4 className="font-semibold text-purple-800 dark:text-purple-200 mb-2">
+                    {t('investments.balanceLabel', { amount: gameState.investments.toFixed(2) })}
+                  </h4>
+                  <p className="text-purple-700 dark:text-purple-300">
+                    {t('investments.liquidityNote', { penalty: INVESTMENT_WITHDRAWAL_PENALTY * 100 })}
+                  </p>
+                </div>
+              )}
+
               {/* Debt Information */}
-              {gameState.debt > 0 && (
+              {totalDebt > 0 && (
                 <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-lg">
                   <h4 className="font-semibold text-red-800 dark:text-red-200 mb-2">
-                    {t('allocation.currentDebt', { amount: gameState.debt.toLocaleString() })}
+                    {t('allocation.currentDebt', { amount: totalDebt.toFixed(2) })}
                   </h4>
+                  <div className="space-y-1 mb-2">
+                    {gameState.debtAccounts.filter(account => account.balance > 0).map(account => (
+                      <div key={account.id} className="flex justify-between text-sm text-red-700 dark:text-red-300">
+                        <span>
+                          {t(`debt.instruments.${account.id}`)} ({t('debt.apr', { rate: (account.apr * 100).toFixed(0) })})
+                        </span>
+                        <span>
+                          ${account.balance.toFixed(2)}
+                          {getRemainingDue(account) > 0 && ` · ${t('debt.minimumDue', { amount: getRemainingDue(account).toFixed(2) })}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
                   <p className="text-red-700 dark:text-red-300">
-                    {t('allocation.biweeklyInterestCharge', { amount: gameState.costOfDebt.toLocaleString() })}
+                    {t('allocation.periodInterestCharge', { amount: getCostOfDebt(gameState.debtAccounts, gameState.payFrequency).toFixed(2), frequency: gameState.payFrequency })}
+                  </p>
+                  <p className="text-sm text-red-700 dark:text-red-300 mt-1">
+                    {t('debt.lateFeeWarning')}
                   </p>
                 </div>
               )}
 
-              {/* Allocation Progress */}
-              <div className="space-y-3">
-                <div className="flex justify-between text-sm">
-                  <span>{t('allocation.allocationProgress')}</span>
-                  <span>
-                    {gameState.allocatedAmount.toLocaleString()} / {discretionaryIncome.toLocaleString()}
-                    {shouldActivateSavings && ` + ${savingsAmount.toLocaleString()} ${t('common.fromSavings')}`}
-                    {shouldActivateDebt && ` + ${debtAmount.toLocaleString()} ${t('common.fromDebt')}`}
-                  </span>
-                </div>
-                <Progress
-                  value={shouldActivateSavings
-                    ? ((gameState.allocatedAmount + savingsAmount) / Math.max(0.01, discretionaryIncome + savingsAmount)) * 100
-                    : shouldActivateDebt
-                      ? ((gameState.allocatedAmount + debtAmount) / Math.max(0.01, discretionaryIncome + debtAmount)) * 100
-                      : (gameState.allocatedAmount / Math.max(0.01, discretionaryIncome)) * 100
-                  }
-                  className="h-3"
-                />
-                {shouldActivateSavings && (
-                  <div className="bg-green-50 dark:bg-green-900/20 p-2 rounded text-center">
-                    <p className="text-sm text-green-700 dark:text-green-300">
-                      {t('allocation.usingEmergencySavings', { amount: savingsAmount.toLocaleString() })}
-                    </p>
-                  </div>
-                )}
-                {shouldActivateDebt && (
-                  <div className="bg-red-50 dark:bg-red-900/20 p-2 rounded text-center">
-                    <p className="text-sm text-red-700 dark:text-red-300">
-                      {t('allocation.usingDebtAllocation', { amount: debtAmount.toLocaleString() })}
-                    </p>
-                  </div>
-                )}
+              {/* Goal Progress */}
+              <GoalProgressList goals={evaluateGoals(gameState)} />
+
+              {/* Budgeting Template */}
+              <div className="space-y-1">
+                <label className="flex flex-wrap items-center gap-2 text-sm font-medium">
+                  {t('templates.label')}
+                  <select
+                    value={budgetTemplate || ''}
+                    onChange={(e) => setBudgetTemplate((e.target.value || null) as BudgetTemplate | null)}
+                    className="h-9 rounded-md border bg-transparent px-2 text-sm dark:bg-gray-800"
+                  >
+                    <option value="">{t('templates.none')}</option>
+                    {BUDGET_TEMPLATES.map(template => (
+                      <option key={template} value={template}>{t(`templates.names.${template}`)}</option>
+                    ))}
+                  </select>
+                </label>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {budgetTemplate ? t(`templates.descriptions.${budgetTemplate}`) : t('templates.noneDescription')}
+                </p>
+              </div>
+
+              {/* Allocation View */}
+              <div className="flex gap-2">
+                <Button
+                  variant={allocationView === 'guided' ? 'default' : 'outline'}
+                  onClick={() => setAllocationView('guided')}
+                  className="flex-1"
+                >
+                  🧭 {t('budgetPlan.guidedView')}
+                </Button>
+                <Button
+                  variant={allocationView === 'fullBudget' ? 'default' : 'outline'}
+                  onClick={() => setAllocationView('fullBudget')}
+                  className="flex-1"
+                  disabled={isUsingSavings || isUsingDebt}
+                >
+                  📋 {t('budgetPlan.fullBudgetView')}
+                </Button>
               </div>
 
-              {/* Current Category Allocation */}
-              {currentCategory && (
-                <div className={`p-6 rounded-lg border ${(shouldActivateSavings || shouldActivateDebt) ? 'bg-gray-100 dark:bg-gray-700 opacity-50' : 'bg-white dark:bg-gray-800'}`}>
-                  <h3 className="text-xl font-semibold mb-4">
-                    {currentCategory.emoji} {currentCategory.name}
-                  </h3>
-
-                  {shouldActivateSavings ? (
-                    <div className="text-center py-8">
-                      <p className="text-gray-600 dark:text-gray-400 mb-4">
-                        {t('allocation.fundsExhaustedUseSavings')}
+              {allocationView === 'fullBudget' ? (
+                <FullBudgetPlanner
+                  key={`${gameState.iteration}-${gameState.currentCategoryIndex}-${budgetTemplate}`}
+                  categories={categories.slice(gameState.currentCategoryIndex)}
+                  initialAmounts={budgetTemplate ? getTemplateAllocations(budgetTemplate, gameState) : undefined}
+                  available={{
+                    income: Math.max(0, remainingToAllocate),
+                    savings: gameState.savings,
+                    debt: availableDebtAllocation
+                  }}
+                  debtAccounts={gameState.debtAccounts}
+                  debtInstrument={debtInstrument}
+                  onDebtInstrumentChange={setDebtInstrument}
+                  repaymentTarget={repaymentTarget}
+                  onRepaymentTargetChange={setRepaymentTarget}
+                  onSubmit={handleBudgetPlanSubmit}
+                />
+              ) : (
+                <>
+                {/* Allocation Progress */}
+                <div className="space-y-3">
+                  <div className="flex justify-between text-sm">
+                    <span>{t('allocation.allocationProgress')}</span>
+                    <span>
+                      {gameState.allocatedAmount.toFixed(2)} / {discretionaryIncome.toFixed(2)}
+                      {shouldActivateSavings && ` + ${savingsAmount.toFixed(2)} ${t('common.fromSavings')}`}
+                      {shouldActivateDebt && ` + ${debtAmount.toFixed(2)} ${t('common.fromDebt')}`}
+                    </span>
+                  </div>
+                  <Progress
+                    value={shouldActivateSavings
+                      ? ((gameState.allocatedAmount + savingsAmount) / Math.max(0.01, discretionaryIncome + savingsAmount)) * 100
+                      : shouldActivateDebt
+                        ? ((gameState.allocatedAmount + debtAmount) / Math.max(0.01, discretionaryIncome + debtAmount)) * 100
+                        : (gameState.allocatedAmount / Math.max(0.01, discretionaryIncome)) * 100
+                    }
+                    className="h-3"
+                  />
+                  {shouldActivateSavings && (
+                    <div className="bg-green-50 dark:bg-green-900/20 p-2 rounded text-center">
+                      <p className="text-sm text-green-700 dark:text-green-300">
+                        {t('allocation.usingEmergencySavings', { amount: savingsAmount.toFixed(2) })}
                       </p>
-                      <div className="bg-yellow-50 dark:bg-yellow-900/20 p-4 rounded-lg">
-                        <p className="text-yellow-800 dark:text-yellow-200 font-semibold">
-                          {t('allocation.activateEmergencySavings')}
-                        </p>
-                        <p className="text-yellow-700 dark:text-yellow-300 text-sm">
-                          {t('allocation.clickToUseSavings')}
-                        </p>
-                      </div>
                     </div>
-                  ) : (allocationMode === 'debt' || (debtUsedThisRound > 0 && remainingToAllocate <= 0)) ? (
-                    <div className="text-center py-8">
-                      {availableDebtAllocation > 0 ? (
-                        <>
-                          <p className="text-gray-600 dark:text-gray-400 mb-4">
-                            {t('allocation.fundsAndSavingsExhaustedUseDebt')}
+                  )}
+                  {shouldActivateDebt && (
+                    <div className="bg-red-50 dark:bg-red-900/20 p-2 rounded text-center">
+                      <p className="text-sm text-red-700 dark:text-red-300">
+                        {t('allocation.usingDebtAllocation', { amount: debtAmount.toFixed(2) })}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Current Category Allocation */}
+                {currentCategory && (
+                  <div className={`p-6 rounded-lg border ${(shouldActivateSavings || shouldActivateDebt) ? 'bg-gray-100 dark:bg-gray-700 opacity-50' : 'bg-white dark:bg-gray-800'}`}>
+                    <h3 className="text-xl font-semibold mb-4">
+                      {currentCategory.emoji} {currentCategory.name}
+                    </h3>
+
+                    {shouldActivateSavings ? (
+                      <div className="text-center py-8">
+                        <p className="text-gray-600 dark:text-gray-400 mb-4">
+                          {t('allocation.fundsExhaustedUseSavings')}
+                        </p>
+                        <div className="bg-yellow-50 dark:bg-yellow-900/20 p-4 rounded-lg">
+                          <p className="text-yellow-800 dark:text-yellow-200 font-semibold">
+                            {t('allocation.activateEmergencySavings')}
                           </p>
-                          <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-lg">
-                            <p className="text-red-800 dark:text-red-200 font-semibold">
-                              {t('allocation.activateDebtAllocation')}
-                            </p>
-                            <p className="text-red-700 dark:text-red-300 text-sm">
-                              {t('allocation.clickToUseDebt')}
-                            </p>
-                          </div>
-                        </>
-                      ) : (
-                        <div className="text-center py-8">
-                          <p className="text-gray-600 dark:text-gray-400 mb-4">
-                            {t('allocation.debtLimitReached')}
+                          <p className="text-yellow-700 dark:text-yellow-300 text-sm">
+                            {t('allocation.clickToUseSavings')}
                           </p>
-                          <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-lg">
-                            <p className="text-red-800 dark:text-red-200 font-semibold">
-                              {t('allocation.debtLimitReachedTitle')}
+                        </div>
+                      </div>
+                    ) : (allocationMode === 'debt' || (debtUsedThisRound > 0 && remainingToAllocate <= 0)) ? (
+                      <div className="text-center py-8">
+                        {availableDebtAllocation > 0 ? (
+                          <>
+                            <p className="text-gray-600 dark:text-gray-400 mb-4">
+                              {t('allocation.fundsAndSavingsExhaustedUseDebt')}
                             </p>
-                            <p className="text-red-700 dark:text-red-300 text-sm">
-                              {t('allocation.debtLimitReachedMsg')}
+                            <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-lg">
+                              <p className="text-red-800 dark:text-red-200 font-semibold">
+                                {t('allocation.activateDebtAllocation')}
+                              </p>
+                              <p className="text-red-700 dark:text-red-300 text-sm">
+                                {t('allocation.clickToUseDebt')}
+                              </p>
+                            </div>
+                          </>
+                        ) : (
+                          <div className="text-center py-8">
+                            <p className="text-gray-600 dark:text-gray-400 mb-4">
+                              {t('allocation.debtLimitReached')}
                             </p>
+                            <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-lg">
+                              <p className="text-red-800 dark:text-red-200 font-semibold">
+                                {t('allocation.debtLimitReachedTitle')}
+                              </p>
+                              <p className="text-red-700 dark:text-red-300 text-sm">
+                                {t('allocation.debtLimitReachedMsg')}
+                              </p>
+                            </div>
                           </div>
+                        )}
+                      </div>
+                    ) : remainingToAllocate <= 0 ? (
+                      <div className="text-center py-8">
+                        <p className="text-gray-600 dark:text-gray-400">
+                          {t('allocation.fundsExhaustedCategoryZero')}
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        <div className="text-center">
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                            {t('allocation.youCanAllocateUpTo', { amount: remainingToAllocate.toFixed(2) })}
+                          </p>
+                          <Slider
+                            value={[currentAmount]}
+                            onValueChange={(value) => setCurrentAmount(value[0])}
+                            max={remainingToAllocate}
+                            step={5}
+                            className="w-full"
+                          />
+                          <p className="text-2xl font-bold mt-2">
+                            ${currentAmount.toFixed(2)}
+                          </p>
                         </div>
-                      )}
-                    </div>
-                  ) : remainingToAllocate <= 0 ? (
-                    <div className="text-center py-8">
-                      <p className="text-gray-600 dark:text-gray-400">
-                        {t('allocation.fundsExhaustedCategoryZero')}
-                      </p>
-                    </div>
-                  ) : (
+
+                        {currentCategory.type === 'debtRepayment' && totalDebt > 0 && (
+                          <div className="space-y-3">
+                            <div>
+                              <p className="text-sm font-medium mb-2">{t('debt.repaymentTargetLabel')}</p>
+                              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                {gameState.debtAccounts.filter(account => account.balance > 0).map(account => (
+                                  <Button
+                                    key={account.id}
+                                    variant={resolveRepaymentTarget(gameState.debtAccounts, repaymentTarget) === account.id ? 'default' : 'outline'}
+                                    onClick={() => setRepaymentTarget(account.id)}
+                                    className="h-auto flex-col py-2"
+                                  >
+                                    <span>{t(`debt.instruments.${account.id}`)}</span>
+                                    <span className="text-xs opacity-80">${account.balance.toFixed(2)}</span>
+                                  </Button>
+                                ))}
+                              </div>
+                            </div>
+                            <div className="bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-lg">
+                              <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                                {t('allocation.tipToAvoidDebtGrowth', { amount: getCostOfDebt(gameState.debtAccounts, gameState.payFrequency).toFixed(2) })}
+                              </p>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    <Button
+                      onClick={() => handleAllocationSubmit()}
+                      className="w-full mt-4"
+                      size="lg"
+                      disabled={shouldActivateSavings || shouldActivateDebt}
+                    >
+                      {t('common.continue')} ➡️
+                    </Button>
+                  </div>
+                )}
+
+                {/* Savings Allocation Section */}
+                {shouldActivateSavings && (
+                  <div className="bg-green-50 dark:bg-green-900/20 p-6 rounded-lg border-2 border-green-300 dark:border-green-600">
+                    <h3 className="text-xl font-semibold mb-4 text-green-800 dark:text-green-200">
+                      {t('allocation.emergencySavingsAllocation')}
+                    </h3>
+
                     <div className="space-y-4">
                       <div className="text-center">
-                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                          {t('allocation.youCanAllocateUpTo', { amount: remainingToAllocate.toLocaleString() })}
+                        <p className="text-sm text-green-700 dark:text-green-300 mb-2">
+                          {t('allocation.availableFromSavings', { amount: gameState.savings.toFixed(2) })}
                         </p>
                         <Slider
-                          value={[currentAmount]}
-                          onValueChange={(value) => setCurrentAmount(value[0])}
-                          max={remainingToAllocate}
+                          value={[savingsAmount]}
+                          onValueChange={(value) => setSavingsAmount(value[0])}
+                          max={gameState.savings}
                           step={5}
                           className="w-full"
                         />
-                        <p className="text-2xl font-bold mt-2">
-                          ${currentAmount.toLocaleString()}
+                        <p className="text-2xl font-bold mt-2 text-green-800 dark:text-green-200">
+                          ${savingsAmount.toFixed(2)}
                         </p>
                       </div>
 
-                      {currentCategory.key === "debtRepayment" && gameState.debt > 0 && (
-                        <div className="bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-lg">
-                          <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                            {t('allocation.tipToAvoidDebtGrowth', { amount: gameState.costOfDebt.toLocaleString() })}
-                          </p>
-                        </div>
-                      )}
-                    </div>
-                  )}
-
-                  <Button
-                    onClick={() => handleAllocationSubmit()}
-                    className="w-full mt-4"
-                    size="lg"
-                    disabled={shouldActivateSavings || shouldActivateDebt}
-                  >
-                    {t('common.continue')} ➡️
-                  </Button>
-                </div>
-              )}
-
-              {/* Savings Allocation Section */}
-              {shouldActivateSavings && (
-                <div className="bg-green-50 dark:bg-green-900/20 p-6 rounded-lg border-2 border-green-300 dark:border-green-600">
-                  <h3 className="text-xl font-semibold mb-4 text-green-800 dark:text-green-200">
-                    {t('allocation.emergencySavingsAllocation')}
-                  </h3>
-
-                  <div className="space-y-4">
-                    <div className="text-center">
-                      <p className="text-sm text-green-700 dark:text-green-300 mb-2">
-                        {t('allocation.availableFromSavings', { amount: gameState.savings.toLocaleString() })}
-                      </p>
-                      <Slider
-                        value={[savingsAmount]}
-                        onValueChange={(value) => setSavingsAmount(value[0])}
-                        max={gameState.savings}
-                        step={5}
-                        className="w-full"
-                      />
-                      <p className="text-2xl font-bold mt-2 text-green-800 dark:text-green-200">
-                        ${savingsAmount.toLocaleString()}
-                      </p>
+                      <div className="bg-white dark:bg-gray-800 p-3 rounded-lg">
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                          <strong>{t('common.category')}:</strong> {currentCategory?.emoji} {currentCategory?.name}
+                        </p>
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                          <strong>{t('common.amount')}:</strong> ${savingsAmount.toFixed(2)}
+                        </p>
+                      </div>
                     </div>
 
-                    <div className="bg-white dark:bg-gray-800 p-3 rounded-lg">
-                      <p className="text-sm text-gray-700 dark:text-gray-300">
-                        <strong>{t('common.category')}:</strong> {currentCategory?.emoji} {currentCategory?.name}
-                      </p>
-                      <p className="text-sm text-gray-700 dark:text-gray-300">
-                        <strong>{t('common.amount')}:</strong> ${savingsAmount.toLocaleString()}
-                      </p>
+                    <div className="flex gap-3 mt-4">
+                      {/* <Button 
+                        onClick={() => {
+                          setSavingsAmount(0)
+                          setIsUsingSavings(false)
+                          setSavingsExhausted(false)
+                        }}
+                        variant="outline"
+                        className="flex-1"
+                      >
+                        Cancel
+                      </Button> */}
+                      <Button
+                        onClick={() => {
+                          handleAllocationSubmit(savingsAmount, 'savings')
+                        }}
+                        className="flex-1"
+                        size="lg"
+                      >
+                        {t('allocation.useSavingsButton')}
+                      </Button>
                     </div>
                   </div>
+                )}
 
-                  <div className="flex gap-3 mt-4">
-                    {/* <Button 
-                      onClick={() => {
-                        setSavingsAmount(0)
-                        setIsUsingSavings(false)
-                        setSavingsExhausted(false)
-                      }}
-                      variant="outline"
-                      className="flex-1"
-                    >
-                      Cancel
-                    </Button> */}
-                    <Button
-                      onClick={() => {
-                        handleAllocationSubmit(savingsAmount, 'savings')
-                      }}
-                      className="flex-1"
-                      size="lg"
-                    >
-                      {t('allocation.useSavingsButton')}
-                    </Button>
-                  </div>
-                </div>
-              )}
+                {/* Debt Allocation Section */}
+                {shouldActivateDebt && (
+                  <div className="bg-red-50 dark:bg-red-900/20 p-6 rounded-lg border-2 border-red-300 dark:border-red-600">
+                    <h3 className="text-xl font-semibold mb-4 text-red-800 dark:text-red-200">
+                      {t('allocation.debtAllocation')}
+                    </h3>
 
-              {/* Debt Allocation Section */}
-              {shouldActivateDebt && (
-                <div className="bg-red-50 dark:bg-red-900/20 p-6 rounded-lg border-2 border-red-300 dark:border-red-600">
-                  <h3 className="text-xl font-semibold mb-4 text-red-800 dark:text-red-200">
-                    {t('allocation.debtAllocation')}
-                  </h3>
-
-                  <div className="space-y-4">
-                    <div className="text-center">
-                      <p className="text-sm text-red-700 dark:text-red-300 mb-2">
-                        {t('allocation.availableFromDebtAllocation', { amount: availableDebtAllocation.toLocaleString() })}
-                      </p>
-                      <Slider
-                        value={[debtAmount]}
-                        onValueChange={(value) => {
-                          console.log('Debug - Slider changed to:', value[0])
-                          setDebtAmount(value[0])
-                        }}
-                        max={availableDebtAllocation}
-                        step={5}
-                        className="w-full"
-                      />
-                      <p className="text-2xl font-bold mt-2 text-red-800 dark:text-red-200">
-                        ${debtAmount.toLocaleString()}
-                      </p>
-                    </div>
+                    <div className="space-y-4">
+                      <div>
+                        <p className="text-sm font-medium text-red-800 dark:text-red-200 mb-2">{t('debt.chooseInstrument')}</p>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                          {gameState.debtAccounts.map(account => (
+                            <Button
+                              key={account.id}
+                              variant={debtInstrument === account.id ? 'default' : 'outline'}
+                              onClick={() => {
+                                setDebtInstrument(account.id)
+                                setDebtAmount(0)
+                              }}
+                              disabled={getAvailableCredit(account) <= 0}
+                              className="h-auto flex-col py-2"
+                            >
+                              <span>{t(`debt.instruments.${account.id}`)}</span>
+                              <span className="text-xs opacity-80">
+                                {t('debt.apr', { rate: (account.apr * 100).toFixed(0) })} · {t('debt.creditAvailable', { amount: getAvailableCredit(account).toFixed(2) })}
+                              </span>
+                            </Button>
+                          ))}
+                        </div>
+                        <p className="text-xs text-red-700 dark:text-red-300 mt-2">
+                          {t(`debt.instrumentDescriptions.${debtInstrument}`)}
+                        </p>
+                      </div>
 
-                    <div className="bg-white dark:bg-gray-800 p-3 rounded-lg">
-                      <p className="text-sm text-gray-700 dark:text-gray-300">
-                        <strong>{t('common.category')}:</strong> {currentCategory?.emoji} {currentCategory?.name}
-                      </p>
-                      <p className="text-sm text-gray-700 dark:text-gray-300">
-                        <strong>{t('common.amount')}:</strong> ${debtAmount.toLocaleString()}
-                      </p>
-                    </div>
+                      <div className="text-center">
+                        <p className="text-sm text-red-700 dark:text-red-300 mb-2">
+                          {t('allocation.availableFromDebtAllocation', { amount: availableDebtAllocation.toFixed(2) })}
+                        </p>
+                        <Slider
+                          value={[debtAmount]}
+                          onValueChange={(value) => {
+                            console.log('Debug - Slider changed to:', value[0])
+                            setDebtAmount(value[0])
+                          }}
+                          max={availableDebtAllocation}
+                          step={5}
+                          className="w-full"
+                        />
+                        <p className="text-2xl font-bold mt-2 text-red-800 dark:text-red-200">
+                          ${debtAmount.toFixed(2)}
+                        </p>
+                      </div>
 
-                    <div className="bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-lg">
-                      <p className="text-sm text-yellow-700 dark:text-yellow-300">
-                        {t('allocation.debtInterestWarning')}
-                      </p>
+                      <div className="bg-white dark:bg-gray-800 p-3 rounded-lg">
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                          <strong>{t('common.category')}:</strong> {currentCategory?.emoji} {currentCategory?.name}
+                        </p>
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                          <strong>{t('common.amount')}:</strong> ${debtAmount.toFixed(2)}
+                        </p>
+                      </div>
+
+                      <div className="bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-lg">
+                        <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                          {t('allocation.debtInterestWarning')}
+                        </p>
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="flex gap-3 mt-4">
-                    <Button
-                      onClick={() => {
-                        setDebtAmount(0)
-                        setIsUsingDebt(false)
-                      }}
-                      variant="outline"
-                      className="flex-1"
-                    >
-                      {t('common.cancel')}
-                    </Button>
-                    <Button
-                      onClick={() => {
-                        console.log('Debug - Debt button clicked with amount:', debtAmount)
-                        console.log('Debug - Available debt allocation:', availableDebtAllocation)
-                        console.log('Debug - Current debtUsedThisRound:', debtUsedThisRound)
-                        handleAllocationSubmit(debtAmount, 'debt')
-                      }}
-                      className="flex-1 bg-red-600 hover:bg-red-700"
-                      size="lg"
-                      disabled={isSubmittingAllocation}
-                    >
-                      {isSubmittingAllocation ? t('common.loading') : t('allocation.useDebtButton')}
-                    </Button>
+                    <div className="flex gap-3 mt-4">
+                      <Button
+                        onClick={() => {
+                          setDebtAmount(0)
+                          setIsUsingDebt(false)
+                        }}
+                        variant="outline"
+                        className="flex-1"
+                      >
+                        {t('common.cancel')}
+                      </Button>
+                      <Button
+                        onClick={() => {
+                          console.log('Debug - Debt button clicked with amount:', debtAmount)
+                          console.log('Debug - Available debt allocation:', availableDebtAllocation)
+                          console.log('Debug - Current debtUsedThisRound:', debtUsedThisRound)
+                          handleAllocationSubmit(debtAmount, 'debt')
+                        }}
+                        className="flex-1 bg-red-600 hover:bg-red-700"
+                        size="lg"
+                        disabled={isSubmittingAllocation || availableDebtAllocation <= 0}
+                      >
+                        {isSubmittingAllocation ? t('common.loading') : t('allocation.useDebtButton')}
+                      </Button>
+                    </div>
                   </div>
-                </div>
+                )}
+                </>
               )}
             </CardContent>
           </Card>
@@ -1161,115 +1874,50 @@ export default function GameClient() {
 
   // Summary Stage
   if (gameState.stage === 'summary') {
-    const biweeklyHousing = gameState.housingCost / 2
-    const biweeklyUtilities = gameState.utilityCost / 2
-    const biweeklyFixedCosts = biweeklyHousing + biweeklyUtilities
-
-    console.log('Debug - Summary costs:', {
-      housingCost: gameState.housingCost,
-      utilityCost: gameState.utilityCost,
-      biweeklyHousing,
-      biweeklyUtilities,
-      biweeklyFixedCosts
-    })
-
-    // Use the same logic as budget allocation stage
-    const currentPeriodIncome = gameState.iteration === 1 ? gameState.biweeklyIncome : gameState.currentBalance + gameState.biweeklyIncome
-    const event = generateRandomEvent(gameState.biweeklyIncome || 0, gameState.iteration, t)
-
-    // Calculate new balance - separate regular spending from debt-funded spending
-    // Only count non-debt allocations against income
-    const regularAllocations = Object.entries(gameState.allocations).reduce((total, [_, allocation]) => {
-      // This is a simplified approach - in a more complex system, we'd track which allocations were debt-funded
-      return total + allocation.amount
-    }, 0)
-    
-    // For now, assume debt allocations are the difference between total allocated and what should fit in income
-    const availableForSpending = currentPeriodIncome - biweeklyFixedCosts
-    const debtFundedSpending = Math.max(0, regularAllocations - availableForSpending)
-    const incomeFundedSpending = regularAllocations - debtFundedSpending
-    
-    let newBalance = currentPeriodIncome - biweeklyFixedCosts - incomeFundedSpending + (event?.adjustment || 0)
-    let newDebt = gameState.debt
-    let newSavings = gameState.savings
-
-    console.log('Debug - Summary balance calculation:', {
-      currentPeriodIncome,
-      biweeklyFixedCosts,
-      regularAllocations,
-      availableForSpending,
-      debtFundedSpending,
-      incomeFundedSpending,
-      eventAdjustment: event?.adjustment || 0,
-      initialBalance: newBalance,
-      initialDebt: newDebt
-    })
-
-    // Handle debt repayment (already handled in allocation stage)
-    if (gameState.allocations["debtRepayment"]) {
-      const debtPayment = gameState.allocations["debtRepayment"].amount
-      if (debtPayment > 0 && newDebt > 0) {
-        newDebt = Math.max(0, newDebt - debtPayment)
-      }
-    }
-
-    // If balance goes negative, use savings first, then create debt
-    if (newBalance < 0) {
-      const shortfall = Math.abs(newBalance)
-      console.log('Debug - Balance went negative:', { newBalance, shortfall, newSavings })
-
-      // Use savings first
-      if (newSavings >= shortfall) {
-        newSavings -= shortfall
-        newBalance = 0
-        console.log('Debug - Used savings to cover shortfall')
-      } else {
-        // If savings aren't enough, use all savings and create debt for the rest
-        const remainingShortfall = shortfall - newSavings
-        newSavings = 0
-        newDebt += remainingShortfall
-        newBalance = 0
-        console.log('Debug - Added debt from negative balance:', { remainingShortfall, newTotalDebt: newDebt })
-      }
-    }
-
-    // Check if fixed costs exceeded income
-    const discretionaryIncome = currentPeriodIncome - biweeklyFixedCosts - gameState.costOfDebt
-    const fixedCostsExceededIncome = discretionaryIncome < 0
-    const debtFromFixedCosts = fixedCostsExceededIncome ? Math.abs(discretionaryIncome) : 0
-
-    // Add debt from fixed costs if they exceeded income (use savings first)
-    if (debtFromFixedCosts > 0) {
-      console.log('Debug - Fixed costs exceeded income:', { debtFromFixedCosts, newSavings })
-      if (newSavings >= debtFromFixedCosts) {
-        newSavings -= debtFromFixedCosts
-        console.log('Debug - Used savings to cover fixed costs debt')
-      } else {
-        const remainingDebt = debtFromFixedCosts - newSavings
-        newSavings = 0
-        newDebt += remainingDebt
-        console.log('Debug - Added debt from fixed costs:', { remainingDebt, newTotalDebt: newDebt })
-      }
-    }
+    // Preview the round close with the same engine that handleNextPeriod commits
+    const events = rollEventsForState(gameState)
+    const { state: previewState, breakdown } = advancePeriod(gameState, gameState.allocations, events)
+    const {
+      housing: periodHousing,
+      utilities: periodUtilities,
+      recurringCharges,
+      fixedCosts: periodFixedCosts,
+      endingSavings: newSavings,
+      endingInvestments: newInvestments,
+      endingDebt: newDebt
+    } = breakdown
+    const runScore = scoreGame(previewState.iterationHistory, previewState.monthlySalary, previewState.payFrequency)
+    const newBalance = breakdown.balanceBeforeFallback
+
+    // Portion of the new debt caused by fixed costs exceeding available income
+    const debtFromFixedCosts = breakdown.discretionaryIncome < 0
+      ? Math.min(breakdown.debtFromShortfall, Math.abs(breakdown.discretionaryIncome))
+      : 0
 
     // Prepare pie chart data
     const pieChartData = [
       {
         label: t('location.housingLabel'),
-        value: biweeklyHousing,
+        value: periodHousing,
         color: "#8B5CF6",
         emoji: "🏠"
       },
       {
         label: t('location.utilitiesLabelShort'),
-        value: biweeklyUtilities,
+        value: periodUtilities,
         color: "#06B6D4",
         emoji: "⚡"
       },
+      ...recurringCharges.map(charge => ({
+        label: charge.label || t('recurring.unnamed'),
+        value: charge.amount,
+        color: "#F59E0B",
+        emoji: "🔁"
+      })),
       ...Object.entries(gameState.allocations)
         .filter(([_, data]) => data.amount > 0)
-        .map(([category, data], index) => ({
-          label: category,
+        .map(([key, data], index) => ({
+          label: getCategoryLabel(key),
           value: data.amount,
           color: `hsl(${(index * 137.5) % 360}, 70%, 60%)`,
           emoji: data.emoji
@@ -1295,16 +1943,22 @@ export default function GameClient() {
                   <div className="space-y-2">
                     <div className="flex justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded">
                       <span>{t('location.housing')}</span>
-                      <span className="font-semibold">${(gameState.housingCost / 2).toLocaleString()}</span>
+                      <span className="font-semibold">${periodHousing.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded">
                       <span>{t('location.utilitiesShort')}</span>
-                      <span className="font-semibold">${(gameState.utilityCost / 2).toLocaleString()}</span>
+                      <span className="font-semibold">${periodUtilities.toFixed(2)}</span>
                     </div>
-                    {Object.entries(gameState.allocations).map(([category, data]) => (
-                      <div key={category} className="flex justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded">
-                        <span>{data.emoji} {category}</span>
-                        <span className="font-semibold">${data.amount.toLocaleString()}</span>
+                    {recurringCharges.map(charge => (
+                      <div key={charge.id} className="flex justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded">
+                        <span>🔁 {charge.label || t('recurring.unnamed')}</span>
+                        <span className="font-semibold">${charge.amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                    {Object.entries(gameState.allocations).map(([key, data]) => (
+                      <div key={key} className="flex justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded">
+                        <span>{data.emoji} {getCategoryLabel(key)}</span>
+                        <span className="font-semibold">${data.amount.toFixed(2)}</span>
                       </div>
                     ))}
                   </div>
@@ -1314,17 +1968,43 @@ export default function GameClient() {
                   <h4 className="font-semibold text-lg">{t('summary.financialSummary')}</h4>
                   <div className="space-y-2">
                     <div className="flex justify-between p-2 bg-blue-50 dark:bg-blue-900/20 rounded">
-                      <span>{t('summary.biweeklyIncomeLabel')}</span>
-                      <span className="font-semibold">${gameState.biweeklyIncome.toLocaleString()}</span>
+                      <span>{t('summary.periodIncomeLabel', { frequency: gameState.payFrequency })}</span>
+                      <span className="font-semibold">${gameState.paycheck.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between p-2 bg-red-50 dark:bg-red-900/20 rounded">
                       <span>{t('summary.totalExpensesLabel')}</span>
-                      <span className="font-semibold">${(biweeklyFixedCosts + gameState.allocatedAmount).toLocaleString()}</span>
+                      <span className="font-semibold">${(periodFixedCosts + gameState.allocatedAmount).toFixed(2)}</span>
                     </div>
-                    {gameState.debt > 0 && (
+                    {breakdown.interestAccrued > 0 && (
                       <div className="flex justify-between p-2 bg-orange-50 dark:bg-orange-900/20 rounded">
                         <span>{t('summary.debtInterestLabel')}</span>
-                        <span className="font-semibold">${gameState.costOfDebt.toLocaleString()}</span>
+                        <span className="font-semibold">${breakdown.interestAccrued.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {breakdown.lateFees > 0 && (
+                      <div className="flex justify-between p-2 bg-orange-50 dark:bg-orange-900/20 rounded">
+                        <span>{t('summary.lateFeesLabel')}</span>
+                        <span className="font-semibold">${breakdown.lateFees.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {breakdown.overLimitFee > 0 && (
+                      <div className="flex justify-between p-2 bg-red-50 dark:bg-red-900/20 rounded">
+                        <span>{t('summary.overLimitLabel', { amount: breakdown.overLimit.toFixed(2) })}</span>
+                        <span className="font-semibold">${breakdown.overLimitFee.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {breakdown.savingsInterest > 0 && (
+                      <div className="flex justify-between p-2 bg-green-50 dark:bg-green-900/20 rounded">
+                        <span>{t('summary.savingsInterestLabel')}</span>
+                        <span className="font-semibold">+${breakdown.savingsInterest.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {breakdown.investmentReturnRate !== null && gameState.investments > 0 && (
+                      <div className="flex justify-between p-2 bg-purple-50 dark:bg-purple-900/20 rounded">
+                        <span>{t('summary.investmentReturnLabel', { rate: (breakdown.investmentReturnRate * 100).toFixed(1) })}</span>
+                        <span className={`font-semibold ${breakdown.investmentReturn < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                          {breakdown.investmentReturn < 0 ? '-' : '+'}${Math.abs(breakdown.investmentReturn).toFixed(2)}
+                        </span>
                       </div>
                     )}
                   </div>
@@ -1337,20 +2017,31 @@ export default function GameClient() {
                 title={t('summary.spendingBreakdown', { iteration: gameState.iteration })}
               />
 
-              {/* Random Event */}
-              {event && (
-                <div className="bg-yellow-50 dark:bg-yellow-900/20 p-4 rounded-lg">
-                  <h4 className="font-semibold text-yellow-800 dark:text-yellow-200 mb-2">
-                    {t('events.randomEventTitle')}
-                  </h4>
-                  <p className="text-yellow-700 dark:text-yellow-300 font-semibold">
-                    {event.message || t('events.randomEventFallback')}
-                  </p>
+              {/* Random Events */}
+              <div className="bg-yellow-50 dark:bg-yellow-900/20 p-4 rounded-lg">
+                <h4 className="font-semibold text-yellow-800 dark:text-yellow-200 mb-2">
+                  {t('events.randomEventTitle')}
+                </h4>
+                {events.length > 0 ? (
+                  <div className="space-y-3">
+                    {events.map(event => (
+                      <div key={event.id}>
+                        <p className="text-yellow-700 dark:text-yellow-300 font-semibold">
+                          {t.has(`events.${event.id}`) ? t(`events.${event.id}`) : t('events.randomEventFallback')}
+                        </p>
+                        <p className="text-yellow-700 dark:text-yellow-300">
+                          {t('events.impactOnBudget', { amount: event.adjustment.toFixed(2) })}
+                          {(event.roundsRemaining || 1) > 1 && ` ${t('events.continuesFor', { rounds: (event.roundsRemaining || 1) - 1 })}`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
                   <p className="text-yellow-700 dark:text-yellow-300">
-                    {t('events.impactOnBudget', { amount: (event.adjustment || 0).toLocaleString() })}
+                    {t('events.noEvents')}
                   </p>
-                </div>
-              )}
+                )}
+              </div>
 
               {/* Final Balance */}
               <div className={`p-4 rounded-lg ${newBalance >= 0 ? 'bg-green-50 dark:bg-green-900/20' : 'bg-red-50 dark:bg-red-900/20'}`}>
@@ -1358,7 +2049,7 @@ export default function GameClient() {
                   {newBalance >= 0 ? t('common.remainingBalance') : t('common.deficit')}
                 </h4>
                 <p className={`text-2xl font-bold ${newBalance >= 0 ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
-                  ${newBalance.toLocaleString()}
+                  ${newBalance.toFixed(2)}
                 </p>
                 {newBalance < 0 && (
                   <p className="text-red-700 dark:text-red-300 text-sm mt-2">
@@ -1374,7 +2065,7 @@ export default function GameClient() {
                     {t('allocation.emergencySavingsStatus')}
                   </h4>
                   <p className="text-green-700 dark:text-green-300">
-                    {t('allocation.currentSavings', { amount: newSavings.toLocaleString() })}
+                    {t('allocation.currentSavings', { amount: newSavings.toFixed(2) })}
                   </p>
                   <p className="text-green-700 dark:text-green-300 text-sm">
                     {t('allocation.savingsAutoUseNote')}
@@ -1382,6 +2073,26 @@ export default function GameClient() {
                 </div>
               )}
 
+              {/* Investment Status */}
+              {(newInvestments > 0 || breakdown.coveredByInvestments > 0) && (
+                <div className="bg-purple-50 dark:bg-purple-900/20 p-4 rounded-lg">
+                  <h4 className="font-semibold text-purple-800 dark:text-purple-200 mb-2">
+                    {t('investments.statusTitle')}
+                  </h4>
+                  <p className="text-purple-700 dark:text-purple-300">
+                    {t('investments.balanceLabel', { amount: newInvestments.toFixed(2) })}
+                  </p>
+                  {breakdown.coveredByInvestments > 0 && (
+                    <p className="text-purple-700 dark:text-purple-300 text-sm">
+                      {t('investments.withdrawalNote', {
+                        amount: breakdown.coveredByInvestments.toFixed(2),
+                        penalty: breakdown.investmentPenalty.toFixed(2)
+                      })}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Debt Status */}
               {newDebt > 0 && (
                 <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-lg">
@@ -1389,11 +2100,22 @@ export default function GameClient() {
                     {t('allocation.debtStatus')}
                   </h4>
                   <p className="text-red-700 dark:text-red-300">
-                    {t('allocation.totalDebt', { amount: newDebt.toLocaleString() })}
+                    {t('allocation.totalDebt', { amount: newDebt.toFixed(2) })}
                   </p>
+                  <div className="space-y-1 my-2">
+                    {previewState.debtAccounts.filter(account => account.balance > 0).map(account => (
+                      <div key={account.id} className="flex justify-between text-sm text-red-700 dark:text-red-300">
+                        <span>{t(`debt.instruments.${account.id}`)}</span>
+                        <span>
+                          ${account.balance.toFixed(2)}
+                          {account.minimumDue > 0 && ` · ${t('debt.minimumDue', { amount: getRemainingDue(account).toFixed(2) })}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
                   {debtFromFixedCosts > 0 && (
                     <p className="text-red-700 dark:text-red-300 text-sm">
-                      {t('allocation.debtFromFixedCosts', { amount: debtFromFixedCosts.toLocaleString() })}
+                      {t('allocation.debtFromFixedCosts', { amount: debtFromFixedCosts.toFixed(2) })}
                     </p>
                   )}
                   <p className="text-red-700 dark:text-red-300 text-sm">
@@ -1402,6 +2124,34 @@ export default function GameClient() {
                 </div>
               )}
 
+              {/* Goal Progress after this round */}
+              <GoalProgressList goals={evaluateGoals(previewState)} />
+
+              {/* Deviation from the chosen budgeting template */}
+              {budgetTemplate && (
+                <TemplateDeviationTable
+                  template={budgetTemplate}
+                  deviation={getTemplateDeviation(getTemplateAllocations(budgetTemplate, gameState), gameState.allocations)}
+                  getCategoryLabel={getCategoryLabel}
+                />
+              )}
+
+              {/* Financial Health Score */}
+              <ScoreCard score={breakdown.score} title={t('score.roundTitle', { iteration: gameState.iteration })} />
+              {runScore && gameState.iteration > 1 && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {t('score.runSoFar', { score: runScore.score, grade: runScore.grade })}
+                </p>
+              )}
+
+              {/* Export the run so far */}
+              <RunExportButtons gameState={gameState} getCategoryLabel={getCategoryLabel} />
+              {remoteGame && (
+                <p className="text-sm text-center text-gray-600 dark:text-gray-400">
+                  {t('remote.syncCode')} <code className="font-mono select-all break-all">{formatSyncCode(remoteGame)}</code>
+                </p>
+              )}
+
               {/* Expert Advice - Auto-triggered */}
               <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
                 <h4 className="font-semibold text-blue-800 dark:text-blue-200 mb-2">
@@ -1437,7 +2187,7 @@ export default function GameClient() {
 
               {/* Action Buttons */}
               <div className="flex gap-4">
-                {gameState.iteration < 12 ? (
+                {gameState.iteration < gameState.totalRounds ? (
                   <Button
                     onClick={handleNextPeriod}
                     className="flex-1"
@@ -1447,11 +2197,11 @@ export default function GameClient() {
                   </Button>
                 ) : (
                   <Button
-                    onClick={resetGame}
+                    onClick={handleNextPeriod}
                     className="flex-1"
                     size="lg"
                   >
-                    {t('final.playAgain')}
+                    {t('summary.seeFinalResults')}
                   </Button>
                 )}
               </div>
@@ -1464,16 +2214,23 @@ export default function GameClient() {
 
   // Game Over Stage
   if (gameState.stage === 'game_over') {
+    const totalSavingsInterest = gameState.iterationHistory.reduce((total, item) => total + item.savingsInterest, 0)
+    const totalInvestmentReturn = gameState.iterationHistory.reduce((total, item) => total + item.investmentReturn, 0)
+    const goalResults = evaluateGoals(gameState, true)
+    const missedGoals = goalResults.filter(result => result.status === 'missed').length
+    const finalScore = scoreGame(gameState.iterationHistory, gameState.monthlySalary, gameState.payFrequency)
+
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
-        <div className="max-w-2xl mx-auto pt-20">
+        <div className="max-w-4xl mx-auto pt-20">
           <Card className="shadow-xl text-center">
             <CardHeader>
-              <CardTitle className="text-3xl font-bold text-green-600 dark:text-green-400">
-                {t('final.congratulations')}
+              <CardTitle className={`text-3xl font-bold ${missedGoals === 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-800 dark:text-gray-100'}`}>
+                {missedGoals === 0 ? t('final.congratulations') : t('final.simulationComplete')}
               </CardTitle>
               <CardDescription className="text-lg">
-                {t('final.completedSimulation')}
+                {t('final.completedSimulation', { months: roundsToMonths(gameState.totalRounds, gameState.payFrequency) })}
+                {goalResults.length > 0 && ` ${t('goals.metCount', { met: goalResults.length - missedGoals, total: goalResults.length })}`}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -1483,16 +2240,32 @@ export default function GameClient() {
                 </h4>
                 <div className="space-y-2">
                   <p>{t('final.locationLabel')} {gameState.location}</p>
-                  <p>{t('final.startingSalary')} ${gameState.grossMonthlySalary.toLocaleString()}/month</p>
-                  <p>{t('final.finalBalance')} ${gameState.currentBalance.toLocaleString()}</p>
+                  <p>{t('final.startingSalary')} ${gameState.grossMonthlySalary.toFixed(2)}/month</p>
+                  <p className="font-mono">{t('game.seed', { seed: formatSeed(gameState.seed) })}</p>
+                  <p>{t('final.finalBalance')} ${gameState.currentBalance.toFixed(2)}</p>
                   {gameState.savings > 0 && (
                     <p className="text-green-600 dark:text-green-400">
-                      {t('final.finalSavings')} ${gameState.savings.toLocaleString()}
+                      {t('final.finalSavings')} ${gameState.savings.toFixed(2)}
                     </p>
                   )}
-                  {gameState.debt > 0 ? (
+                  {totalSavingsInterest > 0 && (
+                    <p className="text-green-600 dark:text-green-400">
+                      {t('final.savingsInterestEarned', { amount: totalSavingsInterest.toFixed(2) })}
+                    </p>
+                  )}
+                  {gameState.investments > 0 && (
+                    <p className="text-purple-600 dark:text-purple-400">
+                      {t('final.finalInvestments', { amount: gameState.investments.toFixed(2) })}
+                    </p>
+                  )}
+                  {totalInvestmentReturn !== 0 && (
+                    <p className={totalInvestmentReturn > 0 ? 'text-purple-600 dark:text-purple-400' : 'text-red-600 dark:text-red-400'}>
+                      {t('final.investmentGrowth', { amount: totalInvestmentReturn.toFixed(2) })}
+                    </p>
+                  )}
+                  {getTotalDebt(gameState.debtAccounts) > 0 ? (
                     <p className="text-red-600 dark:text-red-400">
-                      {t('final.finalDebt', { amount: gameState.debt.toLocaleString() })}
+                      {t('final.finalDebt', { amount: getTotalDebt(gameState.debtAccounts).toFixed(2) })}
                     </p>
                   ) : (
                     <p className="text-green-600 dark:text-green-400">
@@ -1502,6 +2275,32 @@ export default function GameClient() {
                 </div>
               </div>
 
+              {/* Final Grade */}
+              {finalScore && <ScoreCard score={finalScore} title={t('score.finalTitle')} />}
+
+              {/* Goal Results */}
+              <GoalProgressList goals={goalResults} title={t('goals.resultsTitle')} />
+
+              {/* Export the finished run */}
+              <RunExportButtons gameState={gameState} getCategoryLabel={getCategoryLabel} />
+              {remoteGame && (
+                <p className="text-sm text-center text-gray-600 dark:text-gray-400">
+                  {t('remote.syncCode')} <code className="font-mono select-all break-all">{formatSyncCode(remoteGame)}</code>
+                </p>
+              )}
+              {activeSave && (
+                <Button asChild variant="outline" className="w-full">
+                  <Link href={`/${locale}/report?save=${activeSave.id}`} target="_blank">
+                    📄 {t('report.open')}
+                  </Link>
+                </Button>
+              )}
+              <ShareChallengeButton config={getChallengeConfig()} />
+              <LeaderboardSubmit getRemoteGame={() => remoteSync.current} />
+
+              {/* Round-by-round Timeline */}
+              <HistoryTimeline history={gameState.iterationHistory} getCategoryLabel={getCategoryLabel} />
+
               {/* Final Expert Advice */}
               <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
                 <h4 className="font-semibold text-blue-800 dark:text-blue-200 mb-2">
@@ -1519,7 +2318,7 @@ export default function GameClient() {
                 ) : (
                   <div className="flex items-center justify-between">
                     <p className="text-blue-700 dark:text-blue-300">
-                      {t('final.getFinalAnalysisDescription')}
+                      {t('final.getFinalAnalysisDescription', { months: roundsToMonths(gameState.totalRounds, gameState.payFrequency) })}
                     </p>
                     <Button
                       onClick={() => fetchExpertAdvice(true)}
@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { useTranslations, useLocale } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { getPeriodBudget } from '@/lib/roundEngine'
+import { getMonthForRound, roundsToMonths } from '@/lib/payFrequency'
+import { getGamePaystub } from '@/lib/taxes'
+import { evaluateGoals } from '@/lib/goals'
+import { scoreGame } from '@/lib/scoring'
+import { formatSeed } from '@/lib/random'
+import { getSaveDefaults } from '@/lib/gameDefaults'
+import { loadSave, type SaveGame } from '@/lib/saveGames'
+import PaystubBreakdown from '@/components/PaystubBreakdown'
+import PieChart from '@/components/PieChart'
+import TrendChart from '@/components/TrendChart'
+import ScoreCard from '@/components/ScoreCard'
+import GoalProgressList from '@/components/GoalProgressList'
+
+const formatAmount = (amount: number, locale: string) =>
+  amount.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+// Printable end-of-game report for a saved game, read from local storage by ?save=<slot id>
+export default function GameReport() {
+  const t = useTranslations()
+  const locale = useLocale()
+  const searchParams = useSearchParams()
+  const saveId = searchParams.get('save')
+  const [save, setSave] = useState<SaveGame | null | undefined>(undefined)
+
+  useEffect(() => {
+    setSave(saveId ? loadSave(window.localStorage, saveId, getSaveDefaults()) : null)
+  }, [saveId])
+
+  if (save === undefined) {
+    return null
+  }
+
+  if (!save) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <p className="text-gray-600 dark:text-gray-400">{t('report.notFound')}</p>
+          <Button asChild variant="outline">
+            <Link href={`/${locale}`}>{t('report.backToGame')}</Link>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const { state, ui } = save
+  const history = state.iterationHistory
+  const categoryNames = Object.fromEntries(state.categories.map(category => [
+    category.key,
+    category.label?.trim() || (t.has(`categories.${category.key}`) ? t(`categories.${category.key}`) : category.key)
+  ]))
+  const getCategoryLabel = (key: string) => categoryNames[key] || key
+
+  const paystub = getGamePaystub(state)
+  const goalResults = evaluateGoals(state, state.stage === 'game_over')
+  const finalScore = scoreGame(history, state.monthlySalary, state.payFrequency)
+
+  // Fixed costs only depend on the round number, so each completed round can be rebuilt
+  const rounds = history.map(round => {
+    const budget = getPeriodBudget({ ...state, iteration: round.iteration })
+    const allocations = Object.entries(round.allocations).filter(([, data]) => data.amount > 0)
+    return {
+      round,
+      budget,
+      allocations,
+      spending: allocations.reduce((total, [, data]) => total + data.amount, 0),
+      eventAdjustment: round.randomEvents.reduce((total, event) => total + event.adjustment, 0)
+    }
+  })
+
+  const getEventLabel = (id: string) => t.has(`events.${id}`) ? t(`events.${id}`) : t('events.randomEventFallback')
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900 p-4 print:p-0">
+      <div className="max-w-4xl mx-auto pt-16 print:pt-0 space-y-8">
+        {/* Header */}
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">{t('report.title')}</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              {save.name && `${save.name} · `}
+              {t('report.generated', { date: new Date().toLocaleString(locale) })}
+            </p>
+          </div>
+          <div className="flex gap-2 print:hidden">
+            <Button variant="outline" asChild>
+              <Link href={`/${locale}`}>{t('report.backToGame')}</Link>
+            </Button>
+            <Button onClick={() => window.print()}>🖨️ {t('report.print')}</Button>
+          </div>
+        </div>
+
+        {state.stage !== 'game_over' && (
+          <p className="text-sm text-yellow-800 dark:text-yellow-200 bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-lg">
+            {t('report.inProgress', { completed: history.length, total: state.totalRounds })}
+          </p>
+        )}
+
+        {/* Salary and taxes */}
+        <section className="space-y-3 break-inside-avoid">
+          <h2 className="text-xl font-semibold">{t('report.setupTitle')}</h2>
+          <div className="grid sm:grid-cols-2 gap-2 text-sm">
+            <p>{t('final.locationLabel')} {state.location}</p>
+            <p>{t('final.startingSalary')} ${formatAmount(state.grossMonthlySalary, locale)}{t('common.perMonth')}</p>
+            <p>{t('salary.payFrequencyOption', { frequency: state.payFrequency })}</p>
+            <p>{t('report.length', { rounds: state.totalRounds, months: roundsToMonths(state.totalRounds, state.payFrequency) })}</p>
+            <p className="font-mono">{t('game.seed', { seed: formatSeed(state.seed) })}</p>
+          </div>
+          <PaystubBreakdown paystub={paystub} payFrequency={state.payFrequency} />
+        </section>
+
+        {/* Location costs */}
+        <section className="space-y-3 break-inside-avoid">
+          <h2 className="text-xl font-semibold">{t('report.costsTitle')}</h2>
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded">
+              <span>{t('location.housingCost')}</span>
+              <span className="font-semibold">${formatAmount(state.housingCost, locale)}</span>
+            </div>
+            <div className="flex justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded">
+              <span>{t('location.utilities')}</span>
+              <span className="font-semibold">${formatAmount(state.utilityCost, locale)}</span>
+            </div>
+            <div className="flex justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded">
+              <span>{t('location.taxRateLabel')}</span>
+              <span className="font-semibold">{state.taxRate.toFixed(2)}%</span>
+            </div>
+            {state.recurringExpenses.map(expense => (
+              <div key={expense.id} className="flex justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded">
+                <span>🔁 {expense.label || t('recurring.unnamed')} · {t(`recurring.frequencies.${expense.frequency}`)}</span>
+                <span className="font-semibold">${formatAmount(expense.amount, locale)}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Score and goals */}
+        {finalScore && <ScoreCard score={finalScore} title={t('score.finalTitle')} />}
+        <GoalProgressList goals={goalResults} title={t('goals.resultsTitle')} />
+
+        {history.length > 0 && (
+          <>
+            {/* Balance and debt trend */}
+            <section className="break-inside-avoid">
+              <TrendChart
+                title={t('history.trendTitle')}
+                labels={history.map(item => t('history.roundShort', { iteration: item.iteration }))}
+                series={[
+                  { label: t('game.currentBalance'), color: '#3B82F6', values: history.map(item => item.balance) },
+                  { label: t('game.savings'), color: '#10B981', values: history.map(item => item.savings) },
+                  { label: t('game.investments'), color: '#8B5CF6', values: history.map(item => item.investments) },
+                  { label: t('game.debt'), color: '#EF4444', values: history.map(item => item.debt) }
+                ]}
+              />
+            </section>
+
+            {/* Per-round table */}
+            <section className="space-y-3">
+              <h2 className="text-xl font-semibold">{t('report.roundsTitle')}</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left">
+                      <th className="py-2 pr-2">{t('report.columns.round')}</th>
+                      <th className="py-2 pr-2">{t('report.columns.month')}</th>
+                      <th className="py-2 pr-2 text-right">{t('report.columns.income')}</th>
+                      <th className="py-2 pr-2 text-right">{t('report.columns.fixedCosts')}</th>
+                      <th className="py-2 pr-2 text-right">{t('report.columns.spending')}</th>
+                      <th className="py-2 pr-2 text-right">{t('report.columns.events')}</th>
+                      <th className="py-2 pr-2 text-right">{t('game.currentBalance')}</th>
+                      <th className="py-2 pr-2 text-right">{t('game.savings')}</th>
+                      <th className="py-2 pr-2 text-right">{t('game.investments')}</th>
+                      <th className="py-2 pr-2 text-right">{t('game.debt')}</th>
+                      <th className="py-2 text-right">{t('report.columns.score')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rounds.map(({ round, budget, spending, eventAdjustment }) => (
+                      <tr key={round.iteration} className="border-b">
+                        <td className="py-2 pr-2">{round.iteration}</td>
+                        <td className="py-2 pr-2">{getMonthForRound(round.iteration, state.payFrequency)}</td>
+                        <td className="py-2 pr-2 text-right">${formatAmount(budget.income, locale)}</td>
+                        <td className="py-2 pr-2 text-right">${formatAmount(budget.fixedCosts, locale)}</td>
+                        <td className="py-2 pr-2 text-right">${formatAmount(spending, locale)}</td>
+                        <td className="py-2 pr-2 text-right">${formatAmount(eventAdjustment, locale)}</td>
+                        <td className="py-2 pr-2 text-right">${formatAmount(round.balance, locale)}</td>
+                        <td className="py-2 pr-2 text-right">${formatAmount(round.savings, locale)}</td>
+                        <td className="py-2 pr-2 text-right">${formatAmount(round.investments, locale)}</td>
+                        <td className="py-2 pr-2 text-right">${formatAmount(round.debt, locale)}</td>
+                        <td className="py-2 text-right">{round.score.score} ({round.score.grade})</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            {/* Where each round's money went */}
+            <section className="space-y-3">
+              <h2 className="text-xl font-semibold">{t('report.piesTitle')}</h2>
+              <div className="grid md:grid-cols-2 print:grid-cols-2 gap-4">
+                {rounds.map(({ round, budget, allocations }) => (
+                  <div key={round.iteration} className="break-inside-avoid">
+                    <PieChart
+                      title={t('report.roundPie', { iteration: round.iteration })}
+                      data={[
+                        { label: t('location.housingLabel'), value: budget.housing, color: '#8B5CF6', emoji: '🏠' },
+                        { label: t('location.utilitiesLabelShort'), value: budget.utilities, color: '#06B6D4', emoji: '⚡' },
+                        ...budget.recurringCharges.map(charge => ({
+                          label: charge.label || t('recurring.unnamed'),
+                          value: charge.amount,
+                          color: '#F59E0B',
+                          emoji: '🔁'
+                        })),
+                        ...allocations.map(([key, data], index) => ({
+                          label: getCategoryLabel(key),
+                          value: data.amount,
+                          color: `hsl(${(index * 137.5) % 360}, 70%, 60%)`,
+                          emoji: data.emoji
+                        }))
+                      ]}
+                    />
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* Events */}
+            <section className="space-y-3 break-inside-avoid">
+              <h2 className="text-xl font-semibold">{t('report.eventsTitle')}</h2>
+              {history.some(round => round.randomEvents.length > 0) ? (
+                <ul className="space-y-1 text-sm">
+                  {history.flatMap(round => round.randomEvents.map((event, index) => (
+                    <li key={`${round.iteration}-${event.id}-${index}`} className="flex justify-between gap-4">
+                      <span>{t('history.roundShort', { iteration: round.iteration })} · {getEventLabel(event.id)}</span>
+                      <span className={`font-semibold whitespace-nowrap ${event.adjustment < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                        ${formatAmount(event.adjustment, locale)}
+                      </span>
+                    </li>
+                  )))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-600 dark:text-gray-400">{t('events.noEvents')}</p>
+              )}
+            </section>
+          </>
+        )}
+
+        {/* Final expert analysis */}
+        <section className="space-y-2 break-inside-avoid">
+          <h2 className="text-xl font-semibold">{t('advice.finalAnalysis')}</h2>
+          {ui.expertAdvice ? (
+            <div className="whitespace-pre-line text-sm">{ui.expertAdvice}</div>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400">{t('report.noAnalysis')}</p>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
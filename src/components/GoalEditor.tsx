@@ -0,0 +1,94 @@
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { createGoal, GOAL_TYPES, type FinancialGoal, type GoalType } from '@/lib/goals'
+
+interface GoalEditorProps {
+  goals: FinancialGoal[]
+  // Length of the run, used to bound deadlines
+  totalMonths: number
+  onChange: (goals: FinancialGoal[]) => void
+}
+
+export default function GoalEditor({ goals, totalMonths, onChange }: GoalEditorProps) {
+  const t = useTranslations()
+
+  const updateGoal = (id: string, changes: Partial<FinancialGoal>) => {
+    onChange(goals.map(goal => goal.id === id ? { ...goal, ...changes } : goal))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {t('goals.editorTitle')}
+        </label>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('goals.editorDescription')}</p>
+      </div>
+
+      {goals.map(goal => (
+        <div key={goal.id} className="flex flex-wrap gap-2 items-center p-3 rounded-lg border">
+          <select
+            value={goal.type}
+            onChange={(e) => updateGoal(goal.id, { type: e.target.value as GoalType })}
+            aria-label={t('goals.typeLabel')}
+            className="h-9 rounded-md border bg-transparent px-2 text-sm dark:bg-gray-800"
+          >
+            {GOAL_TYPES.map(type => (
+              <option key={type} value={type}>{t(`goals.types.${type}`)}</option>
+            ))}
+          </select>
+          {goal.type !== 'debtFree' && (
+            <Input
+              type="number"
+              min={0}
+              value={goal.targetAmount || ''}
+              placeholder={t('goals.amountLabel')}
+              onChange={(e) => updateGoal(goal.id, { targetAmount: Math.max(0, Number(e.target.value)) })}
+              aria-label={t('goals.amountLabel')}
+              className="w-28"
+            />
+          )}
+          {goal.type === 'savingsTarget' && (
+            <Input
+              value={goal.label || ''}
+              placeholder={t('goals.labelPlaceholder')}
+              onChange={(e) => updateGoal(goal.id, { label: e.target.value })}
+              aria-label={t('goals.labelLabel')}
+              className="flex-1 min-w-32"
+            />
+          )}
+          <Input
+            type="number"
+            min={1}
+            max={totalMonths}
+            value={goal.deadlineMonth || ''}
+            placeholder={t('goals.deadlinePlaceholder')}
+            onChange={(e) => updateGoal(goal.id, {
+              deadlineMonth: e.target.value ? Math.min(totalMonths, Math.max(1, Math.round(Number(e.target.value)))) : undefined
+            })}
+            aria-label={t('goals.deadlineLabel')}
+            className="w-36"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(goals.filter(entry => entry.id !== goal.id))}
+            aria-label={t('goals.remove')}
+          >
+            ✕
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {GOAL_TYPES.map(type => (
+          <Button key={type} variant="outline" size="sm" onClick={() => onChange([...goals, createGoal(goals, type)])}>
+            ➕ {t(`goals.types.${type}`)}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import { Progress } from '@/components/ui/progress'
+import type { GoalProgress, GoalStatus } from '@/lib/goals'
+
+interface GoalProgressListProps {
+  goals: GoalProgress[]
+  title?: string
+}
+
+const STATUS_STYLES: Record<GoalStatus, string> = {
+  inProgress: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  met: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  metEarly: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200',
+  missed: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200'
+}
+
+export default function GoalProgressList({ goals, title }: GoalProgressListProps) {
+  const t = useTranslations()
+
+  if (goals.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border space-y-4 text-left">
+      <h4 className="font-semibold">{title || t('goals.title')}</h4>
+      {goals.map(({ goal, progress, status, reachedInRound }) => (
+        <div key={goal.id} className="space-y-1">
+          <div className="flex justify-between items-center gap-2 text-sm">
+            <span>
+              {t(`goals.describe.${goal.type}`, {
+                amount: goal.targetAmount.toLocaleString(),
+                label: goal.label?.trim() || t('goals.defaultLabel')
+              })}
+              {goal.deadlineMonth && ` ${t('goals.byMonth', { month: goal.deadlineMonth })}`}
+            </span>
+            <span className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${STATUS_STYLES[status]}`}>
+              {t(`goals.status.${status}`)}
+            </span>
+          </div>
+          <Progress value={progress * 100} className="h-2" />
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            {t('goals.percentComplete', { percent: Math.round(progress * 100) })}
+            {reachedInRound !== null && ` · ${t('goals.reachedInRound', { iteration: reachedInRound })}`}
+          </p>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import React, { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import type { IterationHistoryItem } from '@/lib/allocationLogic'
+import TrendChart from '@/components/TrendChart'
+
+interface HistoryTimelineProps {
+  history: IterationHistoryItem[]
+  // Label for an allocation's category key in the current language
+  getCategoryLabel: (key: string) => string
+}
+
+export default function HistoryTimeline({ history, getCategoryLabel }: HistoryTimelineProps) {
+  const t = useTranslations()
+  const [selectedIndex, setSelectedIndex] = useState<number>(Math.max(0, history.length - 1))
+
+  if (history.length === 0) {
+    return null
+  }
+
+  const selected = history[Math.min(selectedIndex, history.length - 1)]
+  const allocations = Object.entries(selected.allocations)
+
+  return (
+    <div className="space-y-4 text-left">
+      <h4 className="font-semibold text-lg">{t('history.title')}</h4>
+
+      <TrendChart
+        title={t('history.trendTitle')}
+        labels={history.map(item => t('history.roundShort', { iteration: item.iteration }))}
+        series={[
+          { label: t('game.currentBalance'), color: '#3B82F6', values: history.map(item => item.balance) },
+          { label: t('game.savings'), color: '#10B981', values: history.map(item => item.savings) },
+          { label: t('game.investments'), color: '#8B5CF6', values: history.map(item => item.investments) },
+          { label: t('game.debt'), color: '#EF4444', values: history.map(item => item.debt) }
+        ]}
+        selectedIndex={selectedIndex}
+        onSelect={setSelectedIndex}
+      />
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 text-center">
+        {t('history.selectRound')}
+      </p>
+
+      {/* Round selector */}
+      <div className="flex flex-wrap gap-2 justify-center">
+        {history.map((item, index) => (
+          <button
+            key={item.iteration}
+            onClick={() => setSelectedIndex(index)}
+            className={`px-3 py-1 rounded-full text-sm border transition-colors ${index === selectedIndex
+              ? 'bg-blue-600 text-white border-blue-600'
+              : 'bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+          >
+            {t('history.roundShort', { iteration: item.iteration })}
+          </button>
+        ))}
+      </div>
+
+      {/* Selected round details */}
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border space-y-4">
+        <h5 className="font-semibold">{t('history.roundAllocations', { iteration: selected.iteration })}</h5>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+          <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded">
+            <div className="text-gray-600 dark:text-gray-400">{t('game.currentBalance')}</div>
+            <div className="font-semibold">${selected.balance.toLocaleString()}</div>
+          </div>
+          <div className="p-2 bg-green-50 dark:bg-green-900/20 rounded">
+            <div className="text-gray-600 dark:text-gray-400">{t('game.savings')}</div>
+            <div className="font-semibold">${selected.savings.toLocaleString()}</div>
+          </div>
+          <div className="p-2 bg-purple-50 dark:bg-purple-900/20 rounded">
+            <div className="text-gray-600 dark:text-gray-400">{t('game.investments')}</div>
+            <div className="font-semibold">${selected.investments.toLocaleString()}</div>
+          </div>
+          <div className="p-2 bg-red-50 dark:bg-red-900/20 rounded">
+            <div className="text-gray-600 dark:text-gray-400">{t('game.debt')}</div>
+            <div className="font-semibold">${selected.debt.toLocaleString()}</div>
+          </div>
+        </div>
+
+        {allocations.length > 0 ? (
+          <div className="space-y-2">
+            {allocations.map(([key, data]) => (
+              <div key={key} className="flex justify-between p-2 bg-gray-50 dark:bg-gray-700 rounded text-sm">
+                <span>{data.emoji} {getCategoryLabel(key)}</span>
+                <span className="font-semibold">
+                  ${data.amount.toLocaleString()}
+                  {data.source === 'savings' && ` ${t('common.fromSavings')}`}
+                  {data.source === 'debt' && ` ${t('common.fromDebt')}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">{t('history.noAllocations')}</p>
+        )}
+
+        <div>
+          <h6 className="font-semibold text-sm mb-2">{t('events.randomEventTitle')}</h6>
+          {selected.randomEvents.length > 0 ? (
+            <ul className="space-y-1 text-sm">
+              {selected.randomEvents.map(event => (
+                <li key={event.id} className="flex justify-between gap-4">
+                  <span>{t.has(`events.${event.id}`) ? t(`events.${event.id}`) : t('events.randomEventFallback')}</span>
+                  <span className={`font-semibold whitespace-nowrap ${event.adjustment < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                    ${event.adjustment.toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400">{t('events.noEvents')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
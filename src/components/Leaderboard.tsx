@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useTranslations, useLocale } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { SALARY_BAND_WIDTH, type LeaderboardGroup } from '@/lib/leaderboard'
+import { roundsToMonths } from '@/lib/payFrequency'
+import { formatSeed } from '@/lib/random'
+
+type RankedGroup = LeaderboardGroup & { total: number }
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+// Verified runs ranked within groups that faced the same place, salary band, costs,
+// length, pay schedule and events
+export default function Leaderboard() {
+  const t = useTranslations()
+  const locale = useLocale()
+  const [location, setLocation] = useState('')
+  const [salary, setSalary] = useState('')
+  const [groups, setGroups] = useState<RankedGroup[] | null>(null)
+  const [hasError, setHasError] = useState(false)
+
+  useEffect(() => {
+    const params = new URLSearchParams()
+    if (location.trim()) {
+      params.set('location', location.trim())
+    }
+    if (salary) {
+      params.set('salary', salary)
+    }
+
+    let cancelled = false
+    // Wait for typing to settle before asking the server
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/leaderboard?${params}`)
+        if (!response.ok) {
+          throw new Error(`Failed to load leaderboard (${response.status})`)
+        }
+        const data = await response.json()
+        if (!cancelled) {
+          setGroups(data.groups)
+          setHasError(false)
+        }
+      } catch (error) {
+        console.error('Error loading leaderboard:', error)
+        if (!cancelled) {
+          setHasError(true)
+        }
+      }
+    }, 300)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [location, salary])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-4xl mx-auto pt-20 space-y-6">
+        <Card className="shadow-xl">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold">{t('leaderboard.title')}</CardTitle>
+            <CardDescription className="text-lg">{t('leaderboard.description')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('leaderboard.locationFilter')}</label>
+                <Input
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  placeholder={t('leaderboard.locationPlaceholder')}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('leaderboard.salaryFilter')}</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={salary}
+                  onChange={(e) => setSalary(e.target.value)}
+                  placeholder={t('leaderboard.salaryPlaceholder')}
+                />
+              </div>
+            </div>
+            <Button asChild variant="outline" className="w-full">
+              <Link href={`/${locale}`}>{t('leaderboard.play')}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {hasError && (
+          <p className="text-center text-red-600 dark:text-red-400">{t('leaderboard.loadFailed')}</p>
+        )}
+        {groups && groups.length === 0 && (
+          <p className="text-center text-gray-600 dark:text-gray-400">{t('leaderboard.empty')}</p>
+        )}
+
+        {groups?.map(group => (
+          <Card key={group.key}>
+            <CardHeader>
+              <CardTitle className="capitalize">📍 {group.location}</CardTitle>
+              <CardDescription>
+                {t('leaderboard.band', {
+                  min: group.salaryBand.toLocaleString(),
+                  max: (group.salaryBand + SALARY_BAND_WIDTH - 1).toLocaleString()
+                })}
+                {' · '}
+                {t('salary.payFrequencyOption', { frequency: group.payFrequency })}
+                {' · '}
+                {t('salary.lengthSummary', {
+                  rounds: group.totalRounds,
+                  months: roundsToMonths(group.totalRounds, group.payFrequency)
+                })}
+                {' · '}
+                {group.challengeId ? t('leaderboard.challengeGroup') : t('leaderboard.seedGroup', { seed: formatSeed(group.seed) })}
+                {' · '}
+                {t('leaderboard.runs', { count: group.total })}
+                <br />
+                {t('leaderboard.costs', {
+                  housing: formatAmount(group.housingCost),
+                  utilities: formatAmount(group.utilityCost),
+                  recurring: formatAmount(group.recurringCost),
+                  taxRate: group.taxRate
+                })}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-2 pr-2">{t('leaderboard.columns.rank')}</th>
+                    <th className="py-2 pr-2">{t('leaderboard.columns.player')}</th>
+                    <th className="py-2 pr-2 text-right">{t('leaderboard.columns.score')}</th>
+                    <th className="py-2 pr-2 text-right">{t('leaderboard.columns.debt')}</th>
+                    <th className="py-2 text-right">{t('leaderboard.columns.savings')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.entries.map((entry, index) => (
+                    <tr key={entry.gameId} className="border-b last:border-0">
+                      <td className="py-2 pr-2 font-semibold">#{index + 1}</td>
+                      <td className="py-2 pr-2">{entry.displayName || t('leaderboard.anonymous')}</td>
+                      <td className="py-2 pr-2 text-right">{entry.score} ({entry.grade})</td>
+                      <td className="py-2 pr-2 text-right">${formatAmount(entry.debt)}</td>
+                      <td className="py-2 text-right">${formatAmount(entry.savings)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
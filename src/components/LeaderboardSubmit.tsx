@@ -0,0 +1,101 @@
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useTranslations, useLocale } from 'next-intl'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { MAX_DISPLAY_NAME_LENGTH } from '@/lib/leaderboard'
+import type { RemoteGame } from '@/lib/saveGames'
+
+interface LeaderboardSubmitProps {
+  // Resolves once the last completed round has reached the server
+  getRemoteGame: () => Promise<RemoteGame | null>
+}
+
+// Submit the finished run to the leaderboard, with an opt-in display name
+export default function LeaderboardSubmit({ getRemoteGame }: LeaderboardSubmitProps) {
+  const t = useTranslations()
+  const locale = useLocale()
+  const [showName, setShowName] = useState(false)
+  const [displayName, setDisplayName] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [placement, setPlacement] = useState<{ rank: number; groupSize: number } | null>(null)
+
+  const submit = async () => {
+    setIsSubmitting(true)
+    try {
+      const remote = await getRemoteGame()
+      if (!remote) {
+        toast.error(t('leaderboard.notStored'))
+        return
+      }
+
+      const response = await fetch('/api/leaderboard', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId: remote.id,
+          writeKey: remote.writeKey,
+          displayName: showName ? displayName : null
+        }),
+      })
+      if (response.status === 422) {
+        toast.error(t('leaderboard.rejected'))
+        return
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to submit to leaderboard (${response.status})`)
+      }
+
+      const { rank, groupSize } = await response.json()
+      setPlacement({ rank, groupSize })
+      toast.success(t('leaderboard.placed', { rank, total: groupSize }))
+    } catch (error) {
+      console.error('Error submitting to leaderboard:', error)
+      toast.error(t('leaderboard.submitFailed'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2 p-4 border rounded-lg">
+      <div>
+        <h4 className="font-semibold">{t('leaderboard.submitTitle')}</h4>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('leaderboard.submitDescription')}</p>
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={showName}
+          onChange={(e) => setShowName(e.target.checked)}
+        />
+        {t('leaderboard.showName')}
+      </label>
+      {showName && (
+        <Input
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          maxLength={MAX_DISPLAY_NAME_LENGTH}
+          placeholder={t('leaderboard.namePlaceholder')}
+          aria-label={t('leaderboard.nameLabel')}
+        />
+      )}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button onClick={submit} disabled={isSubmitting || (showName && !displayName.trim())} className="flex-1">
+          🏆 {isSubmitting ? t('leaderboard.submitting') : placement ? t('leaderboard.resubmit') : t('leaderboard.submit')}
+        </Button>
+        <Button asChild variant="outline" className="flex-1">
+          <Link href={`/${locale}/leaderboard`}>{t('leaderboard.view')}</Link>
+        </Button>
+      </div>
+      {placement && (
+        <p className="text-sm text-center font-medium">
+          {t('leaderboard.placed', { rank: placement.rank, total: placement.groupSize })}
+        </p>
+      )}
+    </div>
+  )
+}
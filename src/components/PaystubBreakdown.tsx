@@ -0,0 +1,51 @@
+import React from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import type { Paystub } from '@/lib/taxes'
+import { prorateMonthly, type PayFrequency } from '@/lib/payFrequency'
+
+interface PaystubBreakdownProps {
+  paystub: Paystub
+  payFrequency: PayFrequency
+}
+
+const formatAmount = (amount: number, locale: string) =>
+  amount.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+export default function PaystubBreakdown({ paystub, payFrequency }: PaystubBreakdownProps) {
+  const t = useTranslations()
+  const locale = useLocale()
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border space-y-2 text-sm">
+      <h5 className="font-semibold">{t('tax.paystubTitle')}</h5>
+
+      <div className="flex justify-between font-semibold">
+        <span>{t('tax.grossPay')}</span>
+        <span>${formatAmount(paystub.gross, locale)}</span>
+      </div>
+
+      {paystub.lines.map((line, index) => (
+        <div key={`${line.id}-${index}`} className="flex justify-between text-gray-700 dark:text-gray-300">
+          <span>
+            {t(`tax.lines.${line.id}`, { jurisdiction: line.jurisdiction || '' })}
+          </span>
+          <span className={line.kind === 'deduction' ? 'text-blue-600 dark:text-blue-400' : 'text-red-600 dark:text-red-400'}>
+            -${formatAmount(line.amount, locale)}
+          </span>
+        </div>
+      ))}
+
+      <div className="border-t pt-2 flex justify-between font-semibold">
+        <span>{t('tax.netPay')}</span>
+        <span>${formatAmount(paystub.net, locale)}</span>
+      </div>
+      <div className="flex justify-between text-gray-600 dark:text-gray-400">
+        <span>{t('tax.perPaycheck', { frequency: payFrequency })}</span>
+        <span>${formatAmount(prorateMonthly(paystub.net, payFrequency), locale)}</span>
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        {t('tax.effectiveRate', { rate: paystub.effectiveTaxRate.toFixed(1) })}
+      </p>
+    </div>
+  )
+}
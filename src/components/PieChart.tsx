@@ -150,13 +150,13 @@ export default function PieChart({ data, title }: PieChartProps) {
               textAnchor="middle"
               className="text-xs font-medium fill-gray-600 dark:fill-gray-400"
             >
-              ${total.toLocaleString()}
+              ${total.toFixed(2)}
             </text>
           </svg>
         </div>
 
         {/* Legend */}
-        <div className="flex-1 space-y-2 max-h-64 overflow-y-scroll w-full lg:w-auto">
+        <div className="flex-1 space-y-2 max-h-64 overflow-y-scroll print:max-h-none print:overflow-visible w-full lg:w-auto">
           {slices.map((slice, index) => (
             <div 
               key={index} 
@@ -187,7 +187,7 @@ export default function PieChart({ data, title }: PieChartProps) {
               <div className="flex-1 min-w-0">
                 <div className="text-sm font-medium truncate">{slice.label}</div>
                 <div className="text-xs text-gray-500 dark:text-gray-400">
-                  ${slice.value.toLocaleString()} ({slice.percentage.toFixed(1)}%)
+                  ${slice.value.toFixed(2)} ({slice.percentage.toFixed(1)}%)
                 </div>
               </div>
             </div>
@@ -205,7 +205,7 @@ export default function PieChart({ data, title }: PieChartProps) {
         </div>
         <div>
           <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-            ${(total / data.length).toFixed(0)}
+            ${(total / data.length).toFixed(2)}
           </div>
           <div className="text-xs text-gray-500 dark:text-gray-400">{t('common.avgPerCategory')}</div>
         </div>
@@ -229,7 +229,7 @@ export default function PieChart({ data, title }: PieChartProps) {
             <span className="font-medium">{tooltip.emoji} {tooltip.label}</span>
           </div>
           <div className="text-xs text-gray-300">
-            <div>${tooltip.value.toLocaleString()}</div>
+            <div>${tooltip.value.toFixed(2)}</div>
             <div>{tooltip.percentage.toFixed(1)}% {t('common.ofTotal')}</div>
           </div>
           {/* Tooltip arrow */}
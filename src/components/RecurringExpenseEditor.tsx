@@ -0,0 +1,98 @@
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  createRecurringExpense,
+  EXPENSE_FREQUENCIES,
+  type ExpenseFrequency,
+  type RecurringExpense
+} from '@/lib/recurringExpenses'
+
+interface RecurringExpenseEditorProps {
+  expenses: RecurringExpense[]
+  totalRounds: number
+  onChange: (expenses: RecurringExpense[]) => void
+}
+
+export default function RecurringExpenseEditor({ expenses, totalRounds, onChange }: RecurringExpenseEditorProps) {
+  const t = useTranslations()
+
+  const updateExpense = (id: string, changes: Partial<RecurringExpense>) => {
+    onChange(expenses.map(expense => expense.id === id ? { ...expense, ...changes } : expense))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="font-semibold">{t('recurring.title')}</h4>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('recurring.description')}</p>
+      </div>
+
+      {expenses.length > 0 && (
+        <div className="space-y-2">
+          <div className="hidden sm:flex gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <span className="flex-1">{t('recurring.nameLabel')}</span>
+            <span className="w-28">{t('recurring.amountLabel')}</span>
+            <span className="w-32">{t('recurring.frequencyLabel')}</span>
+            <span className="w-24">{t('recurring.startRoundLabel')}</span>
+            <span className="w-10" />
+          </div>
+          {expenses.map(expense => (
+            <div key={expense.id} className="flex flex-wrap sm:flex-nowrap gap-2 items-center">
+              <Input
+                value={expense.label}
+                placeholder={t('recurring.namePlaceholder')}
+                onChange={(e) => updateExpense(expense.id, { label: e.target.value })}
+                aria-label={t('recurring.nameLabel')}
+                className="flex-1 min-w-0"
+              />
+              <Input
+                type="number"
+                min={0}
+                value={expense.amount || ''}
+                onChange={(e) => updateExpense(expense.id, { amount: Math.max(0, Number(e.target.value)) })}
+                aria-label={t('recurring.amountLabel')}
+                className="w-28"
+              />
+              <select
+                value={expense.frequency}
+                onChange={(e) => updateExpense(expense.id, { frequency: e.target.value as ExpenseFrequency })}
+                aria-label={t('recurring.frequencyLabel')}
+                className="h-9 w-32 rounded-md border bg-transparent px-2 text-sm dark:bg-gray-800"
+              >
+                {EXPENSE_FREQUENCIES.map(frequency => (
+                  <option key={frequency} value={frequency}>{t(`recurring.frequencies.${frequency}`)}</option>
+                ))}
+              </select>
+              <Input
+                type="number"
+                min={1}
+                max={totalRounds}
+                placeholder="1"
+                value={expense.startRound || ''}
+                onChange={(e) => updateExpense(expense.id, {
+                  startRound: e.target.value ? Math.min(totalRounds, Math.max(1, Math.round(Number(e.target.value)))) : undefined
+                })}
+                aria-label={t('recurring.startRoundLabel')}
+                className="w-24"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onChange(expenses.filter(entry => entry.id !== expense.id))}
+                aria-label={t('recurring.remove')}
+              >
+                ✕
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button variant="outline" onClick={() => onChange([...expenses, createRecurringExpense(expenses)])}>
+        ➕ {t('recurring.add')}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import React, { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface RemoteGameLoaderProps {
+  onLoad: (code: string) => Promise<void>
+}
+
+// Continue a game stored on the server from another device, using its sync code
+export default function RemoteGameLoader({ onLoad }: RemoteGameLoaderProps) {
+  const t = useTranslations()
+  const [code, setCode] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleLoad = async () => {
+    setIsLoading(true)
+    try {
+      await onLoad(code)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('remote.loadTitle')}</label>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('remote.loadDescription')}</p>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder={t('remote.codePlaceholder')}
+          aria-label={t('remote.codeLabel')}
+          className="font-mono"
+        />
+        <Button variant="outline" onClick={handleLoad} disabled={!code.trim() || isLoading}>
+          {isLoading ? t('common.loading') : t('remote.load')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import type { SaveGame } from '@/lib/saveGames'
+
+interface ResumePromptProps {
+  save: SaveGame
+  onResume: () => void
+  onDismiss: () => void
+}
+
+// Offer to pick up an unfinished game instead of starting a new one
+export default function ResumePrompt({ save, onResume, onDismiss }: ResumePromptProps) {
+  const t = useTranslations()
+
+  return (
+    <div className="bg-yellow-50 dark:bg-yellow-900/20 p-4 rounded-lg space-y-3">
+      <p className="text-yellow-800 dark:text-yellow-200">
+        {t('saves.resumePrompt', {
+          name: save.name,
+          iteration: Math.min(save.state.iteration, save.state.totalRounds),
+          total: save.state.totalRounds
+        })}
+      </p>
+      <div className="flex gap-2">
+        <Button onClick={onResume}>{t('saves.resume')}</Button>
+        <Button variant="outline" onClick={onDismiss}>{t('saves.startNew')}</Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import type { GameState } from '@/lib/allocationLogic'
+import { createRunCsv, serializeRunFile } from '@/lib/runFile'
+import { formatSeed } from '@/lib/random'
+
+interface RunExportButtonsProps {
+  gameState: GameState
+  getCategoryLabel: (key: string) => string
+}
+
+function download(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function RunExportButtons({ gameState, getCategoryLabel }: RunExportButtonsProps) {
+  const t = useTranslations()
+  const baseName = `budget-run-${formatSeed(gameState.seed)}-round-${Math.min(gameState.iteration, gameState.totalRounds)}`
+
+  return (
+    <div className="flex flex-wrap gap-2 justify-center">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => download(`${baseName}.json`, serializeRunFile(gameState), 'application/json')}
+      >
+        ⬇️ {t('runFile.exportJson')}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => download(`${baseName}.csv`, createRunCsv(gameState, getCategoryLabel), 'text/csv')}
+        disabled={gameState.iterationHistory.length === 0}
+      >
+        ⬇️ {t('runFile.exportCsv')}
+      </Button>
+    </div>
+  )
+}
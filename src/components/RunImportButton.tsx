@@ -0,0 +1,66 @@
+import React, { useRef, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import type { GameState } from '@/lib/allocationLogic'
+import type { ValidationIssue } from '@/lib/gameStateSchema'
+import { parseRunFile } from '@/lib/runFile'
+
+interface RunImportButtonProps {
+  onImport: (state: GameState, fileName: string) => void
+}
+
+// Longer issue lists are cut short with a count of the rest
+const MAX_LISTED_ISSUES = 5
+
+export default function RunImportButton({ onImport }: RunImportButtonProps) {
+  const t = useTranslations()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<{ message: string; issues: ValidationIssue[] } | null>(null)
+
+  const handleFile = async (file: File) => {
+    const result = parseRunFile(await file.text())
+    if (result.ok) {
+      setError(null)
+      onImport(result.state, file.name)
+    } else {
+      setError({ message: t(`runFile.errors.${result.error}`), issues: result.issues })
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) {
+            handleFile(file)
+          }
+          e.target.value = ''
+        }}
+      />
+      <Button variant="outline" onClick={() => inputRef.current?.click()}>
+        ⬆️ {t('runFile.import')}
+      </Button>
+      <p className="text-sm text-gray-600 dark:text-gray-400">{t('runFile.importDescription')}</p>
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 p-3 rounded-lg text-sm text-red-700 dark:text-red-300">
+          <p className="font-semibold">{error.message}</p>
+          {error.issues.length > 0 && (
+            <ul className="list-disc list-inside font-mono text-xs mt-1">
+              {error.issues.slice(0, MAX_LISTED_ISSUES).map(issue => (
+                <li key={`${issue.path}-${issue.message}`}>{issue.path}: {issue.message}</li>
+              ))}
+              {error.issues.length > MAX_LISTED_ISSUES && (
+                <li>{t('runFile.moreIssues', { count: error.issues.length - MAX_LISTED_ISSUES })}</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
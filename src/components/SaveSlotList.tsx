@@ -0,0 +1,59 @@
+import React from 'react'
+import { useTranslations, useLocale } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { SaveSlotSummary } from '@/lib/saveGames'
+
+interface SaveSlotListProps {
+  slots: SaveSlotSummary[]
+  onLoad: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+}
+
+export default function SaveSlotList({ slots, onLoad, onRename, onDelete }: SaveSlotListProps) {
+  const t = useTranslations()
+  const locale = useLocale()
+
+  if (slots.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('saves.title')}</label>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('saves.description')}</p>
+      </div>
+      {slots.map(slot => (
+        <div key={slot.id} className="flex flex-wrap sm:flex-nowrap gap-2 items-center p-3 rounded-lg border">
+          <div className="flex-1 min-w-0 space-y-1">
+            <Input
+              defaultValue={slot.name}
+              placeholder={t('saves.namePlaceholder')}
+              onBlur={(e) => {
+                if (e.target.value !== slot.name) {
+                  onRename(slot.id, e.target.value)
+                }
+              }}
+              aria-label={t('saves.nameLabel')}
+            />
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {slot.stage === 'game_over'
+                ? t('saves.finished')
+                : t('saves.progress', { iteration: Math.min(slot.iteration, slot.totalRounds), total: slot.totalRounds })}
+              {slot.location && ` · ${slot.location}`}
+              {` · ${new Date(slot.updatedAt).toLocaleString(locale)}`}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => onLoad(slot.id)}>
+            {t('saves.load')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onDelete(slot.id)} aria-label={t('saves.delete')}>
+            ✕
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import { Progress } from '@/components/ui/progress'
+import {
+  SCORE_METRICS,
+  SCORE_WEIGHTS,
+  type LetterGrade,
+  type ScoreBreakdown,
+  type ScoreMetric,
+  type ScoreMetrics
+} from '@/lib/scoring'
+
+interface ScoreCardProps {
+  score: ScoreBreakdown
+  title: string
+}
+
+const GRADE_STYLES: Record<LetterGrade, string> = {
+  A: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  B: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200',
+  C: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200',
+  D: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200',
+  F: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200'
+}
+
+export default function ScoreCard({ score, title }: ScoreCardProps) {
+  const t = useTranslations()
+
+  const formatMetric = (metric: ScoreMetric, metrics: ScoreMetrics) => {
+    const value = metrics[metric]
+    switch (metric) {
+      case 'debtToIncome':
+        return t('score.ratioValue', { value: value.toFixed(2) })
+      case 'emergencyFundMonths':
+        return t('score.monthsValue', { months: value.toFixed(1) })
+      default:
+        return t('score.percentValue', { percent: Math.round(value * 100) })
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border space-y-4 text-left">
+      <div className="flex justify-between items-center gap-2">
+        <h4 className="font-semibold">{title}</h4>
+        <div className="flex items-center gap-2">
+          <span className="text-lg font-bold">{t('score.outOf', { score: score.score })}</span>
+          <span className={`px-3 py-1 rounded-full text-sm font-bold ${GRADE_STYLES[score.grade]}`}>
+            {score.grade}
+          </span>
+        </div>
+      </div>
+      {SCORE_METRICS.map(metric => (
+        <div key={metric} className="space-y-1">
+          <div className="flex justify-between text-sm gap-2">
+            <span>{t(`score.metrics.${metric}`)}</span>
+            <span className="whitespace-nowrap">
+              {formatMetric(metric, score.metrics)} · {t('score.points', {
+                points: score.points[metric],
+                max: SCORE_WEIGHTS[metric]
+              })}
+            </span>
+          </div>
+          <Progress value={score.points[metric] / SCORE_WEIGHTS[metric] * 100} className="h-2" />
+        </div>
+      ))}
+      <p className="text-xs text-gray-600 dark:text-gray-400">{t('score.explanation')}</p>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import React, { useState } from 'react'
+import { useTranslations, useLocale } from 'next-intl'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { ChallengeConfig } from '@/lib/challenge'
+
+interface ShareChallengeButtonProps {
+  config: ChallengeConfig
+  disabled?: boolean
+}
+
+// Asks the server to sign the settings and copies the challenge link
+export default function ShareChallengeButton({ config, disabled = false }: ShareChallengeButtonProps) {
+  const t = useTranslations()
+  const locale = useLocale()
+  const [link, setLink] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+
+  const createLink = async () => {
+    setIsCreating(true)
+    try {
+      const response = await fetch('/api/challenge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ config }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to create challenge link')
+      }
+
+      const { token } = await response.json()
+      const url = `${window.location.origin}/${locale}/challenge/${token}`
+      setLink(url)
+      try {
+        await navigator.clipboard.writeText(url)
+        toast.success(t('challenge.copied'))
+      } catch {
+        // Clipboard access can be refused; the link is still shown to copy by hand
+      }
+    } catch (error) {
+      console.error('Error creating challenge link:', error)
+      toast.error(t('challenge.shareFailed'))
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button variant="outline" onClick={createLink} disabled={disabled || isCreating} className="w-full">
+        🔗 {isCreating ? t('challenge.creating') : t('challenge.share')}
+      </Button>
+      {link && (
+        <Input
+          readOnly
+          value={link}
+          onFocus={(e) => e.target.select()}
+          aria-label={t('challenge.linkLabel')}
+          className="font-mono text-xs"
+        />
+      )}
+    </div>
+  )
+}
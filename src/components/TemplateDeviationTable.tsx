@@ -0,0 +1,46 @@
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import type { BudgetTemplate, TemplateDeviation } from '@/lib/budgetTemplates'
+
+interface TemplateDeviationTableProps {
+  template: BudgetTemplate
+  deviation: TemplateDeviation
+  getCategoryLabel: (key: string) => string
+}
+
+export default function TemplateDeviationTable({ template, deviation, getCategoryLabel }: TemplateDeviationTableProps) {
+  const t = useTranslations()
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border space-y-3 text-left">
+      <div className="flex justify-between items-center gap-2">
+        <h4 className="font-semibold">{t('templates.deviationTitle', { template: t(`templates.names.${template}`) })}</h4>
+        <span className="text-sm font-semibold">
+          {t('templates.deviationShare', { percent: Math.round(deviation.deviationShare * 100) })}
+        </span>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-600 dark:text-gray-400">
+            <th className="text-left font-normal">{t('common.category')}</th>
+            <th className="text-right font-normal">{t('templates.suggested')}</th>
+            <th className="text-right font-normal">{t('templates.actual')}</th>
+            <th className="text-right font-normal">{t('templates.difference')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {deviation.lines.map(line => (
+            <tr key={line.key}>
+              <td>{getCategoryLabel(line.key)}</td>
+              <td className="text-right">${line.target.toFixed(2)}</td>
+              <td className="text-right">${line.actual.toFixed(2)}</td>
+              <td className={`text-right ${Math.abs(line.difference) < 0.005 ? '' : line.difference > 0 ? 'text-orange-600 dark:text-orange-400' : 'text-blue-600 dark:text-blue-400'}`}>
+                {line.difference > 0 ? '+' : ''}{line.difference.toFixed(2)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
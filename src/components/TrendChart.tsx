@@ -0,0 +1,139 @@
+import React from 'react'
+
+interface TrendSeries {
+  label: string
+  color: string
+  values: number[]
+}
+
+interface TrendChartProps {
+  labels: string[]
+  series: TrendSeries[]
+  title?: string
+  selectedIndex?: number | null
+  onSelect?: (index: number) => void
+}
+
+export default function TrendChart({ labels, series, title, selectedIndex = null, onSelect }: TrendChartProps) {
+  // SVG dimensions
+  const width = 600
+  const height = 240
+  const padding = { top: 16, right: 16, bottom: 28, left: 56 }
+  const plotWidth = width - padding.left - padding.right
+  const plotHeight = height - padding.top - padding.bottom
+
+  const allValues = series.flatMap(item => item.values)
+  const maxValue = Math.max(1, ...allValues)
+  const minValue = Math.min(0, ...allValues)
+  const range = maxValue - minValue || 1
+
+  const xFor = (index: number) =>
+    padding.left + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2)
+  const yFor = (value: number) => padding.top + plotHeight - ((value - minValue) / range) * plotHeight
+
+  const linePath = (values: number[]) =>
+    values.map((value, index) => `${index === 0 ? 'M' : 'L'} ${xFor(index)} ${yFor(value)}`).join(' ')
+
+  const areaPath = (values: number[]) =>
+    `${linePath(values)} L ${xFor(values.length - 1)} ${yFor(0)} L ${xFor(0)} ${yFor(0)} Z`
+
+  // Four evenly spaced grid lines with dollar labels
+  const gridValues = [0, 1, 2, 3].map(step => minValue + (range * step) / 3)
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg border">
+      {title && <h3 className="text-lg font-semibold mb-4 text-center">{title}</h3>}
+
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+        {gridValues.map((value, index) => (
+          <g key={index}>
+            <line
+              x1={padding.left}
+              x2={width - padding.right}
+              y1={yFor(value)}
+              y2={yFor(value)}
+              stroke="#e5e7eb"
+              strokeDasharray="4 4"
+            />
+            <text
+              x={padding.left - 8}
+              y={yFor(value) + 4}
+              textAnchor="end"
+              className="text-xs fill-gray-500 dark:fill-gray-400"
+            >
+              ${Math.round(value).toLocaleString()}
+            </text>
+          </g>
+        ))}
+
+        {selectedIndex !== null && selectedIndex >= 0 && selectedIndex < labels.length && (
+          <rect
+            x={xFor(selectedIndex) - 12}
+            y={padding.top}
+            width={24}
+            height={plotHeight}
+            fill="#3B82F6"
+            fillOpacity={0.08}
+          />
+        )}
+
+        {series.map(item => item.values.length > 0 && (
+          <g key={item.label}>
+            <path d={areaPath(item.values)} fill={item.color} fillOpacity={0.12} />
+            <path d={linePath(item.values)} fill="none" stroke={item.color} strokeWidth={2.5} />
+            {item.values.map((value, index) => (
+              <circle
+                key={index}
+                cx={xFor(index)}
+                cy={yFor(value)}
+                r={index === selectedIndex ? 5 : 3.5}
+                fill={item.color}
+                stroke="white"
+                strokeWidth={1.5}
+              >
+                <title>{`${item.label} ${labels[index]}: $${Math.round(value).toLocaleString()}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+
+        {labels.map((label, index) => (
+          <text
+            key={index}
+            x={xFor(index)}
+            y={height - 8}
+            textAnchor="middle"
+            className={`text-xs ${onSelect ? 'cursor-pointer' : ''} ${index === selectedIndex ? 'fill-blue-600 font-semibold' : 'fill-gray-500 dark:fill-gray-400'}`}
+            onClick={() => onSelect?.(index)}
+          >
+            {label}
+          </text>
+        ))}
+
+        {/* Invisible hit areas so a whole column can be clicked */}
+        {onSelect && labels.map((_, index) => (
+          <rect
+            key={index}
+            x={xFor(index) - 12}
+            y={padding.top}
+            width={24}
+            height={plotHeight}
+            fill="transparent"
+            className="cursor-pointer"
+            onClick={() => onSelect(index)}
+          />
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap justify-center gap-4 mt-4">
+        {series.map(item => (
+          <div key={item.label} className="flex items-center gap-2 text-sm">
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: item.color }} />
+            <span>{item.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
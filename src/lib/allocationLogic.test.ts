@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import en from '../../messages/en.json'
+import es from '../../messages/es.json'
+import pt from '../../messages/pt.json'
+import { ALLOCATION_SOURCES, applyCategoryAllocation, type GameState } from '@/lib/allocationLogic'
+import { CATEGORY_TYPES, DEFAULT_CATEGORIES } from '@/lib/categories'
+import { borrow, getTotalDebt } from '@/lib/debtAccounts'
+import { createRunState, playRun } from '@/test/runs'
+
+const LOCALES = { en, es, pt }
+
+// Play the same seeded run with categories labelled in the given language, the
+// way the game shows them
+function playInLanguage(messages: typeof en): GameState {
+  const labels: Record<string, string> = messages.categories
+  return playRun(createRunState({
+    categories: DEFAULT_CATEGORIES.map(category => ({ ...category, label: labels[category.key] }))
+  }))
+}
+
+// A round with a player-made category given the label `label`
+function playWithCustomCategory(label: string): GameState {
+  const start = createRunState({
+    categories: [...DEFAULT_CATEGORIES, { key: 'custom-1', emoji: '🧩', type: 'spending', label }],
+    totalRounds: 1
+  })
+  return playRun(start, [{
+    savings: { amount: 300, source: 'income' },
+    'custom-1': { amount: 100, source: 'income' }
+  }])
+}
+
+describe('allocation logic across languages', () => {
+  it('labels the categories differently in each language', () => {
+    expect(new Set([en.categories.savings, es.categories.savings, pt.categories.savings]).size).toBe(3)
+  })
+
+  it('produces the same run in every language', () => {
+    const [reference, ...others] = Object.values(LOCALES).map(playInLanguage)
+    expect(reference.savings).toBeGreaterThan(0)
+    expect(reference.investments).toBeGreaterThan(0)
+    expect(reference.iterationHistory.some(round => round.debt > 0)).toBe(true)
+    for (const state of others) {
+      expect(state.iterationHistory).toEqual(reference.iterationHistory)
+      expect(state.debtAccounts).toEqual(reference.debtAccounts)
+      expect(state.savings).toBe(reference.savings)
+    }
+  })
+
+  it('keeps a category named like another category in any language apart from it', () => {
+    const reference = playWithCustomCategory('Gym')
+    expect(reference.iterationHistory[0].allocations.savings.amount).toBe(300)
+    for (const messages of Object.values(LOCALES)) {
+      const state = playWithCustomCategory(messages.categories.savings)
+      expect(state.iterationHistory[0].allocations['custom-1'].amount).toBe(100)
+      expect(state.iterationHistory).toEqual(reference.iterationHistory)
+      expect(state.savings).toBe(reference.savings)
+    }
+  })
+})
+
+describe('applyCategoryAllocation', () => {
+  const start = createRunState({ savings: 1000 })
+  const withDebt: GameState = { ...start, debtAccounts: borrow(start.debtAccounts, 'creditCard', 500).accounts }
+
+  // Every category does the same with the money whichever pot it came from
+  for (const type of CATEGORY_TYPES) {
+    for (const source of ALLOCATION_SOURCES) {
+      it(`applies a ${type} line paid from ${source}`, () => {
+        const state: GameState = { ...withDebt, categories: [{ key: 'line', emoji: '🧩', type, label: 'Line' }] }
+        const next = applyCategoryAllocation(state, 200, source, 'creditCard', 'creditCard')
+
+        const savings = 1000 - (source === 'savings' ? 200 : 0) + (type === 'savings' ? 200 : 0)
+        const debt = 500 + (source === 'debt' ? 200 : 0) - (type === 'debtRepayment' ? 200 : 0)
+        expect(next.savings).toBeCloseTo(savings)
+        expect(next.investments).toBeCloseTo(type === 'investment' ? 200 : 0)
+        expect(getTotalDebt(next.debtAccounts)).toBeCloseTo(debt)
+      })
+    }
+  }
+
+  it('repays another account than the one a debt-funded repayment borrows from', () => {
+    const state: GameState = {
+      ...start,
+      debtAccounts: borrow(start.debtAccounts, 'personalLoan', 500).accounts,
+      categories: DEFAULT_CATEGORIES.filter(category => category.key === 'debtRepayment')
+    }
+    const next = applyCategoryAllocation(state, 200, 'debt', 'creditCard', 'personalLoan')
+    expect(next.debtAccounts.find(account => account.id === 'personalLoan')?.balance).toBeCloseTo(300)
+    expect(next.debtAccounts.find(account => account.id === 'creditCard')?.balance).toBeCloseTo(200)
+    expect(next.allocations.debtRepayment).toMatchObject({ source: 'debt', instrument: 'creditCard', repaid: 'personalLoan' })
+  })
+})
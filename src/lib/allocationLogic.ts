@@ -1,3 +1,18 @@
+import type { PayFrequency } from '@/lib/payFrequency'
+import { getCategoryType, type BudgetCategory, type CategoryType } from '@/lib/categories'
+import type { RecurringExpense } from '@/lib/recurringExpenses'
+import type { FinancialGoal } from '@/lib/goals'
+import type { PreTaxDeductions } from '@/lib/taxes'
+import type { RoundScore } from '@/lib/scoring'
+import {
+  borrow,
+  getAvailableCredit,
+  repay,
+  resolveRepaymentTarget,
+  type DebtAccount,
+  type DebtInstrument
+} from '@/lib/debtAccounts'
+
 export interface AllocationState {
   currentAmount: number
   savingsAmount: number
@@ -7,16 +22,50 @@ export interface AllocationState {
   savingsExhausted: boolean
 }
 
+// Pot that funds an allocation
+export type AllocationSource = 'income' | 'savings' | 'debt'
+
+export const ALLOCATION_SOURCES: AllocationSource[] = ['income', 'savings', 'debt']
+
+export interface BudgetAllocation {
+  amount: number
+  emoji: string
+  // Pot that funded this allocation; defaults to the round's income
+  source?: AllocationSource
+  // Account borrowed from (debt-funded) or repaid (debt repayment)
+  instrument?: DebtInstrument
+  // Account a debt-funded repayment pays off, since `instrument` is the one borrowed from
+  repaid?: DebtInstrument
+}
+
+// One line of a full-budget plan, keyed by category key
+export interface PlannedAllocation {
+  amount: number
+  source: AllocationSource
+}
+
+export interface RandomEvent {
+  // Key into the `events` namespace of messages/*.json
+  id: string
+  adjustment: number
+  // Rounds the event still applies to, including the current one
+  roundsRemaining?: number
+}
+
 export interface IterationHistoryItem {
   iteration: number
   balance: number
-  allocations: Record<string, { amount: number; emoji: string }>
+  // Keyed by category key
+  allocations: Record<string, BudgetAllocation>
   debt: number
   savings: number
-  randomEvent?: {
-    message: string
-    adjustment: number
-  }
+  investments: number
+  // Growth credited at the end of the round (only in rounds that close a month)
+  savingsInterest: number
+  investmentReturn: number
+  randomEvents: RandomEvent[]
+  // Financial health score of the round
+  score: RoundScore
 }
 
 export interface GameState {
@@ -24,143 +73,210 @@ export interface GameState {
   grossMonthlySalary: number
   monthlySalary: number
   location: string
-  biweeklyIncome: number
+  payFrequency: PayFrequency
+  // Net income received each pay period (round)
+  paycheck: number
   currentBalance: number
   iteration: number
+  // Number of rounds before the game ends
+  totalRounds: number
+  // Categories allocated to each round, in order; fixed once the first round starts
+  categories: BudgetCategory[]
   currentCategoryIndex: number
-  allocations: Record<string, { amount: number; emoji: string }>
+  // Keyed by category key, e.g. "groceries"; labels are only resolved for display
+  allocations: Record<string, BudgetAllocation>
   allocatedAmount: number
-  debt: number
-  costOfDebt: number
+  debtAccounts: DebtAccount[]
+  // Liquid high-yield savings, drawn first when the player runs short
   savings: number
+  // Annual percentage yield on savings, e.g. 0.04 for 4%
+  savingsApy: number
+  // Less liquid investment account with volatile monthly returns
+  investments: number
   housingCost: number
   utilityCost: number
+  // Other fixed obligations, each charged on its own schedule
+  recurringExpenses: RecurringExpense[]
+  // Effective tax rate in percent
   taxRate: number
+  // Pre-tax deductions and the flat tax rate that replaced the tax tables (null when
+  // the tables applied), kept so the paystub can be rebuilt; unset in older games
+  preTaxDeductions?: PreTaxDeductions
+  flatTaxRate?: number | null
+  // Seed for the random event generator; the same seed replays the same events
+  seed: number
+  // Goals set before the first round
+  goals: FinancialGoal[]
+  // Id of the challenge link the game was started from, if any, and the link's token
+  // so the server can check the run against it
+  challengeId?: string
+  challengeToken?: string
+  // Multi-round events carried into the next round
+  activeEvents: RandomEvent[]
   iterationHistory: IterationHistoryItem[]
 }
 
-export interface BudgetAllocation {
-  amount: number
-  emoji: string
+interface CategoryEffect {
+  savings: number
+  investments: number
+  debtAccounts: DebtAccount[]
+}
+
+// What allocating to a category does with the money, wherever it came from: savings
+// and investment deposits grow those balances and repayments pay down the chosen account
+function applyCategoryEffect(
+  effect: CategoryEffect,
+  categoryType: CategoryType,
+  amount: number,
+  repaymentTarget: DebtInstrument
+): CategoryEffect {
+  if (categoryType === 'savings') {
+    return { ...effect, savings: effect.savings + amount }
+  }
+  if (categoryType === 'investment') {
+    return { ...effect, investments: effect.investments + amount }
+  }
+  if (categoryType === 'debtRepayment' && amount > 0) {
+    const result = repay(effect.debtAccounts, repaymentTarget, amount)
+    // Anything beyond the account's balance goes to savings
+    return { ...effect, savings: effect.savings + result.excess, debtAccounts: result.accounts }
+  }
+  return effect
 }
 
 // Normal allocation mode - user has money to allocate
 export function handleNormalAllocation(
   gameState: GameState,
   currentAmount: number,
-  category: string,
-  emoji: string
-): { newGameState: GameState; newSavings: number; newDebt: number } {
+  categoryKey: string,
+  emoji: string,
+  repaymentTarget: DebtInstrument = 'creditCard'
+): { newGameState: GameState; newSavings: number; newDebtAccounts: DebtAccount[] } {
+  const categoryType = getCategoryType(gameState.categories, categoryKey)
+  const repaysDebt = categoryType === 'debtRepayment' && currentAmount > 0
+  const effect = applyCategoryEffect(
+    { savings: gameState.savings, investments: gameState.investments, debtAccounts: gameState.debtAccounts },
+    categoryType,
+    currentAmount,
+    repaymentTarget
+  )
   const newGameState = {
     ...gameState,
     allocations: {
       ...gameState.allocations,
-      [category]: { amount: currentAmount, emoji }
+      [categoryKey]: { amount: currentAmount, emoji, ...(repaysDebt ? { instrument: repaymentTarget } : {}) }
     },
-    allocatedAmount: gameState.allocatedAmount + currentAmount
+    allocatedAmount: gameState.allocatedAmount + currentAmount,
+    investments: effect.investments
   }
 
-  let newSavings = gameState.savings
-  let newDebt = gameState.debt
-
-  // Handle savings allocation
-  if (category === "Savings & Emergency Fund") {
-    newSavings += currentAmount
-  }
-
-  // Handle debt repayment
-  if (category === "Debt Repayment") {
-    if (currentAmount > 0 && newDebt > 0) {
-      if (currentAmount >= newDebt) {
-        // Pay off all debt, excess goes to savings
-        const excess = currentAmount - newDebt
-        newSavings += excess
-        newDebt = 0
-      } else {
-        // Pay off partial debt
-        newDebt -= currentAmount
-      }
-    } else if (currentAmount > 0 && newDebt === 0) {
-      // No debt to pay, amount goes to savings
-      newSavings += currentAmount
-    }
-  }
-
-  return { newGameState, newSavings, newDebt }
+  return { newGameState, newSavings: effect.savings, newDebtAccounts: effect.debtAccounts }
 }
 
 // Savings allocation mode - user is using savings to allocate
 export function handleSavingsAllocation(
   gameState: GameState,
   savingsAmount: number,
-  category: string,
-  emoji: string
-): { newGameState: GameState; newSavings: number; newDebt: number; savingsExhausted: boolean } {
-  const newGameState = {
-    ...gameState,
-    allocations: {
-      ...gameState.allocations,
-      [category]: { amount: savingsAmount, emoji }
-    },
-    allocatedAmount: gameState.allocatedAmount + savingsAmount
-  }
+  categoryKey: string,
+  emoji: string,
+  repaymentTarget: DebtInstrument = 'creditCard'
+): { newGameState: GameState; newSavings: number; newDebtAccounts: DebtAccount[]; savingsExhausted: boolean } {
+  const categoryType = getCategoryType(gameState.categories, categoryKey)
+  const repaysDebt = categoryType === 'debtRepayment' && savingsAmount > 0
 
   let newSavings = gameState.savings - savingsAmount
-  let newDebt = gameState.debt
+  let newDebtAccounts = gameState.debtAccounts
   let savingsExhausted = newSavings <= 0
 
-  // If we used more than available savings, create debt
+  // If we used more than available savings, the rest is borrowed, starting with the credit card
   if (savingsAmount > gameState.savings) {
     const excess = savingsAmount - gameState.savings
     newSavings = 0
-    newDebt += excess
+    newDebtAccounts = borrow(newDebtAccounts, 'creditCard', excess).accounts
     savingsExhausted = true
   }
 
-  return { newGameState, newSavings, newDebt, savingsExhausted }
+  const effect = applyCategoryEffect(
+    { savings: newSavings, investments: gameState.investments, debtAccounts: newDebtAccounts },
+    categoryType,
+    savingsAmount,
+    repaymentTarget
+  )
+  const newGameState = {
+    ...gameState,
+    allocations: {
+      ...gameState.allocations,
+      [categoryKey]: {
+        amount: savingsAmount,
+        emoji,
+        source: 'savings' as const,
+        ...(repaysDebt ? { instrument: repaymentTarget } : {})
+      }
+    },
+    allocatedAmount: gameState.allocatedAmount + savingsAmount,
+    investments: effect.investments
+  }
+
+  return { newGameState, newSavings: effect.savings, newDebtAccounts: effect.debtAccounts, savingsExhausted }
 }
 
-// Debt allocation mode - user is using debt to allocate
+// Debt allocation mode - user is borrowing from the chosen instrument to allocate
 export function handleDebtAllocation(
   gameState: GameState,
   debtAmount: number,
-  category: string,
-  emoji: string
-): { newGameState: GameState; newSavings: number; newDebt: number } {
+  categoryKey: string,
+  emoji: string,
+  instrument: DebtInstrument,
+  repaymentTarget: DebtInstrument = 'creditCard'
+): { newGameState: GameState; newSavings: number; newDebtAccounts: DebtAccount[] } {
+  const categoryType = getCategoryType(gameState.categories, categoryKey)
+  const repaysDebt = categoryType === 'debtRepayment' && debtAmount > 0
+
+  const effect = applyCategoryEffect(
+    {
+      savings: gameState.savings,
+      investments: gameState.investments,
+      debtAccounts: borrow(gameState.debtAccounts, instrument, debtAmount).accounts
+    },
+    categoryType,
+    debtAmount,
+    repaymentTarget
+  )
   const newGameState = {
     ...gameState,
     allocations: {
       ...gameState.allocations,
-      [category]: { amount: debtAmount, emoji }
+      [categoryKey]: {
+        amount: debtAmount,
+        emoji,
+        source: 'debt' as const,
+        instrument,
+        ...(repaysDebt ? { repaid: repaymentTarget } : {})
+      }
     },
-    allocatedAmount: gameState.allocatedAmount + debtAmount
+    allocatedAmount: gameState.allocatedAmount + debtAmount,
+    investments: effect.investments
   }
 
-  const newSavings = gameState.savings
-  const newDebt = gameState.debt + debtAmount
-
   console.log('Debug - handleDebtAllocation:', {
     newGameState,
-    newSavings,
-    newDebt
+    instrument,
+    newDebtAccounts: effect.debtAccounts
   });
 
-  return { newGameState, newSavings, newDebt }
+  return { newGameState, newSavings: effect.savings, newDebtAccounts: effect.debtAccounts }
 }
 
 // Determine which allocation mode should be active
 export function determineAllocationMode(
   gameState: GameState,
   remainingToAllocate: number,
-  debtUsedThisRound: number,
   savingsExhausted: boolean = false,
 ): 'normal' | 'savings' | 'debt' | null {
   console.log('Debug - determineAllocationMode:', {
     remainingToAllocate,
     savingsExhausted,
-    debtUsedThisRound,
-    gameStateSavings: gameState.savings,
-    monthlySalary: gameState.monthlySalary
+    gameStateSavings: gameState.savings
   })
 
   // If user has money to allocate, use normal mode
@@ -175,14 +291,12 @@ export function determineAllocationMode(
     return 'savings'
   }
 
-  // If no money and (no savings OR savings exhausted), use debt mode (up to 1/4 monthly salary per round)
-  const maxDebtAllocation = gameState.monthlySalary / 4
-  const availableDebtAllocation = Math.max(0, maxDebtAllocation - debtUsedThisRound)
+  // If no money and (no savings OR savings exhausted), use debt mode while any account has credit left
+  const availableDebtAllocation = getAvailableDebtAllocation(gameState)
   console.log('Debug - Debt mode check:', {
-    maxDebtAllocation,
     availableDebtAllocation
   })
-  
+
   if (availableDebtAllocation > 0) {
     console.log('Debug - Returning debt mode')
     return 'debt'
@@ -192,10 +306,78 @@ export function determineAllocationMode(
   return null
 }
 
-// Calculate available debt allocation
-export function getAvailableDebtAllocation(gameState: GameState, debtUsedThisRound: number = 0): number {
-  // Since we're working with bi-weekly periods, the debt limit should be 1/4 of monthly salary per round
-  // This ensures that over two rounds (one month), the total debt limit is 1/2 of monthly salary
-  const maxDebtAllocation = gameState.monthlySalary / 4
-  return Math.max(0, maxDebtAllocation - debtUsedThisRound)
-} 
\ No newline at end of file
+// Calculate available debt allocation - remaining credit on one instrument, or on all of them
+export function getAvailableDebtAllocation(gameState: GameState, instrument?: DebtInstrument): number {
+  return gameState.debtAccounts
+    .filter(account => instrument === undefined || account.id === instrument)
+    .reduce((total, account) => total + getAvailableCredit(account), 0)
+}
+
+// Allocate to the current category with the handler for its funding source and move
+// on to the next category, or to the summary after the last one. Both the guided
+// wizard and the full-budget view go through here.
+export function applyCategoryAllocation(
+  gameState: GameState,
+  amount: number,
+  source: AllocationSource,
+  debtInstrument: DebtInstrument,
+  repaymentTarget: DebtInstrument
+): GameState {
+  const category = gameState.categories[gameState.currentCategoryIndex]
+  // Chosen before any borrowing, so a repayment never lands on the money just borrowed
+  const target = resolveRepaymentTarget(gameState.debtAccounts, repaymentTarget)
+  const result = source === 'savings'
+    ? handleSavingsAllocation(gameState, amount, category.key, category.emoji, target)
+    : source === 'debt'
+      ? handleDebtAllocation(gameState, amount, category.key, category.emoji, debtInstrument, target)
+      : handleNormalAllocation(gameState, amount, category.key, category.emoji, target)
+
+  const nextCategoryIndex = gameState.currentCategoryIndex + 1
+  return {
+    ...result.newGameState,
+    currentCategoryIndex: nextCategoryIndex,
+    savings: result.newSavings,
+    debtAccounts: result.newDebtAccounts,
+    stage: nextCategoryIndex >= gameState.categories.length ? 'summary' : gameState.stage
+  }
+}
+
+// Totals of a plan per funding source
+export function sumPlanBySource(plan: Record<string, PlannedAllocation>): Record<AllocationSource, number> {
+  return Object.values(plan).reduce(
+    (totals, line) => {
+      totals[line.source] += line.amount
+      return totals
+    },
+    { income: 0, savings: 0, debt: 0 }
+  )
+}
+
+// A plan may not spend more income than is left this round, more savings than the
+// player holds or more credit than the chosen instrument has left
+export function isAffordablePlan(
+  gameState: GameState,
+  plan: Record<string, PlannedAllocation>,
+  remainingToAllocate: number,
+  debtInstrument: DebtInstrument
+): boolean {
+  const totals = sumPlanBySource(plan)
+  const tolerance = 0.005
+  return totals.income <= Math.max(0, remainingToAllocate) + tolerance
+    && totals.savings <= gameState.savings + tolerance
+    && totals.debt <= getAvailableDebtAllocation(gameState, debtInstrument) + tolerance
+}
+
+// Allocate every remaining category of the round at once, in category order;
+// categories missing from the plan get nothing
+export function applyAllocationPlan(
+  gameState: GameState,
+  plan: Record<string, PlannedAllocation>,
+  debtInstrument: DebtInstrument,
+  repaymentTarget: DebtInstrument
+): GameState {
+  return gameState.categories.slice(gameState.currentCategoryIndex).reduce((state, category) => {
+    const line = plan[category.key]
+    return applyCategoryAllocation(state, line?.amount || 0, line?.source || 'income', debtInstrument, repaymentTarget)
+  }, gameState)
+}
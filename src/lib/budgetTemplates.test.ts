@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import type { BudgetAllocation, GameState, IterationHistoryItem } from '@/lib/allocationLogic'
+import { getEnvelopeCarryover, getTemplateAllocations } from '@/lib/budgetTemplates'
+import { DEFAULT_CATEGORIES, type BudgetCategory } from '@/lib/categories'
+import { createInitialGameState } from '@/lib/gameDefaults'
+import { getPeriodBudget } from '@/lib/roundEngine'
+
+// One category per bucket keeps each bucket's share readable
+const CATEGORIES: BudgetCategory[] = [
+  { key: 'groceries', emoji: '🛒', type: 'spending', essential: true },
+  { key: 'diningOut', emoji: '🍽️', type: 'spending' },
+  { key: 'savings', emoji: '💰', type: 'savings' }
+]
+
+// A debt-free monthly round paying 2000 with 600 rent: 50/30/20 leaves needs 400,
+// wants 600 and savings 400, exactly the 1400 left after rent
+function createState(overrides: Partial<GameState> = {}): GameState {
+  return {
+    ...createInitialGameState(),
+    stage: 'budget_allocation',
+    payFrequency: 'monthly',
+    paycheck: 2000,
+    housingCost: 600,
+    categories: CATEGORIES,
+    ...overrides
+  }
+}
+
+function spend(amounts: Record<string, number>): Record<string, BudgetAllocation> {
+  return Object.fromEntries(Object.entries(amounts).map(([key, amount]) => [key, { amount, emoji: '' }]))
+}
+
+// Only the allocations and the debt carried out of a round matter to templates
+function played(allocations: Record<string, number>[]): IterationHistoryItem[] {
+  return allocations.map((amounts, index) => ({
+    iteration: index + 1,
+    balance: 0,
+    allocations: spend(amounts),
+    debt: 0,
+    savings: 0,
+    investments: 0,
+    savingsInterest: 0,
+    investmentReturn: 0,
+    randomEvents: [],
+    score: { total: 0, components: {} } as unknown as IterationHistoryItem['score']
+  }))
+}
+
+const total = (amounts: Record<string, number>) => Object.values(amounts).reduce((sum, amount) => sum + amount, 0)
+
+describe('getTemplateAllocations', () => {
+  it('splits 50/30/20 with fixed costs counted as needs', () => {
+    expect(getTemplateAllocations('fiftyThirtyTwenty', createState())).toEqual({ groceries: 400, diningOut: 600, savings: 400 })
+  })
+
+  it('scales 50/30/20 down evenly when the round is short', () => {
+    // Rent takes the whole needs share, leaving 800 for wants 600 and savings 400
+    const state = createState({ housingCost: 1200 })
+    expect(getTemplateAllocations('fiftyThirtyTwenty', state)).toEqual({ groceries: 0, diningOut: 480, savings: 320 })
+  })
+
+  it('takes savings off the top before splitting the rest 70/30', () => {
+    expect(getTemplateAllocations('payYourselfFirst', createState())).toEqual({ groceries: 700, diningOut: 300, savings: 400 })
+  })
+
+  it('builds a zero-based plan from nothing, funding needs and savings before wants', () => {
+    const state = createState({ housingCost: 1200 })
+    expect(getTemplateAllocations('zeroBased', state)).toEqual({ groceries: 0, diningOut: 400, savings: 400 })
+  })
+
+  it('gives money beyond every zero-based share to savings', () => {
+    const state = createState({ currentBalance: 500 })
+    expect(getTemplateAllocations('zeroBased', state)).toEqual({ groceries: 400, diningOut: 600, savings: 900 })
+  })
+
+  it('does not copy the last round into a zero-based plan', () => {
+    const state = createState({ iteration: 2, iterationHistory: played([{ diningOut: 1400 }]) })
+    expect(getTemplateAllocations('zeroBased', state)).toEqual(getTemplateAllocations('zeroBased', createState()))
+  })
+
+  it('gives every whole dollar a zero-based job', () => {
+    const state = createState({ categories: DEFAULT_CATEGORIES, paycheck: 2345.67, housingCost: 1000 })
+    const amounts = getTemplateAllocations('zeroBased', state)
+    expect(total(amounts)).toBe(Math.floor(getPeriodBudget(state).discretionaryIncome))
+    expect(Object.values(amounts).every(Number.isInteger)).toBe(true)
+  })
+
+  it('tops up envelopes with what each earlier round left in its own envelope', () => {
+    // A 300 premium charged in round 1 only shrinks that round's needs envelope to 100
+    const state = createState({
+      iteration: 3,
+      currentBalance: 100,
+      recurringExpenses: [{ id: 'expense-1', label: 'Insurance', amount: 300, frequency: 'annual' }],
+      iterationHistory: played([
+        { groceries: 100, diningOut: 600 },
+        { groceries: 300, diningOut: 600 }
+      ])
+    })
+    expect(getTemplateAllocations('envelope', state)).toEqual({ groceries: 500, diningOut: 600, savings: 400 })
+  })
+})
+
+describe('getEnvelopeCarryover', () => {
+  it('carries forward what each round left unspent in its own envelope', () => {
+    const carryover = getEnvelopeCarryover(CATEGORIES, [
+      { envelopes: { groceries: 400, diningOut: 200 }, allocations: spend({ groceries: 300, diningOut: 200 }) },
+      { envelopes: { groceries: 200, diningOut: 100 }, allocations: spend({ groceries: 250 }) },
+      { envelopes: { groceries: 300, diningOut: 100 }, allocations: spend({ groceries: 100, diningOut: 50 }) }
+    ])
+    expect(carryover).toEqual({ groceries: 250, diningOut: 150 })
+  })
+
+  it('never carries an overspent envelope below zero', () => {
+    const carryover = getEnvelopeCarryover(CATEGORIES, [
+      { envelopes: { groceries: 100, diningOut: 100 }, allocations: spend({ groceries: 400 }) },
+      { envelopes: { groceries: 100, diningOut: 100 }, allocations: spend({}) }
+    ])
+    expect(carryover).toEqual({ groceries: 100, diningOut: 200 })
+  })
+})
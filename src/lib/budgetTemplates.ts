@@ -0,0 +1,237 @@
+import type { BudgetAllocation, GameState } from '@/lib/allocationLogic'
+import type { BudgetCategory } from '@/lib/categories'
+import { getTotalDebt } from '@/lib/debtAccounts'
+import { getPeriodBudget } from '@/lib/roundEngine'
+
+// Budgeting-method templates that suggest how to split a round's discretionary
+// income across the player's categories. Categories fall into three buckets:
+// needs (spending marked essential), wants (other spending) and savings (savings,
+// investment and, while there is debt, debt repayment categories). Each bucket is
+// shared evenly between its categories.
+
+export type BudgetTemplate = 'fiftyThirtyTwenty' | 'zeroBased' | 'payYourselfFirst' | 'envelope'
+
+export const BUDGET_TEMPLATES: BudgetTemplate[] = ['fiftyThirtyTwenty', 'zeroBased', 'payYourselfFirst', 'envelope']
+
+type Bucket = 'needs' | 'wants' | 'savings'
+
+type BucketAmounts = Record<Bucket, number>
+
+const BUCKETS: Bucket[] = ['needs', 'wants', 'savings']
+
+// Shares of net income; fixed costs count towards needs
+export const FIFTY_THIRTY_TWENTY: BucketAmounts = { needs: 0.5, wants: 0.3, savings: 0.2 }
+
+// Pay yourself first: savings come off the top, the rest is split between needs and wants
+export const PAY_YOURSELF_FIRST_RATE = 0.2
+export const PAY_YOURSELF_FIRST_NEEDS_SHARE = 0.7
+
+// Order a zero-based plan funds its buckets in
+const ZERO_BASED_ORDER: Bucket[] = ['needs', 'savings', 'wants']
+
+export interface TemplateDeviationLine {
+  key: string
+  target: number
+  actual: number
+  difference: number
+}
+
+export interface TemplateDeviation {
+  lines: TemplateDeviationLine[]
+  // Sum of absolute differences ÷ total suggested by the template
+  deviationShare: number
+}
+
+function getBucket(category: BudgetCategory, hasDebt: boolean): Bucket | null {
+  switch (category.type) {
+    case 'spending':
+      return category.essential ? 'needs' : 'wants'
+    case 'debtRepayment':
+      return hasDebt ? 'savings' : null
+    default:
+      return 'savings'
+  }
+}
+
+// Spread bucket totals evenly over their categories. Money for a bucket without any
+// categories goes to savings, or to whichever bucket has categories.
+function splitBuckets(categories: BudgetCategory[], buckets: BucketAmounts, hasDebt: boolean): Record<string, number> {
+  const groups: Record<Bucket, string[]> = { needs: [], wants: [], savings: [] }
+  categories.forEach(category => {
+    const bucket = getBucket(category, hasDebt)
+    if (bucket) {
+      groups[bucket].push(category.key)
+    }
+  })
+
+  const totals = { ...buckets }
+  const orphaned = BUCKETS
+    .filter(bucket => groups[bucket].length === 0)
+    .reduce((total, bucket) => {
+      const amount = totals[bucket]
+      totals[bucket] = 0
+      return total + amount
+    }, 0)
+  const fallback = (['savings', 'needs', 'wants'] as Bucket[]).find(bucket => groups[bucket].length > 0)
+  if (fallback) {
+    totals[fallback] += orphaned
+  }
+
+  const amounts: Record<string, number> = Object.fromEntries(categories.map(category => [category.key, 0]))
+  BUCKETS.forEach(bucket => {
+    groups[bucket].forEach(key => {
+      amounts[key] = totals[bucket] / groups[bucket].length
+    })
+  })
+  return amounts
+}
+
+// Make the suggestion add up to exactly what is available: scale it down when it asks
+// for too much, and put anything left over into the savings bucket (or spread it
+// evenly when there is no savings category)
+function fitToAvailable(
+  amounts: Record<string, number>,
+  categories: BudgetCategory[],
+  available: number,
+  hasDebt: boolean
+): Record<string, number> {
+  const total = Object.values(amounts).reduce((sum, amount) => sum + amount, 0)
+  if (total > available) {
+    const factor = total > 0 ? available / total : 0
+    return Object.fromEntries(Object.entries(amounts).map(([key, amount]) => [key, amount * factor]))
+  }
+  const extra = available - total
+  const savingsKeys = categories.filter(category => getBucket(category, hasDebt) === 'savings').map(category => category.key)
+  const receivers = savingsKeys.length > 0 ? savingsKeys : categories.map(category => category.key)
+  return Object.fromEntries(Object.entries(amounts).map(([key, amount]) => [
+    key,
+    receivers.includes(key) ? amount + extra / receivers.length : amount
+  ]))
+}
+
+function roundDown(amounts: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(amounts).map(([key, amount]) => [key, Math.max(0, Math.floor(amount))]))
+}
+
+// Round down to whole dollars, then hand the dollars lost to rounding back to the
+// categories that lost the most, so the plan still uses every whole dollar available
+function roundToEveryDollar(amounts: Record<string, number>, available: number): Record<string, number> {
+  const rounded = roundDown(amounts)
+  const assigned = Object.values(rounded).reduce((sum, amount) => sum + amount, 0)
+  const leftover = Math.floor(available) - assigned
+  Object.keys(amounts)
+    .sort((a, b) => (amounts[b] - rounded[b]) - (amounts[a] - rounded[a]))
+    .slice(0, Math.max(0, leftover))
+    .forEach(key => {
+      rounded[key] += 1
+    })
+  return rounded
+}
+
+// 50/30/20 bucket totals for one round of net income; fixed costs come out of needs
+function getFiftyThirtyTwentyBuckets(state: GameState): BucketAmounts {
+  const { income, fixedCosts } = getPeriodBudget(state)
+  return {
+    needs: Math.max(0, income * FIFTY_THIRTY_TWENTY.needs - fixedCosts),
+    wants: income * FIFTY_THIRTY_TWENTY.wants,
+    savings: income * FIFTY_THIRTY_TWENTY.savings
+  }
+}
+
+// 50/30/20 envelopes for one round of net income before fitting them to the money available
+function getFiftyThirtyTwentyAmounts(state: GameState, hasDebt: boolean): Record<string, number> {
+  return splitBuckets(state.categories, getFiftyThirtyTwentyBuckets(state), hasDebt)
+}
+
+// Zero-based plan built up from nothing: needs, then savings, then wants are each funded
+// up to their 50/30/20 share while the money lasts, and every dollar still unassigned
+// goes to savings
+function getZeroBasedAmounts(state: GameState, available: number, hasDebt: boolean): Record<string, number> {
+  const targets = getFiftyThirtyTwentyBuckets(state)
+  const buckets: BucketAmounts = { needs: 0, wants: 0, savings: 0 }
+  let remaining = available
+  ZERO_BASED_ORDER.forEach(bucket => {
+    buckets[bucket] = Math.min(targets[bucket], remaining)
+    remaining -= buckets[bucket]
+  })
+  return fitToAvailable(splitBuckets(state.categories, buckets, hasDebt), state.categories, available, hasDebt)
+}
+
+// Unspent envelope money per spending category, carried from round to round:
+// each round adds its own envelope and takes away what was allocated
+export function getEnvelopeCarryover(
+  categories: BudgetCategory[],
+  rounds: { envelopes: Record<string, number>; allocations: Record<string, BudgetAllocation> }[]
+): Record<string, number> {
+  const spendingKeys = categories.filter(category => category.type === 'spending').map(category => category.key)
+  const carryover: Record<string, number> = Object.fromEntries(spendingKeys.map(key => [key, 0]))
+  rounds.forEach(round => {
+    spendingKeys.forEach(key => {
+      carryover[key] = Math.max(0, carryover[key] + (round.envelopes[key] || 0) - (round.allocations[key]?.amount || 0))
+    })
+  })
+  return carryover
+}
+
+// The envelopes each played round was given, from that round's fixed costs and the
+// debt carried into it (games start debt-free)
+function getPlayedEnvelopes(state: GameState) {
+  return state.iterationHistory.map((item, index) => ({
+    envelopes: getFiftyThirtyTwentyAmounts(
+      { ...state, iteration: item.iteration },
+      index > 0 && state.iterationHistory[index - 1].debt > 0
+    ),
+    allocations: item.allocations
+  }))
+}
+
+// Suggested amount per category key for the current round
+export function getTemplateAllocations(template: BudgetTemplate, state: GameState): Record<string, number> {
+  const available = Math.max(0, getPeriodBudget(state).discretionaryIncome)
+  const hasDebt = getTotalDebt(state.debtAccounts) > 0
+  const categories = state.categories
+
+  switch (template) {
+    case 'fiftyThirtyTwenty':
+      return roundDown(fitToAvailable(getFiftyThirtyTwentyAmounts(state, hasDebt), categories, available, hasDebt))
+
+    // Give every dollar a job, starting from an empty plan
+    case 'zeroBased':
+      return roundToEveryDollar(getZeroBasedAmounts(state, available, hasDebt), available)
+
+    case 'payYourselfFirst': {
+      const savings = Math.min(available, getPeriodBudget(state).income * PAY_YOURSELF_FIRST_RATE)
+      const rest = available - savings
+      return roundDown(splitBuckets(categories, {
+        needs: rest * PAY_YOURSELF_FIRST_NEEDS_SHARE,
+        wants: rest * (1 - PAY_YOURSELF_FIRST_NEEDS_SHARE),
+        savings
+      }, hasDebt))
+    }
+
+    // 50/30/20 envelopes topped up with whatever earlier rounds left unspent in them
+    case 'envelope': {
+      const envelopes = getFiftyThirtyTwentyAmounts(state, hasDebt)
+      const carryover = getEnvelopeCarryover(categories, getPlayedEnvelopes(state))
+      const amounts = Object.fromEntries(Object.entries(envelopes).map(([key, amount]) => [key, amount + (carryover[key] || 0)]))
+      return roundDown(fitToAvailable(amounts, categories, available, hasDebt))
+    }
+  }
+}
+
+// How far the player's allocations ended up from the template's suggestion
+export function getTemplateDeviation(
+  targets: Record<string, number>,
+  allocations: Record<string, BudgetAllocation>
+): TemplateDeviation {
+  const lines = Object.entries(targets).map(([key, target]) => {
+    const actual = allocations[key]?.amount || 0
+    return { key, target, actual, difference: actual - target }
+  })
+  const targetTotal = lines.reduce((sum, line) => sum + line.target, 0)
+  const absoluteDifference = lines.reduce((sum, line) => sum + Math.abs(line.difference), 0)
+  return {
+    lines,
+    deviationShare: targetTotal > 0 ? absoluteDifference / targetTotal : 0
+  }
+}
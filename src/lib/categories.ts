@@ -0,0 +1,60 @@
+// Budget categories the player allocates to each round. Built-in categories are
+// labelled from the `categories` namespace of messages/*.json; players can rename,
+// re-emoji or remove them and add their own before the first round.
+
+// What allocating to a category does with the money
+export type CategoryType = 'spending' | 'savings' | 'investment' | 'debtRepayment'
+
+export const CATEGORY_TYPES: CategoryType[] = ['spending', 'savings', 'investment', 'debtRepayment']
+
+export interface BudgetCategory {
+  // Stable identity used to key allocations, history and event conditions
+  key: string
+  emoji: string
+  type: CategoryType
+  // Player-chosen label; built-in categories use their translation when unset
+  label?: string
+  // Spending on needs rather than wants
+  essential?: boolean
+  builtIn?: boolean
+}
+
+export const DEFAULT_CATEGORIES: BudgetCategory[] = [
+  { key: 'transportation', essential: true, emoji: '🚗', type: 'spending', builtIn: true },
+  { key: 'groceries', essential: true, emoji: '🛒', type: 'spending', builtIn: true },
+  { key: 'diningOut', emoji: '🍽️', type: 'spending', builtIn: true },
+  { key: 'healthcare', essential: true, emoji: '🏥', type: 'spending', builtIn: true },
+  { key: 'entertainment', emoji: '🎮', type: 'spending', builtIn: true },
+  { key: 'internetPhone', essential: true, emoji: '📱', type: 'spending', builtIn: true },
+  { key: 'miscellaneous', emoji: '🛍️', type: 'spending', builtIn: true },
+  { key: 'savings', emoji: '💰', type: 'savings', builtIn: true },
+  { key: 'investments', emoji: '📈', type: 'investment', builtIn: true },
+  { key: 'debtRepayment', emoji: '💳', type: 'debtRepayment', builtIn: true }
+]
+
+export const CUSTOM_CATEGORY_PREFIX = 'custom-'
+export const DEFAULT_CUSTOM_EMOJI = '🧩'
+
+// Semantic type of a category; unknown keys are treated as plain spending
+export function getCategoryType(categories: BudgetCategory[], key: string): CategoryType {
+  return categories.find(category => category.key === key)?.type || 'spending'
+}
+
+// New player-defined category with a key that does not clash with existing ones
+export function createCustomCategory(
+  categories: BudgetCategory[],
+  label: string,
+  emoji: string = DEFAULT_CUSTOM_EMOJI,
+  type: CategoryType = 'spending'
+): BudgetCategory {
+  const used = categories
+    .filter(category => category.key.startsWith(CUSTOM_CATEGORY_PREFIX))
+    .map(category => Number(category.key.slice(CUSTOM_CATEGORY_PREFIX.length)) || 0)
+  const next = Math.max(0, ...used) + 1
+  return { key: `${CUSTOM_CATEGORY_PREFIX}${next}`, emoji, type, label }
+}
+
+// Every category needs a label to show: custom ones must be named by the player
+export function isValidCategoryList(categories: BudgetCategory[]): boolean {
+  return categories.length > 0 && categories.every(category => category.builtIn || !!category.label?.trim())
+}
@@ -0,0 +1,254 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { GameState } from '@/lib/allocationLogic'
+import {
+  arrayOf,
+  boolean,
+  financialGoalSchema,
+  number,
+  object,
+  oneOf,
+  preTaxDeductionsSchema,
+  recurringExpenseSchema,
+  string,
+  validate
+} from '@/lib/gameStateSchema'
+import type { FinancialGoal } from '@/lib/goals'
+import { MAX_SAVINGS_APY } from '@/lib/investments'
+import { PAY_FREQUENCIES } from '@/lib/payFrequency'
+import type { RecurringExpense } from '@/lib/recurringExpenses'
+import { MAX_TOTAL_ROUNDS, MIN_TOTAL_ROUNDS } from '@/lib/roundEngine'
+import type { CostEstimates } from '@/lib/saveGames'
+import { findTaxJurisdictions, type PreTaxDeductions } from '@/lib/taxes'
+
+// Challenge links: everything needed to start the same game as someone else,
+// packed into a URL token "<version>.<payload>.<signature>". The payload is a
+// positional JSON array in base64url and the signature is an HMAC over the version
+// and payload, so an edited link is rejected rather than silently played.
+// Server-only: signing needs CHALLENGE_SECRET.
+
+// Bump when the payload layout changes; older links are then rejected
+export const CHALLENGE_VERSION = 1
+
+// Bytes of the HMAC kept in the token
+const SIGNATURE_BYTES = 16
+
+export interface ChallengeConfig {
+  grossMonthlySalary: number
+  location: string
+  // Monthly housing and utility costs and the flat tax rate
+  costs: CostEstimates
+  useFlatTaxRate: boolean
+  preTaxDeductions: PreTaxDeductions
+  payFrequency: GameState['payFrequency']
+  totalRounds: number
+  savingsApy: number
+  seed: number
+  recurringExpenses: RecurringExpense[]
+  goals: FinancialGoal[]
+}
+
+export type ChallengeResult =
+  | { ok: true; config: ChallengeConfig; id: string }
+  | { ok: false; error: 'unavailable' | 'malformed' | 'unsupportedVersion' | 'tampered' | 'invalid' }
+
+const amount = number({ min: 0 })
+
+export const challengeConfigSchema = object({
+  grossMonthlySalary: amount,
+  location: string,
+  costs: object({
+    housing_cost: amount,
+    utility_cost: amount,
+    tax_rate: number({ min: 0, max: 100 })
+  }),
+  useFlatTaxRate: boolean,
+  preTaxDeductions: preTaxDeductionsSchema,
+  payFrequency: oneOf(PAY_FREQUENCIES.map(entry => entry.key)),
+  totalRounds: number({ min: MIN_TOTAL_ROUNDS, max: MAX_TOTAL_ROUNDS, integer: true }),
+  savingsApy: number({ min: 0, max: MAX_SAVINGS_APY }),
+  seed: number({ min: 0, integer: true }),
+  recurringExpenses: arrayOf(recurringExpenseSchema),
+  goals: arrayOf(financialGoalSchema)
+})
+
+// Version 1 layout. Ids are left out and rebuilt from the position on decode.
+type ChallengePayload = [
+  grossMonthlySalary: number,
+  location: string,
+  housingCost: number,
+  utilityCost: number,
+  taxRate: number,
+  useFlatTaxRate: 0 | 1,
+  retirementRate: number,
+  hsaMonthly: number,
+  payFrequency: string,
+  totalRounds: number,
+  savingsApy: number,
+  seed: number,
+  recurringExpenses: [label: string, amount: number, frequency: string, startRound: number][],
+  goals: [type: string, targetAmount: number, deadlineMonth: number, label: string][]
+]
+
+function toExpensesPayload(expenses: RecurringExpense[]): ChallengePayload[12] {
+  return expenses.map(expense => [expense.label, expense.amount, expense.frequency, expense.startRound || 0])
+}
+
+function toGoalsPayload(goals: FinancialGoal[]): ChallengePayload[13] {
+  return goals.map(goal => [goal.type, goal.targetAmount, goal.deadlineMonth || 0, goal.label || ''])
+}
+
+function toPayload(config: ChallengeConfig): ChallengePayload {
+  return [
+    config.grossMonthlySalary,
+    config.location,
+    config.costs.housing_cost,
+    config.costs.utility_cost,
+    config.costs.tax_rate,
+    config.useFlatTaxRate ? 1 : 0,
+    config.preTaxDeductions.retirementRate,
+    config.preTaxDeductions.hsaMonthly,
+    config.payFrequency,
+    config.totalRounds,
+    config.savingsApy,
+    config.seed,
+    toExpensesPayload(config.recurringExpenses),
+    toGoalsPayload(config.goals)
+  ]
+}
+
+// Rebuild the config; anything of the wrong type is left for the schema to report
+function fromPayload(payload: ChallengePayload): ChallengeConfig {
+  const [
+    grossMonthlySalary,
+    location,
+    housingCost,
+    utilityCost,
+    taxRate,
+    useFlatTaxRate,
+    retirementRate,
+    hsaMonthly,
+    payFrequency,
+    totalRounds,
+    savingsApy,
+    seed,
+    recurringExpenses,
+    goals
+  ] = payload
+
+  return {
+    grossMonthlySalary,
+    location,
+    costs: { housing_cost: housingCost, utility_cost: utilityCost, tax_rate: taxRate },
+    useFlatTaxRate: useFlatTaxRate === 1,
+    preTaxDeductions: { retirementRate, hsaMonthly },
+    payFrequency: payFrequency as ChallengeConfig['payFrequency'],
+    totalRounds,
+    savingsApy,
+    seed,
+    recurringExpenses: (Array.isArray(recurringExpenses) ? recurringExpenses : []).map(([label, amount, frequency, startRound], index) => ({
+      id: `expense-${index + 1}`,
+      label,
+      amount,
+      frequency: frequency as RecurringExpense['frequency'],
+      ...(startRound ? { startRound } : {})
+    })),
+    goals: (Array.isArray(goals) ? goals : []).map(([type, targetAmount, deadlineMonth, label], index) => ({
+      id: `goal-${index + 1}`,
+      type: type as FinancialGoal['type'],
+      targetAmount,
+      ...(deadlineMonth ? { deadlineMonth } : {}),
+      ...(label ? { label } : {})
+    }))
+  }
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest().subarray(0, SIGNATURE_BYTES).toString('base64url')
+}
+
+// The secret used to sign links, or null when the server has none configured
+export function getChallengeSecret(): string | null {
+  return process.env.CHALLENGE_SECRET || null
+}
+
+export function createChallengeToken(config: ChallengeConfig, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(toPayload(config)), 'utf8').toString('base64url')
+  const signed = `${CHALLENGE_VERSION}.${payload}`
+  return `${signed}.${sign(signed, secret)}`
+}
+
+// Verify and decode a token. The signature doubles as the challenge's id, since
+// it is unique to the settings it covers.
+export function readChallengeToken(token: string, secret: string | null): ChallengeResult {
+  if (!secret) {
+    return { ok: false, error: 'unavailable' }
+  }
+
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    return { ok: false, error: 'malformed' }
+  }
+  const [version, payload, signature] = parts
+  if (version !== String(CHALLENGE_VERSION)) {
+    return { ok: false, error: 'unsupportedVersion' }
+  }
+
+  const expected = Buffer.from(sign(`${version}.${payload}`, secret))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { ok: false, error: 'tampered' }
+  }
+
+  let config: ChallengeConfig
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    if (!Array.isArray(decoded)) {
+      return { ok: false, error: 'malformed' }
+    }
+    config = fromPayload(decoded as ChallengePayload)
+  } catch {
+    return { ok: false, error: 'malformed' }
+  }
+  if (validate(challengeConfigSchema, config).length > 0) {
+    return { ok: false, error: 'invalid' }
+  }
+  return { ok: true, config, id: signature }
+}
+
+export interface ChallengeDifference {
+  field: string
+  expected: string
+  reported: string
+}
+
+// The first setting a game was not started with as the challenge says, or null when
+// it matches. Ids of expenses and goals are left out, since links do not carry them.
+export function findChallengeDifference(state: GameState, config: ChallengeConfig): ChallengeDifference | null {
+  // The game is taxed at the challenge's rate when it asks for a flat rate or the
+  // tables do not know the place, as when it was started
+  const flatTaxRate = config.useFlatTaxRate || findTaxJurisdictions(config.location).length === 0
+    ? config.costs.tax_rate
+    : null
+  const settings: [string, unknown, unknown][] = [
+    ['grossMonthlySalary', config.grossMonthlySalary, state.grossMonthlySalary],
+    ['location', config.location, state.location],
+    ['housingCost', config.costs.housing_cost, state.housingCost],
+    ['utilityCost', config.costs.utility_cost, state.utilityCost],
+    ['flatTaxRate', flatTaxRate, state.flatTaxRate ?? null],
+    ['preTaxDeductions',
+      [config.preTaxDeductions.retirementRate, config.preTaxDeductions.hsaMonthly],
+      [state.preTaxDeductions?.retirementRate, state.preTaxDeductions?.hsaMonthly]],
+    ['payFrequency', config.payFrequency, state.payFrequency],
+    ['totalRounds', config.totalRounds, state.totalRounds],
+    ['savingsApy', config.savingsApy, state.savingsApy],
+    ['seed', config.seed, state.seed],
+    ['recurringExpenses', toExpensesPayload(config.recurringExpenses), toExpensesPayload(state.recurringExpenses)],
+    ['goals', toGoalsPayload(config.goals), toGoalsPayload(state.goals)]
+  ]
+  for (const [field, expected, reported] of settings) {
+    if (JSON.stringify(expected) !== JSON.stringify(reported)) {
+      return { field, expected: JSON.stringify(expected), reported: JSON.stringify(reported) }
+    }
+  }
+  return null
+}
@@ -0,0 +1,104 @@
+import type { GameState } from '@/lib/allocationLogic'
+import type { ChallengeConfig } from '@/lib/challenge'
+import type { LetterGrade } from '@/lib/scoring'
+import type { SaveStorage } from '@/lib/saveGames'
+
+// Classroom sessions: a teacher fixes the game settings once and students join
+// with a short code, so the whole class plays the same salary, place and events.
+// Shared between the server store and the browser.
+
+// No 0/O or 1/I so codes read out loud in a workshop are typed correctly
+export const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+export const JOIN_CODE_LENGTH = 6
+
+export const MAX_CLASSROOM_NAME_LENGTH = 60
+export const MAX_STUDENT_NAME_LENGTH = 40
+
+// Teacher keys are kept in localStorage under this key, by join code
+export const TEACHER_KEYS_STORAGE_KEY = 'budget-game:classrooms'
+
+// What students see before joining; the teacher key never leaves the server
+export interface ClassroomSession {
+  code: string
+  name: string
+  createdAt: string
+  config: ChallengeConfig
+}
+
+export interface ClassroomStudent {
+  id: string
+  name: string
+  joinedAt: string
+  // Stored game the student plays in
+  gameId: string
+}
+
+// One row of the teacher dashboard
+export interface StudentProgress {
+  id: string
+  name: string
+  joinedAt: string
+  // null when the student's game is no longer in the store
+  stage: GameState['stage'] | null
+  roundsPlayed: number
+  totalRounds: number
+  balance: number
+  savings: number
+  debt: number
+  goalsMet: number
+  goalsTotal: number
+  // Rounds the student borrowed in
+  debtRounds: number[]
+  grade: LetterGrade | null
+  updatedAt: string | null
+}
+
+// Upper-case and drop spaces and dashes, so "abc-123" matches "ABC123"
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]+/g, '')
+}
+
+export function isJoinCode(code: string): boolean {
+  return code.length === JOIN_CODE_LENGTH &&
+    [...code].every(character => JOIN_CODE_ALPHABET.includes(character))
+}
+
+type SessionSettings = Pick<
+  GameState,
+  'seed' | 'location' | 'grossMonthlySalary' | 'payFrequency' | 'totalRounds' | 'housingCost' | 'utilityCost'
+>
+
+// True when a game is played with the session's settings
+export function playsSessionSettings(game: SessionSettings, config: ChallengeConfig): boolean {
+  return game.seed === config.seed &&
+    game.location === config.location &&
+    game.grossMonthlySalary === config.grossMonthlySalary &&
+    game.payFrequency === config.payFrequency &&
+    game.totalRounds === config.totalRounds &&
+    game.housingCost === config.costs.housing_cost &&
+    game.utilityCost === config.costs.utility_cost
+}
+
+function readTeacherKeys(storage: SaveStorage): Record<string, string> {
+  try {
+    const parsed = JSON.parse(storage.getItem(TEACHER_KEYS_STORAGE_KEY) || '{}')
+    return typeof parsed === 'object' && parsed !== null ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+export function loadTeacherKey(storage: SaveStorage, code: string): string | null {
+  const key = readTeacherKeys(storage)[code]
+  return typeof key === 'string' ? key : null
+}
+
+// Returns false when storage is unavailable or full
+export function storeTeacherKey(storage: SaveStorage, code: string, teacherKey: string): boolean {
+  try {
+    storage.setItem(TEACHER_KEYS_STORAGE_KEY, JSON.stringify({ ...readTeacherKeys(storage), [code]: teacherKey }))
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,87 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { GameState } from '@/lib/allocationLogic'
+import type { ChallengeConfig } from '@/lib/challenge'
+import { createClassroom, getClassroomProgress, joinClassroom } from '@/lib/classroomStore'
+import { createGame } from '@/lib/gameStore'
+import { createRunState, playRun } from '@/test/runs'
+
+const CONFIG: ChallengeConfig = {
+  grossMonthlySalary: 4000,
+  location: 'Austin, TX',
+  costs: { housing_cost: 1200, utility_cost: 200, tax_rate: 20 },
+  useFlatTaxRate: false,
+  preTaxDeductions: { retirementRate: 0, hsaMonthly: 0 },
+  payFrequency: 'monthly',
+  totalRounds: 6,
+  savingsApy: 0.04,
+  seed: 777,
+  recurringExpenses: [],
+  goals: []
+}
+
+function playSessionGame(): GameState {
+  return playRun(createRunState({
+    grossMonthlySalary: CONFIG.grossMonthlySalary,
+    location: CONFIG.location,
+    payFrequency: CONFIG.payFrequency,
+    totalRounds: CONFIG.totalRounds,
+    housingCost: CONFIG.costs.housing_cost,
+    utilityCost: CONFIG.costs.utility_cost,
+    seed: CONFIG.seed
+  }))
+}
+
+describe('classroom store', () => {
+  let dir = ''
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'classrooms-'))
+    process.env.GAME_STORE_DIR = path.join(dir, 'games')
+    process.env.CLASSROOM_STORE_DIR = path.join(dir, 'classrooms')
+  })
+
+  afterEach(async () => {
+    delete process.env.GAME_STORE_DIR
+    delete process.env.CLASSROOM_STORE_DIR
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('registers a game once however often it joins', async () => {
+    const { classroom, teacherKey } = await createClassroom(CONFIG, 'Class')
+    const { game, writeKey } = await createGame(playSessionGame(), 'Run')
+
+    const first = await joinClassroom(classroom.code, 'Ana', game.id, writeKey)
+    const second = await joinClassroom(classroom.code, 'Ana', game.id, writeKey)
+    expect(first.ok && second.ok && second.student.id === first.student.id).toBe(true)
+
+    const progress = await getClassroomProgress(classroom.code, teacherKey)
+    expect(progress.ok && progress.students.length).toBe(1)
+  })
+
+  it('registers a game once when it joins twice at the same moment', async () => {
+    const { classroom, teacherKey } = await createClassroom(CONFIG, 'Class')
+    const { game, writeKey } = await createGame(playSessionGame(), 'Run')
+
+    const joins = await Promise.all([
+      joinClassroom(classroom.code, 'Ana', game.id, writeKey),
+      joinClassroom(classroom.code, 'Ana', game.id, writeKey)
+    ])
+    const ids = joins.map(join => join.ok && join.student.id)
+    expect(ids[0] && ids[0] === ids[1]).toBe(true)
+
+    const progress = await getClassroomProgress(classroom.code, teacherKey)
+    expect(progress.ok && progress.students.length).toBe(1)
+  })
+
+  it('lists the rounds a student borrowed in', async () => {
+    const { classroom, teacherKey } = await createClassroom(CONFIG, 'Class')
+    const { game, writeKey } = await createGame(playSessionGame(), 'Run')
+    await joinClassroom(classroom.code, 'Ana', game.id, writeKey)
+
+    const progress = await getClassroomProgress(classroom.code, teacherKey)
+    expect(progress.ok && progress.students[0].debtRounds).toEqual([2, 4])
+  })
+})
@@ -0,0 +1,229 @@
+import { randomInt, randomUUID } from 'crypto'
+import { mkdir, readdir } from 'fs/promises'
+import path from 'path'
+import type { ChallengeConfig } from '@/lib/challenge'
+import {
+  isJoinCode,
+  JOIN_CODE_ALPHABET,
+  JOIN_CODE_LENGTH,
+  MAX_CLASSROOM_NAME_LENGTH,
+  MAX_STUDENT_NAME_LENGTH,
+  playsSessionSettings,
+  type ClassroomSession,
+  type ClassroomStudent,
+  type StudentProgress
+} from '@/lib/classroom'
+import { getTotalDebt } from '@/lib/debtAccounts'
+import {
+  createJsonFile,
+  createSecretKey,
+  getStoreDir,
+  hashKey,
+  matchesKeyHash,
+  readJsonFile,
+  resolveStorePath,
+  writeJsonFile
+} from '@/lib/fileStore'
+import { getGame, getOwnedGame, type StoredGame } from '@/lib/gameStore'
+import { evaluateGoals } from '@/lib/goals'
+import { joinRunParts } from '@/lib/runFile'
+
+// Server-side storage of classroom sessions under CLASSROOM_STORE_DIR (default
+// ".data/classrooms"): a directory per join code holding the session and one file
+// per student named after their game, so students joining at the same moment never
+// overwrite each other and a game can only be registered once.
+// Student progress is read from their games in the game store. Server-only.
+
+interface SessionRecord extends ClassroomSession {
+  teacherKeyHash: string
+}
+
+export type ClassroomJoinResult =
+  | { ok: true; student: ClassroomStudent }
+  | { ok: false; error: 'notFound' | 'forbidden' | 'mismatch' }
+
+export type ClassroomProgressResult =
+  | { ok: true; classroom: ClassroomSession; students: StudentProgress[] }
+  | { ok: false; error: 'notFound' | 'forbidden' }
+
+// Attempts at an unused join code before giving up
+const MAX_CODE_ATTEMPTS = 10
+
+function getClassroomStoreDir(): string {
+  return getStoreDir('CLASSROOM_STORE_DIR', 'classrooms')
+}
+
+function hasTeacherKey(record: SessionRecord, teacherKey: string): boolean {
+  return matchesKeyHash(record.teacherKeyHash, teacherKey)
+}
+
+function toSession(record: SessionRecord): ClassroomSession {
+  return {
+    code: record.code,
+    name: record.name,
+    createdAt: record.createdAt,
+    config: record.config
+  }
+}
+
+function createJoinCode(): string {
+  return Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]).join('')
+}
+
+async function readSession(code: string): Promise<SessionRecord | null> {
+  const file = resolveStorePath(getClassroomStoreDir(), code, isJoinCode, code, 'session.json')
+  return file ? readJsonFile<SessionRecord>(file) : null
+}
+
+// Expects a config that already passed challengeConfigSchema
+export async function createClassroom(
+  config: ChallengeConfig,
+  name: string
+): Promise<{ classroom: ClassroomSession; teacherKey: string }> {
+  const teacherKey = createSecretKey()
+  await mkdir(getClassroomStoreDir(), { recursive: true })
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = createJoinCode()
+    const dir = path.join(getClassroomStoreDir(), code)
+    try {
+      // Fails when the code is taken, which also guards against two teachers racing for it
+      await mkdir(dir)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        continue
+      }
+      throw error
+    }
+
+    const record: SessionRecord = {
+      code,
+      name: name.slice(0, MAX_CLASSROOM_NAME_LENGTH),
+      createdAt: new Date().toISOString(),
+      config,
+      teacherKeyHash: hashKey(teacherKey)
+    }
+    await mkdir(path.join(dir, 'students'))
+    await writeJsonFile(path.join(dir, 'session.json'), record)
+    return { classroom: toSession(record), teacherKey }
+  }
+  throw new Error('No unused join code found')
+}
+
+export async function getClassroom(code: string): Promise<ClassroomSession | null> {
+  const record = await readSession(code)
+  return record ? toSession(record) : null
+}
+
+// Add a student and the stored game they play in. The write key proves the game
+// is theirs; the game must use the session's settings. Joining again with the
+// same game returns the student it already belongs to.
+export async function joinClassroom(
+  code: string,
+  name: string,
+  gameId: string,
+  writeKey: string
+): Promise<ClassroomJoinResult> {
+  const record = await readSession(code)
+  if (!record) {
+    return { ok: false, error: 'notFound' }
+  }
+  const access = await getOwnedGame(gameId, writeKey)
+  if (!access.ok) {
+    return { ok: false, error: access.error }
+  }
+  if (!playsSessionSettings(access.game.config, record.config)) {
+    return { ok: false, error: 'mismatch' }
+  }
+
+  const student: ClassroomStudent = {
+    id: randomUUID(),
+    name: name.slice(0, MAX_STUDENT_NAME_LENGTH),
+    joinedAt: new Date().toISOString(),
+    gameId
+  }
+  // The game id was checked by getOwnedGame. Creating the file fails when the game
+  // joined before, even a moment ago, and then the student already stored is returned.
+  const file = path.join(getClassroomStoreDir(), code, 'students', `${gameId}.json`)
+  if (await createJsonFile(file, student)) {
+    return { ok: true, student }
+  }
+  const existing = await readJsonFile<ClassroomStudent>(file)
+  if (!existing) {
+    throw new Error(`Unreadable student file for game ${gameId}`)
+  }
+  return { ok: true, student: existing }
+}
+
+// Students of a session that passed readSession, in the order they joined
+async function readStudents(code: string): Promise<ClassroomStudent[]> {
+  const dir = path.join(getClassroomStoreDir(), code, 'students')
+  let files: string[]
+  try {
+    files = await readdir(dir)
+  } catch {
+    files = []
+  }
+  return (await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJsonFile<ClassroomStudent>(path.join(dir, file)))
+  ))
+    .filter((student): student is ClassroomStudent => student !== null)
+    .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt))
+}
+
+function summarizeProgress(student: ClassroomStudent, game: StoredGame | null, totalRounds: number): StudentProgress {
+  const base = { id: student.id, name: student.name, joinedAt: student.joinedAt }
+  if (!game) {
+    return {
+      ...base,
+      stage: null,
+      roundsPlayed: 0,
+      totalRounds,
+      balance: 0,
+      savings: 0,
+      debt: 0,
+      goalsMet: 0,
+      goalsTotal: 0,
+      debtRounds: [],
+      grade: null,
+      updatedAt: null
+    }
+  }
+
+  const state = joinRunParts(game)
+  const goals = evaluateGoals(state, state.stage === 'game_over')
+  return {
+    ...base,
+    stage: state.stage,
+    roundsPlayed: state.iterationHistory.length,
+    totalRounds: state.totalRounds,
+    balance: state.currentBalance,
+    savings: state.savings,
+    debt: getTotalDebt(state.debtAccounts),
+    goalsMet: goals.filter(goal => goal.status === 'met' || goal.status === 'metEarly').length,
+    goalsTotal: goals.length,
+    debtRounds: state.iterationHistory
+      .filter(round => round.score.flows.usedDebt)
+      .map(round => round.iteration),
+    grade: game.finalScore?.grade || null,
+    updatedAt: game.updatedAt
+  }
+}
+
+// The session and every student's progress, in the order they joined
+export async function getClassroomProgress(code: string, teacherKey: string): Promise<ClassroomProgressResult> {
+  const record = await readSession(code)
+  if (!record) {
+    return { ok: false, error: 'notFound' }
+  }
+  if (!hasTeacherKey(record, teacherKey)) {
+    return { ok: false, error: 'forbidden' }
+  }
+
+  const students = await readStudents(code)
+  const progress = await Promise.all(
+    students.map(async student => summarizeProgress(student, await getGame(student.gameId), record.config.totalRounds))
+  )
+  return { ok: true, classroom: toSession(record), students: progress }
+}
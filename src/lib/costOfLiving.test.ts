@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { findCityCosts } from '@/lib/costOfLiving'
+
+describe('findCityCosts', () => {
+  it('is certain about a city named with its state or country', () => {
+    expect(findCityCosts('Austin, TX')?.provenance).toMatchObject({ city: 'Austin, TX', confidence: 'high' })
+    expect(findCityCosts('Atlanta, Georgia')?.provenance).toMatchObject({ city: 'Atlanta, GA', confidence: 'high' })
+    expect(findCityCosts('Lisboa, Portugal')?.provenance.confidence).toBe('high')
+  })
+
+  it('tells Washington, DC apart from Washington state', () => {
+    expect(findCityCosts('Washington, DC')?.provenance.city).toBe('Washington, DC')
+    expect(findCityCosts('Seattle, Washington')?.provenance.city).toBe('Seattle, WA')
+  })
+
+  it('does not match cities in another country', () => {
+    expect(findCityCosts('San Jose, Costa Rica')).toBeNull()
+    expect(findCityCosts('Tbilisi, Georgia')).toBeNull()
+  })
+})
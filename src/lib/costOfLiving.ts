@@ -0,0 +1,163 @@
+import dataset from '@/data/costOfLiving.json'
+import {
+  arrayOf,
+  number,
+  object,
+  optional,
+  recordOf,
+  string,
+  validate
+} from '@/lib/gameStateSchema'
+import {
+  matchAliases,
+  namesCountry,
+  namesOtherCountry,
+  normalizePlaceName,
+  parseLocation,
+  type ParsedLocation
+} from '@/lib/locationMatch'
+import type { CostEstimates } from '@/lib/saveGames'
+
+// Bundled cost-of-living figures for well-known cities (src/data/costOfLiving.json).
+// Location lookups use these first; a language model only estimates places the
+// dataset does not know, and every result says where its numbers came from.
+
+export type CostSource = 'dataset' | 'llm' | 'default'
+
+// high: a dataset city the location clearly names
+// medium: a dataset city matched less certainly, e.g. the state or region given does not confirm it
+// low: a language model estimate
+// none: fallback values that say nothing about the place
+export type CostConfidence = 'high' | 'medium' | 'low' | 'none'
+
+export interface CostProvenance {
+  source: CostSource
+  confidence: CostConfidence
+  // Dataset city the figures belong to
+  city?: string
+  // Dataset version and year of the figures
+  version?: number
+  year?: number
+}
+
+export type LocationCostResult = CostEstimates & { provenance: CostProvenance }
+
+export interface CityCosts {
+  id: string
+  city: string
+  // State or province code, where it helps tell cities apart
+  region?: string
+  // ISO country code
+  country: string
+  aliases: string[]
+  // Monthly, in USD
+  housing: number
+  utilities: number
+  // Effective tax rate in percent
+  taxRate: number
+}
+
+export interface CostDataset {
+  version: number
+  year: number
+  currency: string
+  source: string
+  // Region names by "<country>-<region>" code
+  regions: Record<string, string[]>
+  cities: CityCosts[]
+}
+
+// Returned when neither the dataset nor a language model has figures
+export const DEFAULT_COSTS: CostEstimates = { housing_cost: 1200, utility_cost: 200, tax_rate: 25 }
+
+const names = arrayOf(string)
+const amount = number({ min: 0 })
+
+const costDatasetSchema = object({
+  version: number({ min: 1, integer: true }),
+  year: number({ integer: true }),
+  currency: string,
+  source: string,
+  regions: recordOf(names),
+  cities: arrayOf(object({
+    id: string,
+    city: string,
+    region: optional(string),
+    country: string,
+    aliases: names,
+    housing: amount,
+    utilities: amount,
+    taxRate: number({ min: 0, max: 100 })
+  }))
+})
+
+// A broken data file should fail the build, not hand out wrong numbers
+const datasetIssues = validate(costDatasetSchema, dataset, 'costOfLiving')
+if (datasetIssues.length > 0) {
+  throw new Error(`Invalid cost-of-living dataset: ${datasetIssues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`)
+}
+
+export const COST_DATASET = dataset as CostDataset
+
+// Names of a city's state or region, e.g. "texas" for a city in US-TX
+function getRegionNames(city: CityCosts): string[] {
+  if (!city.region) return []
+  return [city.region, ...(COST_DATASET.regions[`${city.country}-${city.region}`] || [])].map(normalizePlaceName)
+}
+
+interface CityMatch {
+  city: CityCosts
+  // The whole city part of the location is one of the city's names
+  exact: boolean
+  // Another part of the location names the city's region or country
+  confirmed: boolean
+}
+
+function matchCity(city: CityCosts, location: ParsedLocation): CityMatch | null {
+  const regionNames = getRegionNames(city)
+  // A location that names another country is not this city, e.g. "Porto Alegre, Brazil"
+  if (namesOtherCountry(city.country, [...city.aliases, ...regionNames], location)) {
+    return null
+  }
+
+  const match = matchAliases(city.aliases, location)
+  if (!match) {
+    return null
+  }
+
+  const qualifiers = location.parts.filter((_, index) => index !== match.part)
+  const confirmed = qualifiers.some(part => regionNames.includes(part) || namesCountry(part, city.country))
+  return { city, exact: match.exact, confirmed }
+}
+
+// Dataset figures for a free-text location such as "Austin, TX" or "Lisboa, Portugal",
+// or null when no bundled city matches
+export function findCityCosts(location: string): LocationCostResult | null {
+  const parsed = parseLocation(location)
+  if (!parsed.text) {
+    return null
+  }
+
+  const best = COST_DATASET.cities
+    .map(city => matchCity(city, parsed))
+    .filter((match): match is CityMatch => match !== null)
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || Number(b.confirmed) - Number(a.confirmed))[0]
+  if (!best) {
+    return null
+  }
+
+  // Exact names are certain when nothing else is given or the rest agrees
+  const qualified = parsed.parts.length === 1 || best.confirmed
+  return {
+    housing_cost: best.city.housing,
+    utility_cost: best.city.utilities,
+    tax_rate: best.city.taxRate,
+    provenance: {
+      source: 'dataset',
+      confidence: best.exact && qualified ? 'high' : 'medium',
+      city: best.city.region ? `${best.city.city}, ${best.city.region}` : best.city.city,
+      version: COST_DATASET.version,
+      year: COST_DATASET.year
+    }
+  }
+}
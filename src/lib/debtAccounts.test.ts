@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { borrow, createDebtAccounts, OVER_LIMIT_FEE, type DebtAccount } from '@/lib/debtAccounts'
+
+function balances(accounts: DebtAccount[]): Record<string, number> {
+  return Object.fromEntries(accounts.map(account => [account.id, account.balance]))
+}
+
+describe('borrow', () => {
+  // Limits for a $4,000 salary: card 3000, personal loan 8000, BNPL 1000
+  const accounts = createDebtAccounts(4000)
+
+  it('charges the chosen account while it has credit left', () => {
+    const result = borrow(accounts, 'bnpl', 600)
+    expect(balances(result.accounts)).toEqual({ creditCard: 0, personalLoan: 0, bnpl: 600 })
+    expect(result.overLimit).toBe(0)
+  })
+
+  it('spills what does not fit under the limit onto the other accounts in order', () => {
+    const result = borrow(accounts, 'bnpl', 4500)
+    expect(balances(result.accounts)).toEqual({ creditCard: 3000, personalLoan: 500, bnpl: 1000 })
+    expect(result.overLimitFee).toBe(0)
+  })
+
+  it('goes over the credit card limit with a fee once every account is full', () => {
+    const result = borrow(accounts, 'creditCard', 12500)
+    expect(balances(result.accounts)).toEqual({ creditCard: 3500 + OVER_LIMIT_FEE, personalLoan: 8000, bnpl: 1000 })
+    expect(result.overLimit).toBe(500)
+    expect(result.overLimitFee).toBe(OVER_LIMIT_FEE)
+  })
+})
@@ -0,0 +1,217 @@
+import { getPeriodsPerYear, type PayFrequency } from '@/lib/payFrequency'
+
+// Debt instruments the player can borrow from. Each has its own balance, APR,
+// monthly payment requirement and late-payment penalty.
+
+export type DebtInstrument = 'creditCard' | 'personalLoan' | 'bnpl'
+
+export interface DebtAccount {
+  id: DebtInstrument
+  balance: number
+  apr: number
+  // Maximum balance the player may borrow up to
+  limit: number
+  // Payment required by the end of the current month
+  minimumDue: number
+  // Payments made since the last monthly statement
+  paidThisMonth: number
+  // Instalments left on the repayment schedule (personal loan and BNPL only)
+  monthsRemaining: number
+  missedPayments: number
+  lateFeesCharged: number
+}
+
+interface DebtInstrumentConfig {
+  apr: number
+  lateFee: number
+  // Fixed repayment schedule in months; undefined for revolving credit
+  termMonths?: number
+  // Credit limit as a multiple of gross monthly salary, with a floor
+  limitMultiple: number
+  minimumLimit: number
+}
+
+export const DEBT_INSTRUMENTS: Record<DebtInstrument, DebtInstrumentConfig> = {
+  creditCard: { apr: 0.22, lateFee: 35, limitMultiple: 0.75, minimumLimit: 500 },
+  personalLoan: { apr: 0.11, lateFee: 25, termMonths: 12, limitMultiple: 2, minimumLimit: 1000 },
+  bnpl: { apr: 0, lateFee: 10, termMonths: 4, limitMultiple: 0.25, minimumLimit: 200 }
+}
+
+export const DEBT_INSTRUMENT_ORDER: DebtInstrument[] = ['creditCard', 'personalLoan', 'bnpl']
+
+// Credit card minimum: 3% of the balance, but at least $25
+const CARD_MINIMUM_RATE = 0.03
+const CARD_MINIMUM_FLOOR = 25
+
+// Open one account per instrument, sized from the player's gross monthly salary
+export function createDebtAccounts(grossMonthlySalary: number): DebtAccount[] {
+  return DEBT_INSTRUMENT_ORDER.map(id => {
+    const config = DEBT_INSTRUMENTS[id]
+    return {
+      id,
+      balance: 0,
+      apr: config.apr,
+      limit: Math.max(config.minimumLimit, Math.round(grossMonthlySalary * config.limitMultiple / 50) * 50),
+      minimumDue: 0,
+      paidThisMonth: 0,
+      monthsRemaining: config.termMonths || 0,
+      missedPayments: 0,
+      lateFeesCharged: 0
+    }
+  })
+}
+
+export function getTotalDebt(accounts: DebtAccount[]): number {
+  return accounts.reduce((total, account) => total + account.balance, 0)
+}
+
+export function getAvailableCredit(account: DebtAccount): number {
+  return Math.max(0, account.limit - account.balance)
+}
+
+// Estimated interest charge for one pay period across all accounts
+export function getCostOfDebt(accounts: DebtAccount[], frequency: PayFrequency): number {
+  return accounts.reduce((total, account) => total + account.balance * account.apr / getPeriodsPerYear(frequency), 0)
+}
+
+// Payment still needed this month to avoid a late fee
+export function getRemainingDue(account: DebtAccount): number {
+  return Math.max(0, account.minimumDue - account.paidThisMonth)
+}
+
+// Required monthly payment for an account's current balance
+export function computeMinimumDue(account: DebtAccount): number {
+  if (account.balance <= 0) {
+    return 0
+  }
+  const termMonths = DEBT_INSTRUMENTS[account.id].termMonths
+  if (termMonths === undefined) {
+    return Math.min(account.balance, Math.max(CARD_MINIMUM_FLOOR, account.balance * CARD_MINIMUM_RATE))
+  }
+  // Amortized instalment over the remaining schedule
+  const months = Math.max(1, account.monthsRemaining)
+  const monthlyRate = account.apr / 12
+  if (monthlyRate === 0) {
+    return account.balance / months
+  }
+  return account.balance * monthlyRate / (1 - Math.pow(1 + monthlyRate, -months))
+}
+
+// Account a repayment is applied to: the preferred one while it still has a balance,
+// otherwise the first account that does
+export function resolveRepaymentTarget(accounts: DebtAccount[], preferred: DebtInstrument): DebtInstrument {
+  if (accounts.some(account => account.id === preferred && account.balance > 0)) {
+    return preferred
+  }
+  return accounts.find(account => account.balance > 0)?.id || preferred
+}
+
+function updateAccount(
+  accounts: DebtAccount[],
+  id: DebtInstrument,
+  update: (account: DebtAccount) => DebtAccount
+): DebtAccount[] {
+  return accounts.map(account => account.id === id ? update(account) : account)
+}
+
+// Charged when a shortfall pushes the credit card past its limit
+export const OVER_LIMIT_FEE = 35
+
+function addCharge(account: DebtAccount, amount: number): DebtAccount {
+  return {
+    ...account,
+    balance: account.balance + amount,
+    monthsRemaining: DEBT_INSTRUMENTS[account.id].termMonths || 0
+  }
+}
+
+// Add a new charge, starting with the chosen account. Whatever does not fit under its
+// limit spills onto the other accounts in DEBT_INSTRUMENT_ORDER; anything left once
+// every limit is reached goes on the credit card over its limit, with an over-limit
+// fee. Instalment plans restart their schedule so the new total is spread over a
+// full term.
+export function borrow(
+  accounts: DebtAccount[],
+  id: DebtInstrument,
+  amount: number
+): { accounts: DebtAccount[]; overLimit: number; overLimitFee: number } {
+  if (amount <= 0) {
+    return { accounts, overLimit: 0, overLimitFee: 0 }
+  }
+
+  let remaining = amount
+  let next = accounts
+  const order = [id, ...DEBT_INSTRUMENT_ORDER.filter(instrument => instrument !== id)]
+  for (const instrument of order) {
+    const account = next.find(entry => entry.id === instrument)
+    const charge = account ? Math.min(remaining, getAvailableCredit(account)) : 0
+    if (charge > 0) {
+      next = updateAccount(next, instrument, entry => addCharge(entry, charge))
+      remaining -= charge
+    }
+  }
+
+  if (remaining <= 0.005 || !next.some(account => account.id === 'creditCard')) {
+    return { accounts: next, overLimit: 0, overLimitFee: 0 }
+  }
+  return {
+    accounts: updateAccount(next, 'creditCard', account => addCharge(account, remaining + OVER_LIMIT_FEE)),
+    overLimit: remaining,
+    overLimitFee: OVER_LIMIT_FEE
+  }
+}
+
+// Pay an account down; anything beyond its balance is returned as excess
+export function repay(
+  accounts: DebtAccount[],
+  id: DebtInstrument,
+  amount: number
+): { accounts: DebtAccount[]; excess: number } {
+  const target = accounts.find(account => account.id === id)
+  if (!target || amount <= 0) {
+    return { accounts, excess: Math.max(0, amount) }
+  }
+  const applied = Math.min(amount, target.balance)
+  return {
+    accounts: updateAccount(accounts, id, account => ({
+      ...account,
+      balance: account.balance - applied,
+      paidThisMonth: account.paidThisMonth + applied
+    })),
+    excess: amount - applied
+  }
+}
+
+// Monthly statement: charge a late fee if the minimum was missed, accrue interest,
+// advance the repayment schedule and set the next minimum payment
+export function closeStatements(accounts: DebtAccount[]): {
+  accounts: DebtAccount[]
+  interest: number
+  lateFees: number
+} {
+  let interest = 0
+  let lateFees = 0
+
+  const closed = accounts.map(account => {
+    const missed = account.balance > 0 && getRemainingDue(account) > 0.005
+    const lateFee = missed ? DEBT_INSTRUMENTS[account.id].lateFee : 0
+    const accountInterest = account.balance * account.apr / 12
+    interest += accountInterest
+    lateFees += lateFee
+
+    const next: DebtAccount = {
+      ...account,
+      balance: account.balance + accountInterest + lateFee,
+      paidThisMonth: 0,
+      // One instalment period elapsed if a payment was scheduled this month
+      monthsRemaining: account.minimumDue > 0 && account.monthsRemaining > 1
+        ? account.monthsRemaining - 1
+        : account.monthsRemaining,
+      missedPayments: account.missedPayments + (missed ? 1 : 0),
+      lateFeesCharged: account.lateFeesCharged + lateFee
+    }
+    return { ...next, minimumDue: computeMinimumDue(next) }
+  })
+
+  return { accounts: closed, interest, lateFees }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { EVENT_CATALOG, rollRoundEvents, type EventContext } from '@/lib/eventCatalog'
+
+const FUNDED: EventContext = {
+  paycheck: 1500,
+  funding: { transportation: 150, healthcare: 100, diningOut: 60 }
+}
+
+function withFunding(funding: Record<string, number>): EventContext {
+  return { ...FUNDED, funding: { ...FUNDED.funding, ...funding } }
+}
+
+function ids(events: { id: string }[]): string[] {
+  return events.map(event => event.id)
+}
+
+function without(list: string[], id: string): string[] {
+  return list.filter(entry => entry !== id)
+}
+
+// Events drawn in each of the first 26 rounds of a run
+function sequence(seed: number): string[][] {
+  return Array.from({ length: 26 }, (_, index) => ids(rollRoundEvents(seed, index + 1, FUNDED)))
+}
+
+describe('rollRoundEvents', () => {
+  it('replays the same events for the same seed, round and allocations', () => {
+    expect(rollRoundEvents(777, 10, FUNDED)).toEqual(rollRoundEvents(777, 10, FUNDED))
+  })
+
+  it('repeats a whole run of events for the same seed', () => {
+    expect(sequence(777)).toEqual(sequence(777))
+    expect(sequence(777).flat().length).toBeGreaterThan(0)
+  })
+
+  it('draws a different run of events for a different seed', () => {
+    const runs = [1, 2, 777, 123456].map(seed => JSON.stringify(sequence(seed)))
+    expect(new Set(runs).size).toBe(runs.length)
+  })
+
+  it('only changes the dining discount when dining out is not funded', () => {
+    const funded = ids(rollRoundEvents(777, 10, FUNDED))
+    const unfunded = ids(rollRoundEvents(777, 10, withFunding({ diningOut: 0 })))
+    expect(unfunded).not.toContain('diningDiscount')
+    expect(unfunded).toEqual(without(funded, 'diningDiscount'))
+  })
+
+  it('never lets one event\'s conditions change another event', () => {
+    const toggles: [string, Record<string, number>][] = [
+      ['carRepairs', { transportation: 0 }],
+      ['diningDiscount', { diningOut: 0 }],
+      ['medicalExpense', { healthcare: 0 }]
+    ]
+    const changed = new Set<string>()
+    for (let seed = 1; seed <= 50; seed++) {
+      for (let round = 1; round <= 12; round++) {
+        const base = ids(rollRoundEvents(seed, round, FUNDED))
+        for (const [id, funding] of toggles) {
+          const toggled = ids(rollRoundEvents(seed, round, withFunding(funding)))
+          expect(without(toggled, id)).toEqual(without(base, id))
+          if (toggled.length !== base.length) changed.add(id)
+        }
+      }
+    }
+    // Every toggle made a difference somewhere, to its own event
+    expect([...changed].sort()).toEqual(toggles.map(([id]) => id).sort())
+  })
+
+  it('does not draw an event that is still running', () => {
+    const running = { id: 'reducedHours', adjustment: -225, roundsRemaining: 1 }
+    for (let seed = 1; seed <= 50; seed++) {
+      const events = rollRoundEvents(seed, 3, FUNDED, [running])
+      expect(events[0]).toEqual(running)
+      expect(ids(events).filter(id => id === 'reducedHours')).toHaveLength(1)
+    }
+  })
+
+  it('draws about one event per round on average', () => {
+    let total = 0
+    const rounds = 2000
+    for (let round = 1; round <= rounds; round++) {
+      total += rollRoundEvents(42, round, FUNDED).length
+    }
+    expect(total / rounds).toBeGreaterThan(0.8)
+    expect(total / rounds).toBeLessThan(1.4)
+    expect(EVENT_CATALOG.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,123 @@
+import type { GameState, RandomEvent } from '@/lib/allocationLogic'
+import { createRng, deriveSeed } from '@/lib/random'
+
+// Conditions are evaluated against what the player allocated this round,
+// keyed by the stable category key (e.g. "transportation")
+export type EventCondition =
+  | { type: 'funded'; category: string }
+  | { type: 'underfunded'; category: string; shareOfIncome: number }
+
+export interface EventDefinition {
+  // Also the message key in the `events` namespace of messages/*.json
+  id: string
+  // Likelihood of happening in a round, in units of EVENT_CHANCE_PER_WEIGHT
+  weight: number
+  // Fixed dollar impact on the balance (negative for expenses)
+  amount?: number
+  // Impact as a share of the paycheck; takes precedence over `amount`
+  incomeShare?: number
+  // Number of rounds the impact applies, including the round it is drawn in
+  duration?: number
+  // Every condition must hold for the event to be eligible
+  requires?: EventCondition[]
+  // Weight multipliers applied when their condition holds
+  modifiers?: { when: EventCondition; multiplier: number }[]
+}
+
+export interface EventContext {
+  paycheck: number
+  funding: Record<string, number>
+}
+
+export const EVENT_CATALOG: EventDefinition[] = [
+  {
+    id: 'carRepairs',
+    weight: 10,
+    amount: -150,
+    requires: [{ type: 'funded', category: 'transportation' }]
+  },
+  { id: 'utilityBill', weight: 10, incomeShare: -0.05 },
+  {
+    id: 'medicalExpense',
+    weight: 6,
+    amount: -100,
+    modifiers: [{ when: { type: 'underfunded', category: 'healthcare', shareOfIncome: 0.03 }, multiplier: 3 }]
+  },
+  { id: 'workBonus', weight: 8, amount: 100 },
+  { id: 'refund', weight: 8, amount: 50 },
+  { id: 'foundCash', weight: 6, amount: 75 },
+  { id: 'homeRepair', weight: 8, amount: -120 },
+  { id: 'friendPayback', weight: 6, amount: 60 },
+  {
+    id: 'diningDiscount',
+    weight: 8,
+    amount: 30,
+    requires: [{ type: 'funded', category: 'diningOut' }]
+  },
+  { id: 'onlineScam', weight: 5, amount: -80 },
+  { id: 'reducedHours', weight: 4, incomeShare: -0.15, duration: 2 },
+  { id: 'overtimeShifts', weight: 5, incomeShare: 0.1 }
+]
+
+// Chance per round of an event with weight 1. Each event is drawn on its own, so a
+// round can have zero, one or several; across the catalog this averages about one
+// event per round.
+export const EVENT_CHANCE_PER_WEIGHT = 0.0125
+
+function conditionHolds(condition: EventCondition, context: EventContext): boolean {
+  const funded = context.funding[condition.category] || 0
+  if (condition.type === 'funded') {
+    return funded > 0
+  }
+  return funded < context.paycheck * condition.shareOfIncome
+}
+
+function effectiveWeight(definition: EventDefinition, context: EventContext): number {
+  return (definition.modifiers || []).reduce(
+    (weight, modifier) => conditionHolds(modifier.when, context) ? weight * modifier.multiplier : weight,
+    definition.weight
+  )
+}
+
+function toRandomEvent(definition: EventDefinition, context: EventContext): RandomEvent {
+  const adjustment = definition.incomeShare !== undefined
+    ? Math.round(context.paycheck * definition.incomeShare)
+    : definition.amount || 0
+  return { id: definition.id, adjustment, roundsRemaining: definition.duration || 1 }
+}
+
+// Events affecting a round: multi-round events still running from earlier rounds
+// plus zero or more newly drawn ones. Every catalog event draws from its own seeded
+// stream for the round before eligibility and modifiers are applied, so the same
+// seed, income and allocations always produce the same events, and changing what
+// one event depends on never changes whether another one happens.
+export function rollRoundEvents(
+  seed: number,
+  iteration: number,
+  context: EventContext,
+  activeEvents: RandomEvent[] = []
+): RandomEvent[] {
+  const activeIds = new Set(activeEvents.map(event => event.id))
+
+  const drawn = EVENT_CATALOG
+    .map((definition, index) => ({ definition, roll: createRng(deriveSeed(seed, iteration, index))() }))
+    .filter(({ definition }) => !activeIds.has(definition.id))
+    .filter(({ definition }) => (definition.requires || []).every(condition => conditionHolds(condition, context)))
+    .filter(({ definition, roll }) => roll < effectiveWeight(definition, context) * EVENT_CHANCE_PER_WEIGHT)
+    .map(({ definition }) => toRandomEvent(definition, context))
+
+  return [...activeEvents, ...drawn]
+}
+
+// Events for the state's current round, drawn from what the player funded
+export function rollEventsForState(state: GameState): RandomEvent[] {
+  const funding = Object.fromEntries(
+    state.categories.map(category => [category.key, state.allocations[category.key]?.amount || 0])
+  )
+  return rollRoundEvents(
+    state.seed,
+    state.iteration,
+    { paycheck: state.paycheck || 0, funding },
+    state.activeEvents
+  )
+}
@@ -0,0 +1,52 @@
+import { mkdtemp, readdir, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createJsonFile, hashKey, matchesKeyHash, readJsonFile, resolveStorePath, writeJsonFile } from '@/lib/fileStore'
+
+describe('file store helpers', () => {
+  let dir = ''
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'store-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('keeps the last of concurrent writes whole and leaves no temporary files', async () => {
+    const file = path.join(dir, 'record.json')
+    await Promise.all(Array.from({ length: 20 }, (_, index) => writeJsonFile(file, { index, padding: 'x'.repeat(1000) })))
+
+    const record = await readJsonFile<{ index: number }>(file)
+    expect(record?.index).toBeGreaterThanOrEqual(0)
+    expect(await readdir(dir)).toEqual(['record.json'])
+  })
+
+  it('creates a file once when several writers race for it', async () => {
+    const file = path.join(dir, 'record.json')
+    const created = await Promise.all(Array.from({ length: 20 }, (_, index) => createJsonFile(file, { index })))
+
+    const record = await readJsonFile<{ index: number }>(file)
+    expect(created.filter(Boolean)).toHaveLength(1)
+    expect(record?.index).toBe(created.indexOf(true))
+    expect(await readdir(dir)).toEqual(['record.json'])
+  })
+
+  it('reads missing files as null', async () => {
+    expect(await readJsonFile(path.join(dir, 'missing.json'))).toBeNull()
+  })
+
+  it('only builds paths from ids that pass the check', () => {
+    const isId = (id: string) => /^[a-z]+$/.test(id)
+    expect(resolveStorePath(dir, 'abc', isId, 'abc.json')).toBe(path.join(dir, 'abc.json'))
+    expect(resolveStorePath(dir, '../etc', isId, '../etc.json')).toBeNull()
+  })
+
+  it('matches keys against their hash', () => {
+    expect(matchesKeyHash(hashKey('secret'), 'secret')).toBe(true)
+    expect(matchesKeyHash(hashKey('secret'), 'guess')).toBe(false)
+    expect(matchesKeyHash('short', 'secret')).toBe(false)
+  })
+})
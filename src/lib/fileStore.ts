@@ -0,0 +1,81 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { link, readFile, rename, rm, writeFile } from 'fs/promises'
+import path from 'path'
+
+// Building blocks of the file-backed stores (games, classrooms): where a store
+// keeps its files, secret keys stored only as hashes, and JSON files written so
+// that readers never see half of one. Server-only.
+
+// The directory in the environment variable, or ".data/<name>" under the working directory
+export function getStoreDir(envVar: string, name: string): string {
+  return process.env[envVar] || path.join(process.cwd(), '.data', name)
+}
+
+// Ids and join codes come from URLs, so a path is only built from one that passed
+// the store's own format check; anything else never reaches the file system
+export function resolveStorePath(
+  dir: string,
+  id: string,
+  isValidId: (id: string) => boolean,
+  ...segments: string[]
+): string | null {
+  return isValidId(id) ? path.join(dir, ...segments) : null
+}
+
+// A new key that proves ownership; it is handed out once and only its hash is kept
+export function createSecretKey(): string {
+  return randomBytes(18).toString('base64url')
+}
+
+export function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+// Compare a presented key with a stored hash in constant time
+export function matchesKeyHash(keyHash: string, key: string): boolean {
+  const expected = Buffer.from(keyHash)
+  const actual = Buffer.from(hashKey(key))
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+// Parsed contents of a JSON file, or null when it is missing or unreadable
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T
+  } catch {
+    return null
+  }
+}
+
+// Write to a temporary file first and rename it into place, so a crash never leaves
+// half a file behind. Every write gets its own temporary file, so concurrent writes
+// to the same file cannot interleave.
+export async function writeJsonFile(file: string, value: unknown): Promise<void> {
+  const temporary = `${file}.${randomUUID()}.tmp`
+  try {
+    await writeFile(temporary, JSON.stringify(value))
+    await rename(temporary, file)
+  } catch (error) {
+    await rm(temporary, { force: true })
+    throw error
+  }
+}
+
+// Write a file only when there is none at that path yet, checking and writing in one
+// step: the content goes to a temporary file that is then hard-linked into place, which
+// fails when the file exists. Returns false when it already did.
+export async function createJsonFile(file: string, value: unknown): Promise<boolean> {
+  const temporary = `${file}.${randomUUID()}.tmp`
+  try {
+    await writeFile(temporary, JSON.stringify(value))
+    await link(temporary, file)
+    return true
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false
+    }
+    throw error
+  } finally {
+    await rm(temporary, { force: true })
+  }
+}
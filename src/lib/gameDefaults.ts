@@ -0,0 +1,67 @@
+import type { GameState } from '@/lib/allocationLogic'
+import { DEFAULT_CATEGORIES } from '@/lib/categories'
+import { DEFAULT_SAVINGS_APY } from '@/lib/investments'
+import { DEFAULT_PAY_FREQUENCY } from '@/lib/payFrequency'
+import { generateSeed } from '@/lib/random'
+import { DEFAULT_TOTAL_ROUNDS } from '@/lib/roundEngine'
+import type { SaveDefaults } from '@/lib/saveGames'
+import { DEFAULT_PRE_TAX_DEDUCTIONS } from '@/lib/taxes'
+
+// Starting state of a new game, shared by the game, saved games and the report page
+
+export const createInitialGameState = (): GameState => ({
+  stage: 'salary',
+  grossMonthlySalary: 0,
+  monthlySalary: 0,
+  location: '',
+  payFrequency: DEFAULT_PAY_FREQUENCY,
+  paycheck: 0,
+  currentBalance: 0,
+  iteration: 1,
+  totalRounds: DEFAULT_TOTAL_ROUNDS,
+  categories: DEFAULT_CATEGORIES,
+  currentCategoryIndex: 0,
+  allocations: {},
+  allocatedAmount: 0,
+  debtAccounts: [],
+  savings: 0,
+  savingsApy: DEFAULT_SAVINGS_APY,
+  investments: 0,
+  housingCost: 0,
+  utilityCost: 0,
+  recurringExpenses: [],
+  taxRate: 25,
+  seed: generateSeed(),
+  goals: [],
+  activeEvents: [],
+  iterationHistory: []
+})
+
+// Fresh state used for new games and to fill in anything an older save lacks
+export const getSaveDefaults = (): SaveDefaults => ({
+  state: createInitialGameState(),
+  ui: {
+    currentAmount: 0,
+    savingsAmount: 0,
+    debtAmount: 0,
+    isUsingSavings: false,
+    isUsingDebt: false,
+    savingsExhausted: false,
+    debtUsedThisRound: 0,
+    debtInstrument: 'creditCard',
+    repaymentTarget: 'creditCard',
+    allocationView: 'guided',
+    budgetTemplate: null,
+    expertAdvice: '',
+    locationEstimates: null,
+    costProvenance: null,
+    editableCosts: {
+      housing_cost: 1200,
+      utility_cost: 200,
+      tax_rate: 25
+    },
+    preTaxDeductions: DEFAULT_PRE_TAX_DEDUCTIONS,
+    useFlatTaxRate: false,
+    remoteGame: null
+  }
+})
@@ -0,0 +1,252 @@
+import { ALLOCATION_SOURCES, type GameState } from '@/lib/allocationLogic'
+import { CATEGORY_TYPES } from '@/lib/categories'
+import { DEBT_INSTRUMENT_ORDER } from '@/lib/debtAccounts'
+import { GOAL_TYPES } from '@/lib/goals'
+import { PAY_FREQUENCIES } from '@/lib/payFrequency'
+import { EXPENSE_FREQUENCIES } from '@/lib/recurringExpenses'
+import { MAX_TOTAL_ROUNDS, MIN_TOTAL_ROUNDS } from '@/lib/roundEngine'
+
+// Structural validation of game state coming from outside the running game
+// (imported files, API requests). Each check reports every problem it finds with
+// the path to the offending value, e.g. "iterationHistory[2].allocations.groceries.amount".
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+type Check = (value: unknown, path: string, issues: ValidationIssue[]) => void
+
+const GAME_STAGES: GameState['stage'][] = ['salary', 'location', 'budget_allocation', 'summary', 'game_over']
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`
+  }
+  return path ? `${path}.${key}` : key
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Check {
+  return (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ path, message: 'must be a number' })
+    } else if (options.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: 'must be a whole number' })
+    } else if (options.min !== undefined && value < options.min) {
+      issues.push({ path, message: `must be at least ${options.min}` })
+    } else if (options.max !== undefined && value > options.max) {
+      issues.push({ path, message: `must be at most ${options.max}` })
+    }
+  }
+}
+
+export const string: Check = (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: 'must be a string' })
+  }
+}
+
+export const boolean: Check = (value, path, issues) => {
+  if (typeof value !== 'boolean') {
+    issues.push({ path, message: 'must be true or false' })
+  }
+}
+
+export function oneOf(values: readonly string[]): Check {
+  return (value, path, issues) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      issues.push({ path, message: `must be one of ${values.join(', ')}` })
+    }
+  }
+}
+
+export function optional(check: Check): Check {
+  return (value, path, issues) => {
+    if (value !== undefined && value !== null) {
+      check(value, path, issues)
+    }
+  }
+}
+
+export function arrayOf(check: Check): Check {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: 'must be a list' })
+      return
+    }
+    value.forEach((item, index) => check(item, join(path, index), issues))
+  }
+}
+
+export function recordOf(check: Check): Check {
+  return (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push({ path, message: 'must be an object' })
+      return
+    }
+    Object.entries(value).forEach(([key, item]) => check(item, join(path, key), issues))
+  }
+}
+
+export function object(shape: Record<string, Check>): Check {
+  return (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push({ path, message: 'must be an object' })
+      return
+    }
+    Object.entries(shape).forEach(([key, check]) => check(value[key], join(path, key), issues))
+  }
+}
+
+// Run a check and return every issue found
+export function validate(check: Check, value: unknown, path: string = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  check(value, path, issues)
+  return issues
+}
+
+const amount = number({ min: 0 })
+const money = number()
+
+export const budgetCategorySchema = object({
+  key: string,
+  emoji: string,
+  type: oneOf(CATEGORY_TYPES),
+  label: optional(string),
+  essential: optional(boolean),
+  builtIn: optional(boolean)
+})
+
+export const budgetAllocationSchema = object({
+  amount,
+  emoji: string,
+  source: optional(oneOf(ALLOCATION_SOURCES)),
+  instrument: optional(oneOf(DEBT_INSTRUMENT_ORDER)),
+  repaid: optional(oneOf(DEBT_INSTRUMENT_ORDER))
+})
+
+export const randomEventSchema = object({
+  id: string,
+  adjustment: money,
+  roundsRemaining: optional(number({ min: 0, integer: true }))
+})
+
+export const debtAccountSchema = object({
+  id: oneOf(DEBT_INSTRUMENT_ORDER),
+  balance: amount,
+  apr: amount,
+  limit: amount,
+  minimumDue: amount,
+  paidThisMonth: amount,
+  monthsRemaining: number({ min: 0, integer: true }),
+  missedPayments: number({ min: 0, integer: true }),
+  lateFeesCharged: amount
+})
+
+export const recurringExpenseSchema = object({
+  id: string,
+  label: string,
+  amount,
+  frequency: oneOf(EXPENSE_FREQUENCIES),
+  startRound: optional(number({ min: 1, integer: true }))
+})
+
+export const financialGoalSchema = object({
+  id: string,
+  type: oneOf(GOAL_TYPES),
+  targetAmount: amount,
+  label: optional(string),
+  deadlineMonth: optional(number({ min: 1, integer: true }))
+})
+
+export const roundScoreSchema = object({
+  score: number({ min: 0, max: 100 }),
+  grade: oneOf(['A', 'B', 'C', 'D', 'F']),
+  metrics: recordOf(money),
+  points: recordOf(money),
+  flows: object({
+    income: money,
+    saved: money,
+    essentials: money,
+    wants: money,
+    usedDebt: boolean
+  })
+})
+
+export const iterationHistoryItemSchema = object({
+  iteration: number({ min: 1, integer: true }),
+  balance: money,
+  allocations: recordOf(budgetAllocationSchema),
+  debt: amount,
+  savings: amount,
+  investments: amount,
+  savingsInterest: money,
+  investmentReturn: money,
+  randomEvents: arrayOf(randomEventSchema),
+  score: roundScoreSchema
+})
+
+export const preTaxDeductionsSchema = object({
+  retirementRate: number({ min: 0, max: 1 }),
+  hsaMonthly: amount
+})
+
+export const gameStateSchema = object({
+  stage: oneOf(GAME_STAGES),
+  grossMonthlySalary: amount,
+  monthlySalary: money,
+  location: string,
+  payFrequency: oneOf(PAY_FREQUENCIES.map(entry => entry.key)),
+  paycheck: money,
+  currentBalance: money,
+  iteration: number({ min: 1, integer: true }),
+  totalRounds: number({ min: MIN_TOTAL_ROUNDS, max: MAX_TOTAL_ROUNDS, integer: true }),
+  categories: arrayOf(budgetCategorySchema),
+  currentCategoryIndex: number({ min: 0, integer: true }),
+  allocations: recordOf(budgetAllocationSchema),
+  allocatedAmount: money,
+  debtAccounts: arrayOf(debtAccountSchema),
+  savings: amount,
+  savingsApy: amount,
+  investments: amount,
+  housingCost: amount,
+  utilityCost: amount,
+  recurringExpenses: arrayOf(recurringExpenseSchema),
+  taxRate: number({ min: 0, max: 100 }),
+  preTaxDeductions: optional(preTaxDeductionsSchema),
+  flatTaxRate: optional(number({ min: 0, max: 100 })),
+  seed: number({ min: 0, integer: true }),
+  goals: arrayOf(financialGoalSchema),
+  challengeId: optional(string),
+  challengeToken: optional(string),
+  activeEvents: arrayOf(randomEventSchema),
+  iterationHistory: arrayOf(iterationHistoryItemSchema)
+})
+
+// Full validation of a game state, including consistency between fields
+export function validateGameState(value: unknown, path: string = 'state'): ValidationIssue[] {
+  const issues = validate(gameStateSchema, value, path)
+  if (issues.length > 0 || !isRecord(value)) {
+    return issues
+  }
+
+  const state = value as unknown as GameState
+  if (state.categories.length === 0) {
+    issues.push({ path: join(path, 'categories'), message: 'must not be empty' })
+  }
+  const keys = state.categories.map(category => category.key)
+  if (new Set(keys).size !== keys.length) {
+    issues.push({ path: join(path, 'categories'), message: 'must not repeat a category key' })
+  }
+  if (state.iteration > state.totalRounds + 1) {
+    issues.push({ path: join(path, 'iteration'), message: 'must not be past the last round' })
+  }
+  if (state.iterationHistory.length !== state.iteration - 1) {
+    issues.push({ path: join(path, 'iterationHistory'), message: 'must hold one entry per completed round' })
+  }
+  return issues
+}
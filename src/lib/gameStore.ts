@@ -0,0 +1,310 @@
+import { randomUUID } from 'crypto'
+import { mkdir, readdir } from 'fs/promises'
+import path from 'path'
+import type { GameState, IterationHistoryItem } from '@/lib/allocationLogic'
+import { getChallengeSecret, readChallengeToken } from '@/lib/challenge'
+import { getTotalDebt } from '@/lib/debtAccounts'
+import {
+  createSecretKey,
+  getStoreDir,
+  hashKey,
+  matchesKeyHash,
+  readJsonFile,
+  resolveStorePath,
+  writeJsonFile
+} from '@/lib/fileStore'
+import { validateGameState, type ValidationIssue } from '@/lib/gameStateSchema'
+import { compareEntries, createLeaderboardEntry, getGroupKey, type LeaderboardEntry } from '@/lib/leaderboard'
+import { replayRun, type ReplayMismatch } from '@/lib/replay'
+import { createRunFile, joinRunParts, type RunConfig, type RunProgress } from '@/lib/runFile'
+import { scoreGame, type ScoreBreakdown } from '@/lib/scoring'
+
+// Server-side storage of game runs, one JSON file per run under GAME_STORE_DIR
+// (default ".data/games"), so runs outlive a browser without any outside service.
+// Whoever creates a run gets a write key; only its hash is stored and every update
+// must present the key. Server-only.
+
+export interface StoredGame {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  // Settings fixed when the game started, including the event seed
+  config: RunConfig
+  rounds: IterationHistoryItem[]
+  progress: RunProgress
+  // Score of the whole run once it is over
+  finalScore: ScoreBreakdown | null
+  // Set once the finished run is verified and submitted to the leaderboard
+  leaderboardEntry?: LeaderboardEntry
+}
+
+// What listings show without the round history
+export interface StoredGameSummary {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  stage: GameState['stage']
+  location: string
+  seed: number
+  roundsPlayed: number
+  totalRounds: number
+  finalScore: ScoreBreakdown | null
+}
+
+interface StoredRecord extends StoredGame {
+  writeKeyHash: string
+}
+
+export type GamePayloadResult =
+  | { ok: true; state: GameState; name?: string; writeKey?: string }
+  | { ok: false; issues: ValidationIssue[] }
+
+export type GameUpdateResult =
+  | { ok: true; game: StoredGame }
+  | { ok: false; error: 'notFound' | 'forbidden' | 'conflict' }
+
+export type GameAccessResult =
+  | { ok: true; game: StoredGame }
+  | { ok: false; error: 'notFound' | 'forbidden' }
+
+export type LeaderboardSubmitResult =
+  | { ok: true; entry: LeaderboardEntry; rank: number; groupSize: number }
+  | { ok: false; error: 'notFound' | 'forbidden' | 'notFinished' }
+  | { ok: false; error: 'rejected'; mismatch: ReplayMismatch }
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+export const MAX_NAME_LENGTH = 80
+
+function getGameStoreDir(): string {
+  return getStoreDir('GAME_STORE_DIR', 'games')
+}
+
+export function isGameId(id: string): boolean {
+  return ID_PATTERN.test(id)
+}
+
+// The record without its key hash, which never leaves the server
+function toStoredGame(record: StoredRecord): StoredGame {
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    config: record.config,
+    rounds: record.rounds,
+    progress: record.progress,
+    finalScore: record.finalScore,
+    ...(record.leaderboardEntry ? { leaderboardEntry: record.leaderboardEntry } : {})
+  }
+}
+
+function hasWriteKey(record: StoredRecord, writeKey: string): boolean {
+  return matchesKeyHash(record.writeKeyHash, writeKey)
+}
+
+function fromState(state: GameState): Pick<StoredGame, 'config' | 'rounds' | 'progress' | 'finalScore'> {
+  const { config, rounds, progress } = createRunFile(state)
+  return {
+    config,
+    rounds,
+    progress,
+    finalScore: state.stage === 'game_over'
+      ? scoreGame(state.iterationHistory, state.monthlySalary, state.payFrequency)
+      : null
+  }
+}
+
+export function summarizeStoredGame(game: StoredGame): StoredGameSummary {
+  return {
+    id: game.id,
+    name: game.name,
+    createdAt: game.createdAt,
+    updatedAt: game.updatedAt,
+    stage: game.progress.stage,
+    location: game.config.location,
+    seed: game.config.seed,
+    roundsPlayed: game.rounds.length,
+    totalRounds: game.config.totalRounds,
+    finalScore: game.finalScore
+  }
+}
+
+async function readRecord(id: string): Promise<StoredRecord | null> {
+  const file = resolveStorePath(getGameStoreDir(), id, isGameId, `${id}.json`)
+  return file ? readJsonFile<StoredRecord>(file) : null
+}
+
+// Check a create or update request body: { state, name?, writeKey? }
+export function parseGamePayload(body: unknown): GamePayloadResult {
+  if (typeof body !== 'object' || body === null) {
+    return { ok: false, issues: [{ path: '', message: 'must be an object' }] }
+  }
+  const { state, name, writeKey } = body as Record<string, unknown>
+  const issues = validateGameState(state)
+  if (name !== undefined && typeof name !== 'string') {
+    issues.push({ path: 'name', message: 'must be a string' })
+  }
+  if (writeKey !== undefined && typeof writeKey !== 'string') {
+    issues.push({ path: 'writeKey', message: 'must be a string' })
+  }
+  if (issues.length > 0) {
+    return { ok: false, issues }
+  }
+  return { ok: true, state: state as GameState, name: name as string | undefined, writeKey: writeKey as string | undefined }
+}
+
+async function writeRecord(record: StoredRecord): Promise<void> {
+  const dir = getGameStoreDir()
+  await mkdir(dir, { recursive: true })
+  await writeJsonFile(path.join(dir, `${record.id}.json`), record)
+}
+
+// Expects a state that already passed validateGameState
+export async function createGame(state: GameState, name: string): Promise<{ game: StoredGame; writeKey: string }> {
+  const now = new Date().toISOString()
+  const writeKey = createSecretKey()
+  const record: StoredRecord = {
+    id: randomUUID(),
+    name: name.slice(0, MAX_NAME_LENGTH),
+    createdAt: now,
+    updatedAt: now,
+    ...fromState(state),
+    writeKeyHash: hashKey(writeKey)
+  }
+  await writeRecord(record)
+  return { game: toStoredGame(record), writeKey }
+}
+
+export async function getGame(id: string): Promise<StoredGame | null> {
+  const record = await readRecord(id)
+  return record ? toStoredGame(record) : null
+}
+
+// A run, only for whoever holds its write key
+export async function getOwnedGame(id: string, writeKey: string): Promise<GameAccessResult> {
+  const record = await readRecord(id)
+  if (!record) {
+    return { ok: false, error: 'notFound' }
+  }
+  if (!hasWriteKey(record, writeKey)) {
+    return { ok: false, error: 'forbidden' }
+  }
+  return { ok: true, game: toStoredGame(record) }
+}
+
+// Save a newer state of a run. The setup cannot change and completed rounds can
+// only be added to, never rewritten.
+export async function updateGame(
+  id: string,
+  writeKey: string,
+  state: GameState,
+  name?: string
+): Promise<GameUpdateResult> {
+  const record = await readRecord(id)
+  if (!record) {
+    return { ok: false, error: 'notFound' }
+  }
+  if (!hasWriteKey(record, writeKey)) {
+    return { ok: false, error: 'forbidden' }
+  }
+
+  const next = fromState(state)
+  const sameConfig = JSON.stringify(next.config) === JSON.stringify(record.config)
+  const keepsRounds = record.rounds.length <= next.rounds.length &&
+    record.rounds.every((round, index) => JSON.stringify(round) === JSON.stringify(next.rounds[index]))
+  if (!sameConfig || !keepsRounds) {
+    return { ok: false, error: 'conflict' }
+  }
+
+  const updated: StoredRecord = {
+    ...record,
+    ...next,
+    name: name === undefined ? record.name : name.slice(0, MAX_NAME_LENGTH),
+    updatedAt: new Date().toISOString()
+  }
+  await writeRecord(updated)
+  return { ok: true, game: toStoredGame(updated) }
+}
+
+async function readAllRecords(): Promise<StoredRecord[]> {
+  let files: string[]
+  try {
+    files = await readdir(getGameStoreDir())
+  } catch {
+    return []
+  }
+
+  const records = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readRecord(file.slice(0, -'.json'.length)))
+  )
+  return records.filter((record): record is StoredRecord => record !== null)
+}
+
+// Stored runs, most recently updated first
+export async function listGames(limit: number): Promise<StoredGameSummary[]> {
+  return (await readAllRecords())
+    .map(record => summarizeStoredGame(toStoredGame(record)))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, limit)
+}
+
+export async function listLeaderboardEntries(): Promise<LeaderboardEntry[]> {
+  return (await readAllRecords())
+    .map(record => record.leaderboardEntry)
+    .filter((entry): entry is LeaderboardEntry => entry !== undefined)
+}
+
+// Verify a finished run by replaying it and put it on the leaderboard. The score
+// comes from the replay, not from what the client reported, and a run from a
+// challenge link is checked against the link it carries. Submitting again
+// replaces the entry, e.g. to change the display name.
+export async function submitToLeaderboard(
+  id: string,
+  writeKey: string,
+  displayName: string | null
+): Promise<LeaderboardSubmitResult> {
+  const record = await readRecord(id)
+  if (!record) {
+    return { ok: false, error: 'notFound' }
+  }
+  if (!hasWriteKey(record, writeKey)) {
+    return { ok: false, error: 'forbidden' }
+  }
+  const state = joinRunParts(record)
+  if (state.stage !== 'game_over') {
+    return { ok: false, error: 'notFinished' }
+  }
+
+  const challenge = state.challengeToken ? readChallengeToken(state.challengeToken, getChallengeSecret()) : null
+  const replay = replayRun(state, challenge?.ok ? challenge : null)
+  if (!replay.ok) {
+    return { ok: false, error: 'rejected', mismatch: replay.mismatch }
+  }
+  const score = scoreGame(replay.state.iterationHistory, replay.state.monthlySalary, replay.state.payFrequency)
+  if (!score) {
+    return { ok: false, error: 'notFinished' }
+  }
+
+  const entry = createLeaderboardEntry(record.id, replay.state, {
+    score: score.score,
+    grade: score.grade,
+    debt: getTotalDebt(replay.state.debtAccounts),
+    displayName
+  })
+  await writeRecord({ ...record, leaderboardEntry: entry })
+
+  const group = (await listLeaderboardEntries())
+    .filter(other => getGroupKey(other) === getGroupKey(entry))
+    .sort(compareEntries)
+  return {
+    ok: true,
+    entry,
+    rank: group.findIndex(other => other.gameId === entry.gameId) + 1,
+    groupSize: group.length
+  }
+}
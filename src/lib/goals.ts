@@ -0,0 +1,177 @@
+import type { GameState, IterationHistoryItem } from '@/lib/allocationLogic'
+import { getTotalDebt } from '@/lib/debtAccounts'
+import { getMonthForRound, type PayFrequency } from '@/lib/payFrequency'
+
+// Financial goals the player sets before the first round, tracked every round and
+// judged at the end of the game
+
+export type GoalType = 'emergencyFund' | 'debtFree' | 'savingsTarget'
+
+export const GOAL_TYPES: GoalType[] = ['emergencyFund', 'debtFree', 'savingsTarget']
+
+export interface FinancialGoal {
+  id: string
+  type: GoalType
+  // Target balance for emergency fund and savings goals
+  targetAmount: number
+  // What the player is saving for, e.g. "laptop" (savings goals only)
+  label?: string
+  // Month (1-based) the goal must be reached by; the end of the game when unset
+  deadlineMonth?: number
+}
+
+export type GoalStatus = 'inProgress' | 'met' | 'metEarly' | 'missed'
+
+export interface GoalProgress {
+  goal: FinancialGoal
+  // 0 to 1
+  progress: number
+  status: GoalStatus
+  // Round in which the goal was first reached
+  reachedInRound: number | null
+}
+
+// Balances a goal is measured against
+export interface GoalSnapshot {
+  iteration: number
+  savings: number
+  investments: number
+  debt: number
+}
+
+const DEBT_TOLERANCE = 0.005
+
+export function createGoal(goals: FinancialGoal[], type: GoalType): FinancialGoal {
+  const next = Math.max(0, ...goals.map(goal => Number(goal.id.replace('goal-', '')) || 0)) + 1
+  return {
+    id: `goal-${next}`,
+    type,
+    targetAmount: type === 'debtFree' ? 0 : type === 'emergencyFund' ? 2000 : 1200
+  }
+}
+
+// Every goal needs a positive target, except being debt-free
+export function isValidGoalList(goals: FinancialGoal[]): boolean {
+  return goals.every(goal => goal.type === 'debtFree' || goal.targetAmount > 0)
+}
+
+function isReached(goal: FinancialGoal, snapshot: GoalSnapshot): boolean {
+  switch (goal.type) {
+    case 'emergencyFund':
+      return snapshot.savings >= goal.targetAmount
+    case 'savingsTarget':
+      return snapshot.savings + snapshot.investments >= goal.targetAmount
+    case 'debtFree':
+      return snapshot.debt <= DEBT_TOLERANCE
+  }
+}
+
+function progressFor(goal: FinancialGoal, snapshot: GoalSnapshot, peakDebt: number): number {
+  switch (goal.type) {
+    case 'emergencyFund':
+      return goal.targetAmount > 0 ? snapshot.savings / goal.targetAmount : 1
+    case 'savingsTarget':
+      return goal.targetAmount > 0 ? (snapshot.savings + snapshot.investments) / goal.targetAmount : 1
+    case 'debtFree':
+      return peakDebt > DEBT_TOLERANCE ? 1 - snapshot.debt / peakDebt : 1
+  }
+}
+
+// Last round that still belongs to a goal's deadline month
+export function getDeadlineRound(goal: FinancialGoal, totalRounds: number, frequency: PayFrequency): number {
+  if (!goal.deadlineMonth) {
+    return totalRounds
+  }
+  let round = 0
+  for (let iteration = 1; iteration <= totalRounds; iteration++) {
+    if (getMonthForRound(iteration, frequency) <= goal.deadlineMonth) {
+      round = iteration
+    }
+  }
+  return Math.max(1, round)
+}
+
+// Rounds in which a goal counts as reached. A debt-free goal is only reached by paying
+// debt off, so the rounds before the first debt do not count; a player who never
+// borrows still meets it, just never early.
+function getReachedRounds(goal: FinancialGoal, snapshots: GoalSnapshot[]): boolean[] {
+  const firstDebt = goal.type === 'debtFree'
+    ? snapshots.findIndex(snapshot => snapshot.debt > DEBT_TOLERANCE)
+    : 0
+  return snapshots.map((snapshot, index) => firstDebt >= 0 && index >= firstDebt && isReached(goal, snapshot))
+}
+
+// Progress of a goal given the completed rounds and the current balances.
+// A goal with a deadline is met once it is reached by the deadline; a goal without
+// one must still hold at the end of the game, and counts from the start of the run
+// of rounds it held through to the end. It is met early when reached at least a
+// month before its deadline.
+export function evaluateGoal(
+  goal: FinancialGoal,
+  history: IterationHistoryItem[],
+  current: GoalSnapshot,
+  totalRounds: number,
+  frequency: PayFrequency,
+  isGameOver: boolean = false
+): GoalProgress {
+  const snapshots: GoalSnapshot[] = history.map(item => ({
+    iteration: item.iteration,
+    savings: item.savings,
+    investments: item.investments,
+    debt: item.debt
+  }))
+  const peakDebt = Math.max(current.debt, ...snapshots.map(snapshot => snapshot.debt))
+  const progress = Math.min(1, Math.max(0, progressFor(goal, current, peakDebt)))
+
+  const deadlineRound = getDeadlineRound(goal, totalRounds, frequency)
+  const reachedRounds = getReachedRounds(goal, snapshots)
+  let reachedIndex = -1
+  if (goal.deadlineMonth) {
+    reachedIndex = snapshots.findIndex((snapshot, index) => snapshot.iteration <= deadlineRound && reachedRounds[index])
+  } else {
+    for (let index = snapshots.length - 1; index >= 0 && reachedRounds[index]; index--) {
+      reachedIndex = index
+    }
+  }
+  const reached = reachedIndex >= 0 ? snapshots[reachedIndex] : undefined
+  const reachedInRound = reached ? reached.iteration : null
+  const reachedEarly = reached !== undefined
+    && getMonthForRound(reached.iteration, frequency) < getMonthForRound(deadlineRound, frequency)
+
+  const lastRound = snapshots.length > 0 ? snapshots[snapshots.length - 1].iteration : 0
+  const deadlinePassed = isGameOver || lastRound >= deadlineRound
+  // Debt-free goals are also met by never borrowing before the deadline
+  const neverBorrowed = goal.type === 'debtFree' && snapshots
+    .filter(snapshot => snapshot.iteration <= deadlineRound)
+    .every(snapshot => snapshot.debt <= DEBT_TOLERANCE)
+
+  let status: GoalStatus = 'inProgress'
+  if (goal.deadlineMonth) {
+    if (reached) {
+      status = reachedEarly ? 'metEarly' : 'met'
+    } else if (deadlinePassed) {
+      status = neverBorrowed ? 'met' : 'missed'
+    }
+  } else if (isGameOver) {
+    if (!isReached(goal, current)) {
+      status = 'missed'
+    } else {
+      status = reachedEarly ? 'metEarly' : 'met'
+    }
+  }
+
+  return { goal, progress, status, reachedInRound }
+}
+
+// Progress of all of the player's goals for the current state of a game
+export function evaluateGoals(state: GameState, isGameOver: boolean = false): GoalProgress[] {
+  const current: GoalSnapshot = {
+    iteration: state.iteration,
+    savings: state.savings,
+    investments: state.investments,
+    debt: getTotalDebt(state.debtAccounts)
+  }
+  return state.goals.map(goal =>
+    evaluateGoal(goal, state.iterationHistory, current, state.totalRounds, state.payFrequency, isGameOver)
+  )
+}
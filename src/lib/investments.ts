@@ -0,0 +1,60 @@
+import { createRng, deriveSeed } from '@/lib/random'
+
+// Growth on money the player puts aside: a liquid high-yield savings account and a
+// less liquid investment account with volatile, seeded monthly returns
+
+// Annual percentage yield paid on savings, compounded monthly
+export const DEFAULT_SAVINGS_APY = 0.04
+export const MAX_SAVINGS_APY = 0.2
+
+// Monthly return of the investment account: a broad index fund averages about
+// 8% a year with large month-to-month swings
+export const INVESTMENT_MONTHLY_MEAN = 0.0065
+export const INVESTMENT_MONTHLY_VOLATILITY = 0.045
+const MAX_MONTHLY_MOVE = 0.25
+
+// Share of an early withdrawal lost to penalties and selling costs
+export const INVESTMENT_WITHDRAWAL_PENALTY = 0.1
+
+// Mixed into the game seed so market returns use their own stream and never change
+// which random events are drawn
+const MARKET_STREAM = 0x4D4B54
+
+// Clamp a player-entered yield to a sensible range
+export function normalizeSavingsApy(apy: number): number {
+  if (!Number.isFinite(apy)) {
+    return DEFAULT_SAVINGS_APY
+  }
+  return Math.min(MAX_SAVINGS_APY, Math.max(0, apy))
+}
+
+// Interest earned by the savings account over one month
+export function getMonthlySavingsInterest(savings: number, apy: number): number {
+  return savings > 0 ? savings * apy / 12 : 0
+}
+
+// Investment return for a calendar month of the run. The same seed always produces
+// the same market.
+export function getInvestmentReturnRate(seed: number, month: number): number {
+  const rng = createRng(deriveSeed(seed, MARKET_STREAM, month))
+  // Box-Muller transform for a normally distributed move
+  const u = Math.max(rng(), Number.EPSILON)
+  const v = rng()
+  const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  const rate = INVESTMENT_MONTHLY_MEAN + INVESTMENT_MONTHLY_VOLATILITY * z
+  return Math.min(MAX_MONTHLY_MOVE, Math.max(-MAX_MONTHLY_MOVE, rate))
+}
+
+// Sell investments to cover a shortfall. Every dollar received costs more than a
+// dollar of holdings because of the withdrawal penalty.
+export function withdrawFromInvestments(
+  balance: number,
+  needed: number
+): { covered: number; sold: number; penalty: number } {
+  if (balance <= 0 || needed <= 0) {
+    return { covered: 0, sold: 0, penalty: 0 }
+  }
+  const covered = Math.min(needed, balance * (1 - INVESTMENT_WITHDRAWAL_PENALTY))
+  const sold = Math.min(balance, covered / (1 - INVESTMENT_WITHDRAWAL_PENALTY))
+  return { covered, sold, penalty: sold - covered }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import type { GameState } from '@/lib/allocationLogic'
+import { createInitialGameState } from '@/lib/gameDefaults'
+import { createLeaderboardEntry, getGroupKey } from '@/lib/leaderboard'
+
+function getKey(overrides: Partial<GameState>): string {
+  const state: GameState = {
+    ...createInitialGameState(),
+    grossMonthlySalary: 4000,
+    location: 'Austin, TX',
+    housingCost: 1200,
+    utilityCost: 200,
+    taxRate: 18.5,
+    seed: 777,
+    ...overrides
+  }
+  return getGroupKey(createLeaderboardEntry('id', state, { score: 80, grade: 'B', debt: 0, displayName: null }))
+}
+
+describe('getGroupKey', () => {
+  it('groups runs from the same place, salary band, costs and events', () => {
+    expect(getKey({ grossMonthlySalary: 4999, location: '  austin,  tx ' })).toBe(getKey({}))
+  })
+
+  it('keeps runs with different costs, lengths or pay schedules apart', () => {
+    const reference = getKey({})
+    expect(getKey({ housingCost: 0 })).not.toBe(reference)
+    expect(getKey({ utilityCost: 0 })).not.toBe(reference)
+    expect(getKey({ taxRate: 0 })).not.toBe(reference)
+    expect(getKey({ totalRounds: 26 })).not.toBe(reference)
+    expect(getKey({ payFrequency: 'weekly' })).not.toBe(reference)
+    expect(getKey({ recurringExpenses: [{ id: 'expense-1', label: 'Gym', amount: 40, frequency: 'monthly' }] })).not.toBe(reference)
+  })
+})
@@ -0,0 +1,162 @@
+import type { GameState } from '@/lib/allocationLogic'
+import type { PayFrequency } from '@/lib/payFrequency'
+import { getMonthlyCost } from '@/lib/recurringExpenses'
+import type { LetterGrade } from '@/lib/scoring'
+
+// Leaderboards compare finished runs that faced the same conditions: the same
+// place, a similar salary, the same costs, the same length and pay schedule and
+// the same events (seed or challenge link). Within a group runs rank by final score, then lower debt, then higher savings.
+
+// Width of a salary band in gross monthly pay
+export const SALARY_BAND_WIDTH = 1000
+
+export const MAX_DISPLAY_NAME_LENGTH = 30
+
+export interface LeaderboardEntry {
+  gameId: string
+  // Shown only when the player opted in; anonymous otherwise
+  displayName: string | null
+  location: string
+  salaryBand: number
+  // Monthly housing, utility and other recurring costs, and the effective tax rate
+  housingCost: number
+  utilityCost: number
+  recurringCost: number
+  taxRate: number
+  totalRounds: number
+  payFrequency: PayFrequency
+  seed: number
+  challengeId: string | null
+  score: number
+  grade: LetterGrade
+  debt: number
+  savings: number
+  submittedAt: string
+}
+
+export interface LeaderboardGroup {
+  key: string
+  location: string
+  salaryBand: number
+  housingCost: number
+  utilityCost: number
+  recurringCost: number
+  taxRate: number
+  totalRounds: number
+  payFrequency: PayFrequency
+  seed: number
+  challengeId: string | null
+  entries: LeaderboardEntry[]
+}
+
+// "  São Paulo,  Brazil " and "sao paulo brazil" are the same place
+export function normalizeLocation(location: string): string {
+  return location
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+// Lower bound of the band the gross monthly salary falls in
+export function getSalaryBand(grossMonthlySalary: number): number {
+  return Math.floor(Math.max(0, grossMonthlySalary) / SALARY_BAND_WIDTH) * SALARY_BAND_WIDTH
+}
+
+// Trimmed display name, or null when the player did not give one
+export function normalizeDisplayName(name: unknown): string | null {
+  if (typeof name !== 'string') {
+    return null
+  }
+  const trimmed = name.replace(/\s+/g, ' ').trim().slice(0, MAX_DISPLAY_NAME_LENGTH)
+  return trimmed || null
+}
+
+type GroupConditions = Pick<
+  LeaderboardEntry,
+  | 'location'
+  | 'salaryBand'
+  | 'housingCost'
+  | 'utilityCost'
+  | 'recurringCost'
+  | 'taxRate'
+  | 'totalRounds'
+  | 'payFrequency'
+  | 'seed'
+  | 'challengeId'
+>
+
+export function getGroupKey(entry: GroupConditions): string {
+  const costs = [entry.housingCost, entry.utilityCost, entry.recurringCost, entry.taxRate].join('/')
+  const length = `${entry.totalRounds}x${entry.payFrequency}`
+  const events = entry.challengeId ? `challenge:${entry.challengeId}` : `seed:${entry.seed}`
+  return `${entry.location}|${entry.salaryBand}|${costs}|${length}|${events}`
+}
+
+// Money is grouped to the cent
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function createLeaderboardEntry(
+  gameId: string,
+  state: GameState,
+  result: { score: number; grade: LetterGrade; debt: number; displayName: string | null }
+): LeaderboardEntry {
+  return {
+    gameId,
+    displayName: result.displayName,
+    location: normalizeLocation(state.location),
+    salaryBand: getSalaryBand(state.grossMonthlySalary),
+    housingCost: roundCents(state.housingCost),
+    utilityCost: roundCents(state.utilityCost),
+    recurringCost: roundCents(state.recurringExpenses.reduce((total, expense) => total + getMonthlyCost(expense), 0)),
+    taxRate: roundCents(state.taxRate),
+    totalRounds: state.totalRounds,
+    payFrequency: state.payFrequency,
+    seed: state.seed,
+    challengeId: state.challengeId || null,
+    score: result.score,
+    grade: result.grade,
+    debt: result.debt,
+    savings: state.savings,
+    submittedAt: new Date().toISOString()
+  }
+}
+
+// Best first: higher score, then less debt, then more savings, then the earlier submission
+export function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return b.score - a.score
+    || a.debt - b.debt
+    || b.savings - a.savings
+    || a.submittedAt.localeCompare(b.submittedAt)
+}
+
+// Entries grouped by conditions and ranked, largest groups first
+export function groupEntries(entries: LeaderboardEntry[]): LeaderboardGroup[] {
+  const groups = new Map<string, LeaderboardGroup>()
+  for (const entry of entries) {
+    const key = getGroupKey(entry)
+    const group = groups.get(key) || {
+      key,
+      location: entry.location,
+      salaryBand: entry.salaryBand,
+      housingCost: entry.housingCost,
+      utilityCost: entry.utilityCost,
+      recurringCost: entry.recurringCost,
+      taxRate: entry.taxRate,
+      totalRounds: entry.totalRounds,
+      payFrequency: entry.payFrequency,
+      seed: entry.seed,
+      challengeId: entry.challengeId,
+      entries: []
+    }
+    group.entries.push(entry)
+    groups.set(key, group)
+  }
+
+  return [...groups.values()]
+    .map(group => ({ ...group, entries: [...group.entries].sort(compareEntries) }))
+    .sort((a, b) => b.entries.length - a.entries.length || a.key.localeCompare(b.key))
+}
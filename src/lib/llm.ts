@@ -0,0 +1,117 @@
+import OpenAI from 'openai'
+
+// Language model access for the API routes, chosen by environment:
+//   LLM_PROVIDER   "openai" (default), "openai-compatible" for a local server such as
+//                  Ollama or llama.cpp, or "mock" for canned responses with no network
+//   LLM_BASE_URL   server address for "openai-compatible" (default Ollama's)
+//   LLM_API_KEY    key for "openai-compatible" servers that want one
+// Each route's model, token limit and temperature can be overridden with
+// LLM_<ROUTE>_MODEL, LLM_<ROUTE>_MAX_TOKENS and LLM_<ROUTE>_TEMPERATURE, where ROUTE
+// is LOCATION_COST or EXPERT_ADVICE; LLM_MODEL sets the model for every route.
+// Server-only.
+
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'mock'
+
+export type LlmRoute = 'locationCost' | 'expertAdvice'
+
+export interface ChatMessage {
+  role: 'system' | 'user'
+  content: string
+}
+
+export interface CompletionSettings {
+  model: string
+  maxTokens: number
+  temperature: number
+}
+
+export interface CompletionRequest extends CompletionSettings {
+  route: LlmRoute
+  messages: ChatMessage[]
+}
+
+export interface LlmProvider {
+  name: LlmProviderName
+  // The model's reply, trimmed; empty when it gave none
+  complete: (request: CompletionRequest) => Promise<string>
+}
+
+export const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1'
+
+const DEFAULT_MODEL = 'gpt-3.5-turbo'
+
+const ROUTE_DEFAULTS: Record<LlmRoute, Omit<CompletionSettings, 'model'>> = {
+  locationCost: { maxTokens: 150, temperature: 0.3 },
+  expertAdvice: { maxTokens: 400, temperature: 0.7 }
+}
+
+const ROUTE_ENV_PREFIXES: Record<LlmRoute, string> = {
+  locationCost: 'LLM_LOCATION_COST',
+  expertAdvice: 'LLM_EXPERT_ADVICE'
+}
+
+// Replies of the mock provider, the same for every request to a route
+export const MOCK_RESPONSES: Record<LlmRoute, string> = {
+  locationCost: JSON.stringify({ housing_cost: 1500, utility_cost: 180, tax_rate: 22 }),
+  expertAdvice: [
+    '1. Your essentials are covered, which is the most important step. Keep housing, utilities and groceries paid first every round.',
+    '2. Put something into savings every round, even a small amount, until you have three months of expenses set aside.',
+    '3. Pay more than the minimum on any debt with a high interest rate before adding to discretionary spending.'
+  ].join('\n')
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) ? value : fallback
+}
+
+export function getCompletionSettings(route: LlmRoute): CompletionSettings {
+  const prefix = ROUTE_ENV_PREFIXES[route]
+  return {
+    model: process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || DEFAULT_MODEL,
+    maxTokens: readNumber(`${prefix}_MAX_TOKENS`, ROUTE_DEFAULTS[route].maxTokens),
+    temperature: readNumber(`${prefix}_TEMPERATURE`, ROUTE_DEFAULTS[route].temperature)
+  }
+}
+
+function createOpenAIProvider(name: LlmProviderName, client: OpenAI): LlmProvider {
+  return {
+    name,
+    complete: async ({ messages, model, maxTokens, temperature }) => {
+      const response = await client.chat.completions.create({
+        model,
+        messages,
+        max_tokens: maxTokens,
+        temperature
+      })
+      return response.choices[0]?.message.content?.trim() || ''
+    }
+  }
+}
+
+const mockProvider: LlmProvider = {
+  name: 'mock',
+  complete: async ({ route }) => MOCK_RESPONSES[route]
+}
+
+// The configured provider, or null when it is missing what it needs (an unknown
+// LLM_PROVIDER, or "openai" without OPENAI_API_KEY)
+export function getLlmProvider(): LlmProvider | null {
+  const name = process.env.LLM_PROVIDER || 'openai'
+  switch (name) {
+    case 'openai':
+      return process.env.OPENAI_API_KEY
+        ? createOpenAIProvider(name, new OpenAI({ apiKey: process.env.OPENAI_API_KEY }))
+        : null
+    case 'openai-compatible':
+      // Local servers usually ignore the key, but the client requires one
+      return createOpenAIProvider(name, new OpenAI({
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL: process.env.LLM_BASE_URL || DEFAULT_COMPATIBLE_BASE_URL
+      }))
+    case 'mock':
+      return mockProvider
+    default:
+      return null
+  }
+}
@@ -0,0 +1,92 @@
+import countries from '@/data/countries.json'
+
+// Reading free-text locations such as "Austin, TX", "Lisboa, Portugal" or
+// "San José, Costa Rica". The tax tables and the cost-of-living dataset both match
+// places through here, so they agree on what a location names.
+
+// Country names by ISO code, in English, Spanish and Portuguese (src/data/countries.json)
+export const COUNTRY_NAMES: Record<string, string[]> = countries
+
+// "  São Paulo " and "sao paulo" are the same name
+export function normalizePlaceName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+const normalizedCountries = Object.entries(COUNTRY_NAMES)
+  .map(([code, names]) => ({ code, names: names.map(normalizePlaceName) }))
+
+export interface ParsedLocation {
+  // Comma-separated parts, normalized, e.g. ["austin", "tx"]
+  parts: string[]
+  // All parts joined by spaces
+  text: string
+  // Countries each part names in full. The first part is the place itself, and
+  // two-letter parts are left out because "CA" or "CO" is as likely a state as a country.
+  countriesByPart: string[][]
+}
+
+export function parseLocation(location: string): ParsedLocation {
+  const parts = location.split(',').map(normalizePlaceName).filter(Boolean)
+  return {
+    parts,
+    text: parts.join(' '),
+    countriesByPart: parts.map((part, index) => index === 0 || part.length <= 2
+      ? []
+      : normalizedCountries.filter(country => country.names.includes(part)).map(country => country.code))
+  }
+}
+
+// True when a part is the country's ISO code or one of its names
+export function namesCountry(part: string, code: string): boolean {
+  return part === code.toLowerCase()
+    || normalizedCountries.some(country => country.code === code && country.names.includes(part))
+}
+
+export interface AliasMatch {
+  // Index of the part that is one of the names, or -1 when a name only appears within the text
+  part: number
+  // A whole part is one of the names
+  exact: boolean
+  // Length of the name found, so more specific names can win
+  length: number
+}
+
+// Where a location names a place known by the given names, preferring a whole part
+export function matchAliases(aliases: string[], location: ParsedLocation): AliasMatch | null {
+  const names = aliases.map(normalizePlaceName)
+  // Later parts are usually the state or country, so they are checked first
+  const part = location.parts.findLastIndex(entry => names.includes(entry))
+  if (part >= 0) {
+    return { part, exact: true, length: location.parts[part].length }
+  }
+  // Short names only count as a whole part, e.g. "LA, California"
+  const found = names.filter(name => name.length > 2 && new RegExp(`\\b${name}\\b`).test(location.text))
+  if (found.length === 0) {
+    return null
+  }
+  return { part: -1, exact: false, length: Math.max(...found.map(name => name.length)) }
+}
+
+// A location that names another country is not a place in `country`: "San Jose, Costa Rica"
+// is not San Jose, California. A country name that is also one of the place's own
+// names only rules it out when no other part names the place, so "Atlanta, Georgia"
+// is in the US state and "Tbilisi, Georgia" is not.
+export function namesOtherCountry(country: string, aliases: string[], location: ParsedLocation): boolean {
+  const names = aliases.map(normalizePlaceName)
+  const foreignParts = location.countriesByPart
+    .map((codes, index) => codes.length > 0 && !codes.includes(country) ? index : -1)
+    .filter(index => index >= 0)
+  if (foreignParts.length === 0) {
+    return false
+  }
+  if (foreignParts.some(index => !names.includes(location.parts[index]))) {
+    return true
+  }
+  return !location.parts.some((part, index) => !foreignParts.includes(index) && names.includes(part))
+}
@@ -0,0 +1,42 @@
+// Pay schedules: a round of the game is one pay period of the chosen frequency
+
+export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly'
+
+export const PAY_FREQUENCIES: { key: PayFrequency; periodsPerYear: number }[] = [
+  { key: 'weekly', periodsPerYear: 52 },
+  { key: 'biweekly', periodsPerYear: 26 },
+  { key: 'semimonthly', periodsPerYear: 24 },
+  { key: 'monthly', periodsPerYear: 12 }
+]
+
+export const DEFAULT_PAY_FREQUENCY: PayFrequency = 'biweekly'
+
+export function getPeriodsPerYear(frequency: PayFrequency): number {
+  return PAY_FREQUENCIES.find(entry => entry.key === frequency)?.periodsPerYear || 26
+}
+
+// Share of a monthly amount that falls in one pay period, e.g. 12/26 for bi-weekly pay
+export function prorateMonthly(monthlyAmount: number, frequency: PayFrequency): number {
+  return monthlyAmount * 12 / getPeriodsPerYear(frequency)
+}
+
+// Calendar month (1-based) in which a pay period starts
+export function getMonthForRound(iteration: number, frequency: PayFrequency): number {
+  return Math.floor((iteration - 1) * 12 / getPeriodsPerYear(frequency)) + 1
+}
+
+// True when the next pay period starts in a new month, i.e. this round closes a month.
+// Monthly charges such as debt interest are applied at the end of these rounds.
+export function closesMonth(iteration: number, frequency: PayFrequency): boolean {
+  return getMonthForRound(iteration + 1, frequency) > getMonthForRound(iteration, frequency)
+}
+
+// Number of pay periods in a span of months
+export function monthsToRounds(months: number, frequency: PayFrequency): number {
+  return Math.max(1, Math.round(months * getPeriodsPerYear(frequency) / 12))
+}
+
+// Length of a run in months, rounded to one decimal for display
+export function roundsToMonths(rounds: number, frequency: PayFrequency): number {
+  return Math.round((rounds * 12 / getPeriodsPerYear(frequency)) * 10) / 10
+}
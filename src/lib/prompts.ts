@@ -1,3 +1,26 @@
+import { roundsToMonths, type PayFrequency } from '@/lib/payFrequency'
+import type { FinancialGoal, GoalStatus } from '@/lib/goals'
+
+// Goal as sent by the client, with its progress so far
+export type GoalSummary = FinancialGoal & { progress: number; status: GoalStatus }
+
+const goalStatusNames: Record<GoalStatus, string> = {
+  inProgress: 'in progress',
+  met: 'met',
+  metEarly: 'met early',
+  missed: 'missed'
+}
+
+const describeGoal = (goal: GoalSummary) => {
+  const target = goal.type === 'debtFree'
+    ? 'Pay off all debt'
+    : goal.type === 'emergencyFund'
+      ? `Build a $${goal.targetAmount.toLocaleString()} emergency fund`
+      : `Save $${goal.targetAmount.toLocaleString()} for ${goal.label || 'a planned purchase'}`
+  const deadline = goal.deadlineMonth ? ` by month ${goal.deadlineMonth}` : ' by the end of the simulation'
+  return `- ${target}${deadline} (${Math.round(goal.progress * 100)}% complete, ${goalStatusNames[goal.status] || 'in progress'})`
+}
+
 export const LOCATION_COST_PROMPT = (location: string) => `As a cost of living expert, provide the following information for ${location}:
 1. Average monthly housing cost (rent/mortgage) in USD
 2. Average monthly utility costs (electricity, water, gas) in USD 
@@ -15,9 +38,16 @@ export const EXPERT_ADVICE_PROMPT = (
   monthlySalary: number, 
   allocations: Record<string, { amount: number; emoji: string }>, 
   iteration: number, 
+  totalRounds: number,
+  payFrequency: PayFrequency,
+  goals: GoalSummary[] = [],
   isGameOver: boolean = false,
   locale: string = 'en'
 ) => {
+  const goalsText = goals.length > 0
+    ? `\n\nTheir financial goals:\n${goals.map(describeGoal).join('\n')}`
+    : ''
+
   const allocationText = Object.entries(allocations)
     .map(([cat, data]) => `- ${cat}: $${data.amount.toLocaleString()}`)
     .join('\n')
@@ -28,6 +58,14 @@ export const EXPERT_ADVICE_PROMPT = (
     'pt': 'Portuguese'
   }
   
+  const frequencyNames = {
+    'weekly': 'weekly',
+    'biweekly': 'bi-weekly',
+    'semimonthly': 'semi-monthly',
+    'monthly': 'monthly'
+  }
+  const frequencyName = frequencyNames[payFrequency] || 'bi-weekly'
+
   const responseLanguage = languageNames[locale as keyof typeof languageNames] || 'English'
   const languageInstruction = `Please respond in ${responseLanguage}.`
 
@@ -35,26 +73,26 @@ export const EXPERT_ADVICE_PROMPT = (
     return `As a professional cost of living expert, analyze this failed budget allocation for someone living in ${location} 
 with a monthly salary of $${monthlySalary.toLocaleString()}. The user's budget went negative in iteration ${iteration}.
 
-Their last bi-weekly budget allocation was:
-${allocationText}
+Their last ${frequencyName} budget allocation was:
+${allocationText}${goalsText}
 
 Please provide:
-1. Analysis of what went wrong
+1. Analysis of what went wrong${goals.length > 0 ? ', including which goals were met or missed and why' : ''}
 2. 3 specific suggestions for better budget management next time
 3. Key lessons to learn from this experience
 
 Keep the response encouraging and constructive. ${languageInstruction}`
   } else {
     return `As a professional cost of living expert, analyze this budget allocation for someone living in ${location} 
-with a monthly salary of $${monthlySalary.toLocaleString()}. This is iteration ${iteration} of their 6-month budget planning.
+with a monthly salary of $${monthlySalary.toLocaleString()}. This is iteration ${iteration} of ${totalRounds} ${frequencyName} pay periods in their ${roundsToMonths(totalRounds, payFrequency)}-month budget planning.
 
-Current bi-weekly budget allocation:
-${allocationText}
+Current ${frequencyName} budget allocation:
+${allocationText}${goalsText}
 
 Please provide:
 1. Brief analysis of their spending patterns
 2. 2-3 specific suggestions for improvement based on typical costs in ${location}
-3. Any potential risks or opportunities in their current allocation
+3. Any potential risks or opportunities in their current allocation${goals.length > 0 ? '\n4. Whether they are on track for each goal and what to change to reach it' : ''}
 
 Keep the response concise and practical. ${languageInstruction}`
   }
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { createRng, deriveSeed, formatSeed, parseSeed } from '@/lib/random'
+
+function draws(seed: number, count = 20): number[] {
+  const rng = createRng(seed)
+  return Array.from({ length: count }, () => rng())
+}
+
+describe('createRng', () => {
+  it('repeats the same draws for the same seed', () => {
+    expect(draws(777)).toEqual(draws(777))
+  })
+
+  it('draws differently for different seeds', () => {
+    expect(draws(777)).not.toEqual(draws(778))
+    expect(draws(deriveSeed(777, 1))).not.toEqual(draws(deriveSeed(777, 2)))
+  })
+})
+
+describe('parseSeed', () => {
+  it('reads back a formatted seed', () => {
+    expect(parseSeed(formatSeed(4294967295))).toBe(4294967295)
+    expect(parseSeed(` ${formatSeed(777).toLowerCase()} `)).toBe(777)
+  })
+
+  it('rejects codes that are not seeds', () => {
+    expect(parseSeed('')).toBeNull()
+    expect(parseSeed('12-34')).toBeNull()
+    expect(parseSeed('ZZZZZZZ')).toBeNull()
+  })
+})
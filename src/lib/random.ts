@@ -0,0 +1,51 @@
+// Seeded pseudo-random number generation so a run can be replayed exactly
+
+const SEED_RADIX = 36
+
+// Mulberry32 - a small, fast 32-bit generator that is plenty for game events
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Mix extra values (round number, salary...) into a seed so each round gets an
+// independent stream that does not depend on how many draws earlier rounds made
+export function deriveSeed(seed: number, ...parts: number[]): number {
+  let h = (seed ^ 0x811C9DC5) >>> 0
+  for (const part of parts) {
+    h = Math.imul(h ^ (Math.floor(part) >>> 0), 0x01000193) >>> 0
+    h ^= h >>> 13
+    h = Math.imul(h, 0x5BD1E995) >>> 0
+    h ^= h >>> 15
+  }
+  return h >>> 0
+}
+
+// Pick a fresh seed for a new game
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0
+}
+
+// Seeds are shown to the player as short upper-case codes, e.g. "1Z141Z3"
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(SEED_RADIX).toUpperCase()
+}
+
+// Parse a seed code typed by the player; returns null when it is not a valid code
+export function parseSeed(code: string): number | null {
+  const trimmed = code.trim()
+  if (!/^[0-9a-zA-Z]{1,7}$/.test(trimmed)) {
+    return null
+  }
+  const value = parseInt(trimmed, SEED_RADIX)
+  if (!Number.isFinite(value) || value > 0xFFFFFFFF) {
+    return null
+  }
+  return value >>> 0
+}
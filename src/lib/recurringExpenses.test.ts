@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import type { PayFrequency } from '@/lib/payFrequency'
+import { getExpenseCharge, getMonthlyCost, getRoundExpenseCharges, type RecurringExpense } from '@/lib/recurringExpenses'
+
+// Rounds out of the first `rounds` in which the expense is charged
+function chargedRounds(expense: Omit<RecurringExpense, 'id' | 'label'>, frequency: PayFrequency, rounds: number): number[] {
+  return Array.from({ length: rounds }, (_, index) => index + 1)
+    .filter(round => getExpenseCharge({ id: 'expense-1', label: 'Insurance', ...expense }, round, frequency) > 0)
+}
+
+describe('getExpenseCharge', () => {
+  it('charges a quarterly expense every third month', () => {
+    expect(chargedRounds({ amount: 300, frequency: 'quarterly' }, 'monthly', 12)).toEqual([1, 4, 7, 10])
+  })
+
+  it('charges a quarterly expense in the first pay period of every third month', () => {
+    // Bi-weekly rounds 8, 14 and 21 are the first to start in months 4, 7 and 10
+    expect(chargedRounds({ amount: 300, frequency: 'quarterly' }, 'biweekly', 26)).toEqual([1, 8, 14, 21])
+  })
+
+  it('charges an annual expense once a year', () => {
+    expect(chargedRounds({ amount: 1200, frequency: 'annual' }, 'monthly', 24)).toEqual([1, 13])
+    expect(chargedRounds({ amount: 1200, frequency: 'annual' }, 'weekly', 60)).toEqual([1, 53])
+  })
+
+  it('starts charging in the start round and counts the schedule from there', () => {
+    expect(chargedRounds({ amount: 300, frequency: 'quarterly', startRound: 3 }, 'monthly', 12)).toEqual([3, 6, 9, 12])
+    expect(chargedRounds({ amount: 1200, frequency: 'annual', startRound: 5 }, 'monthly', 24)).toEqual([5, 17])
+  })
+
+  it('counts a mid-month start round as that month for later charges', () => {
+    // Round 5 falls in month 2, so the next quarters begin in months 5 and 8
+    expect(chargedRounds({ amount: 300, frequency: 'quarterly', startRound: 5 }, 'biweekly', 20)).toEqual([5, 10, 17])
+  })
+
+  it('charges weekly expenses every round for the weeks it covers', () => {
+    expect(chargedRounds({ amount: 10, frequency: 'weekly', startRound: 2 }, 'biweekly', 4)).toEqual([2, 3, 4])
+    expect(getExpenseCharge({ id: 'expense-1', label: 'Gym', amount: 10, frequency: 'weekly' }, 1, 'biweekly')).toBe(20)
+  })
+
+  it('charges nothing for an expense without an amount', () => {
+    expect(chargedRounds({ amount: 0, frequency: 'monthly' }, 'monthly', 3)).toEqual([])
+  })
+})
+
+describe('getRoundExpenseCharges', () => {
+  it('lists only the expenses due in the round', () => {
+    const expenses: RecurringExpense[] = [
+      { id: 'expense-1', label: 'Phone', amount: 50, frequency: 'monthly' },
+      { id: 'expense-2', label: 'Insurance', amount: 300, frequency: 'quarterly', startRound: 2 }
+    ]
+    expect(getRoundExpenseCharges(expenses, 1, 'monthly')).toEqual([{ id: 'expense-1', label: 'Phone', amount: 50 }])
+    expect(getRoundExpenseCharges(expenses, 2, 'monthly').map(charge => charge.id)).toEqual(['expense-1', 'expense-2'])
+  })
+})
+
+describe('getMonthlyCost', () => {
+  it('averages each schedule over a month', () => {
+    expect(getMonthlyCost({ id: 'expense-1', label: '', amount: 300, frequency: 'quarterly' })).toBe(100)
+    expect(getMonthlyCost({ id: 'expense-1', label: '', amount: 1200, frequency: 'annual' })).toBe(100)
+    expect(getMonthlyCost({ id: 'expense-1', label: '', amount: 12, frequency: 'weekly' })).toBe(52)
+  })
+})
@@ -0,0 +1,81 @@
+import { closesMonth, getMonthForRound, getPeriodsPerYear, type PayFrequency } from '@/lib/payFrequency'
+
+// Fixed obligations beyond housing and utilities, such as insurance premiums,
+// subscriptions, car payments or childcare, charged on their own schedule
+
+export type ExpenseFrequency = 'weekly' | 'monthly' | 'quarterly' | 'annual'
+
+export const EXPENSE_FREQUENCIES: ExpenseFrequency[] = ['weekly', 'monthly', 'quarterly', 'annual']
+
+export interface RecurringExpense {
+  id: string
+  label: string
+  amount: number
+  frequency: ExpenseFrequency
+  // First round the expense is charged in; defaults to round 1
+  startRound?: number
+}
+
+export interface ExpenseCharge {
+  id: string
+  label: string
+  amount: number
+}
+
+// Months between charges for month-based schedules
+const MONTH_INTERVALS: Record<Exclude<ExpenseFrequency, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12
+}
+
+const WEEKS_PER_YEAR = 52
+
+// True when a round is the first pay period of a calendar month
+export function startsMonth(iteration: number, frequency: PayFrequency): boolean {
+  return iteration === 1 || closesMonth(iteration - 1, frequency)
+}
+
+// Amount of an expense charged in a round. Weekly expenses are charged every round
+// for the number of weeks in the pay period. Other expenses are charged in their
+// start round and then in the first round of every month, quarter or year after it.
+export function getExpenseCharge(expense: RecurringExpense, iteration: number, frequency: PayFrequency): number {
+  const startRound = Math.max(1, expense.startRound || 1)
+  if (iteration < startRound || expense.amount <= 0) {
+    return 0
+  }
+  if (expense.frequency === 'weekly') {
+    return expense.amount * WEEKS_PER_YEAR / getPeriodsPerYear(frequency)
+  }
+  if (iteration === startRound) {
+    return expense.amount
+  }
+  if (!startsMonth(iteration, frequency)) {
+    return 0
+  }
+  const monthsSinceStart = getMonthForRound(iteration, frequency) - getMonthForRound(startRound, frequency)
+  return monthsSinceStart > 0 && monthsSinceStart % MONTH_INTERVALS[expense.frequency] === 0 ? expense.amount : 0
+}
+
+// Average cost of an expense per month, whatever its schedule
+export function getMonthlyCost(expense: RecurringExpense): number {
+  return expense.frequency === 'weekly'
+    ? expense.amount * WEEKS_PER_YEAR / 12
+    : expense.amount / MONTH_INTERVALS[expense.frequency]
+}
+
+// Expenses due in a round, line by line
+export function getRoundExpenseCharges(
+  expenses: RecurringExpense[],
+  iteration: number,
+  frequency: PayFrequency
+): ExpenseCharge[] {
+  return expenses
+    .map(expense => ({ id: expense.id, label: expense.label, amount: getExpenseCharge(expense, iteration, frequency) }))
+    .filter(charge => charge.amount > 0)
+}
+
+export function createRecurringExpense(expenses: RecurringExpense[]): RecurringExpense {
+  const next = Math.max(0, ...expenses.map(expense => Number(expense.id.replace('expense-', '')) || 0)) + 1
+  return { id: `expense-${next}`, label: '', amount: 0, frequency: 'monthly' }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import type { GameState } from '@/lib/allocationLogic'
+import { DEFAULT_CATEGORIES } from '@/lib/categories'
+import type { ChallengeConfig } from '@/lib/challenge'
+import { replayRun } from '@/lib/replay'
+import { DEFAULT_PRE_TAX_DEDUCTIONS } from '@/lib/taxes'
+import { createRunState, PLANS, playRun } from '@/test/runs'
+
+function getChallenge(state: GameState): ChallengeConfig {
+  return {
+    grossMonthlySalary: state.grossMonthlySalary,
+    location: state.location,
+    costs: { housing_cost: state.housingCost, utility_cost: state.utilityCost, tax_rate: 20 },
+    useFlatTaxRate: false,
+    preTaxDeductions: DEFAULT_PRE_TAX_DEDUCTIONS,
+    payFrequency: state.payFrequency,
+    totalRounds: state.totalRounds,
+    savingsApy: state.savingsApy,
+    seed: state.seed,
+    recurringExpenses: [],
+    goals: []
+  }
+}
+
+describe('replayRun', () => {
+  it('accepts a run played as reported', () => {
+    expect(replayRun(playRun(createRunState())).ok).toBe(true)
+  })
+
+  it('rejects a run that says it is over before its last round', () => {
+    const run = playRun(createRunState({ totalRounds: 12 }), PLANS.slice(0, 1))
+    const result = replayRun({ ...run, stage: 'game_over' })
+    expect(result.ok || result.mismatch.field).toBe('stage')
+  })
+
+  it('rebuilds net pay from the tax tables', () => {
+    const run = playRun(createRunState())
+    const result = replayRun({ ...run, monthlySalary: run.monthlySalary + 500 })
+    expect(result.ok || result.mismatch.field).toBe('monthlySalary')
+  })
+
+  it('counts built-in categories as the game defines them', () => {
+    const categories = DEFAULT_CATEGORIES.map(category =>
+      category.key === 'groceries' ? { ...category, type: 'savings' as const, essential: true } : category)
+    const result = replayRun(playRun(createRunState({ categories })))
+    expect(result.ok).toBe(false)
+  })
+
+  it('rejects borrowing beyond the credit left on the account', () => {
+    const plans = [{ miscellaneous: { amount: 3500, source: 'debt' as const } }]
+    const result = replayRun(playRun(createRunState({ totalRounds: 1 }), plans))
+    expect(result.ok || result.mismatch.field).toBe('allocations.miscellaneous')
+  })
+
+  it('rejects a challenge id without a verified link', () => {
+    const result = replayRun(playRun(createRunState({ challengeId: 'made-up' })))
+    expect(result.ok || result.mismatch.field).toBe('challengeId')
+  })
+
+  it('checks a challenge run against the link it was started from', () => {
+    const run = playRun(createRunState({ challengeId: 'abc' }))
+    expect(replayRun(run, { id: 'abc', config: getChallenge(run) }).ok).toBe(true)
+
+    const cheaper = playRun(createRunState({ challengeId: 'abc', housingCost: 0 }))
+    const result = replayRun(cheaper, { id: 'abc', config: getChallenge(run) })
+    expect(result.ok || result.mismatch.field).toBe('housingCost')
+  })
+})
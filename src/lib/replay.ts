@@ -0,0 +1,158 @@
+import {
+  applyCategoryAllocation,
+  getAvailableDebtAllocation,
+  type GameState,
+  type RandomEvent
+} from '@/lib/allocationLogic'
+import { DEFAULT_CATEGORIES, type BudgetCategory } from '@/lib/categories'
+import { findChallengeDifference, type ChallengeConfig } from '@/lib/challenge'
+import { createDebtAccounts, getTotalDebt } from '@/lib/debtAccounts'
+import { rollEventsForState } from '@/lib/eventCatalog'
+import { prorateMonthly } from '@/lib/payFrequency'
+import { advancePeriod } from '@/lib/roundEngine'
+import { getGamePaystub } from '@/lib/taxes'
+
+// Replays a reported run through the round engine from its setup and allocations,
+// and checks that every round's events and outcome match what was reported. A run
+// that does not match could not have been played and is rejected. Pay is rebuilt
+// from the tax tables, built-in categories keep their own type and essential flag,
+// and a run from a challenge link must have been set up as the link says.
+
+export interface ReplayMismatch {
+  // Round the mismatch was found in, or null for the run as a whole
+  round: number | null
+  field: string
+  expected: number | string
+  reported: number | string
+}
+
+export type ReplayResult =
+  | { ok: true; state: GameState }
+  | { ok: false; mismatch: ReplayMismatch }
+
+// Money is compared to the cent
+const TOLERANCE = 0.01
+
+function describeEvents(events: RandomEvent[]): string {
+  return events.map(event => `${event.id}:${event.adjustment}`).join(',')
+}
+
+// Built-in categories count as the game defines them, whatever a run reports
+function getReplayCategories(categories: BudgetCategory[]): BudgetCategory[] {
+  return categories.map(category => {
+    const builtIn = DEFAULT_CATEGORIES.find(entry => entry.key === category.key)
+    if (!builtIn) {
+      return category
+    }
+    return { ...category, type: builtIn.type, essential: builtIn.essential, builtIn: true }
+  })
+}
+
+// The state a run starts its first round in
+export function getStartingState(state: GameState): GameState {
+  return {
+    ...state,
+    categories: getReplayCategories(state.categories),
+    stage: 'budget_allocation',
+    currentBalance: 0,
+    iteration: 1,
+    currentCategoryIndex: 0,
+    allocations: {},
+    allocatedAmount: 0,
+    debtAccounts: createDebtAccounts(state.grossMonthlySalary),
+    savings: 0,
+    investments: 0,
+    activeEvents: [],
+    iterationHistory: []
+  }
+}
+
+// `challenge` is the verified link a run claims to come from, or null when the
+// server could not verify one
+export function replayRun(
+  reported: GameState,
+  challenge: { id: string; config: ChallengeConfig } | null = null
+): ReplayResult {
+  const mismatch = (round: number | null, field: string, expected: number | string, value: number | string): ReplayResult =>
+    ({ ok: false, mismatch: { round, field, expected, reported: value } })
+
+  if (reported.challengeId) {
+    if (challenge?.id !== reported.challengeId) {
+      return mismatch(null, 'challengeId', challenge?.id || '', reported.challengeId)
+    }
+    const difference = findChallengeDifference(reported, challenge.config)
+    if (difference) {
+      return mismatch(null, difference.field, difference.expected, difference.reported)
+    }
+  }
+
+  // Net pay follows from gross pay, the place and the deductions, and the paycheck from net pay
+  const paystub = getGamePaystub(reported)
+  if (Math.abs(paystub.net - reported.monthlySalary) > TOLERANCE) {
+    return mismatch(null, 'monthlySalary', paystub.net, reported.monthlySalary)
+  }
+  const taxRate = Math.round(paystub.effectiveTaxRate * 100) / 100
+  if (Math.abs(taxRate - reported.taxRate) > TOLERANCE) {
+    return mismatch(null, 'taxRate', taxRate, reported.taxRate)
+  }
+  const paycheck = prorateMonthly(reported.monthlySalary, reported.payFrequency)
+  if (Math.abs(paycheck - reported.paycheck) > TOLERANCE) {
+    return mismatch(null, 'paycheck', paycheck, reported.paycheck)
+  }
+
+  let state = getStartingState(reported)
+  for (const round of reported.iterationHistory) {
+    // Allocate every category in order, as the game does
+    for (const category of state.categories) {
+      const allocation = round.allocations[category.key]
+      const instrument = allocation?.instrument || 'creditCard'
+      // Borrowing is limited to the credit the chosen account has left
+      const available = getAvailableDebtAllocation(state, instrument)
+      if (allocation?.source === 'debt' && allocation.amount > available + TOLERANCE) {
+        return mismatch(round.iteration, `allocations.${category.key}`, available, allocation.amount)
+      }
+      const repaid = allocation?.repaid || instrument
+      state = applyCategoryAllocation(state, allocation?.amount || 0, allocation?.source || 'income', instrument, repaid)
+    }
+
+    const events = rollEventsForState(state)
+    if (describeEvents(events) !== describeEvents(round.randomEvents)) {
+      return mismatch(round.iteration, 'randomEvents', describeEvents(events), describeEvents(round.randomEvents))
+    }
+
+    state = advancePeriod(state, state.allocations, events).state
+    const replayed = state.iterationHistory[state.iterationHistory.length - 1]
+    const outcomes: [string, number, number][] = [
+      ['balance', replayed.balance, round.balance],
+      ['savings', replayed.savings, round.savings],
+      ['investments', replayed.investments, round.investments],
+      ['debt', replayed.debt, round.debt],
+      ['score', replayed.score.score, round.score.score]
+    ]
+    for (const [field, expected, value] of outcomes) {
+      if (Math.abs(expected - value) > TOLERANCE) {
+        return mismatch(round.iteration, field, expected, value)
+      }
+    }
+  }
+
+  const totals: [string, number, number][] = [
+    ['iteration', state.iteration, reported.iteration],
+    ['currentBalance', state.currentBalance, reported.currentBalance],
+    ['savings', state.savings, reported.savings],
+    ['investments', state.investments, reported.investments],
+    ['debt', getTotalDebt(state.debtAccounts), getTotalDebt(reported.debtAccounts)]
+  ]
+  for (const [field, expected, value] of totals) {
+    if (Math.abs(expected - value) > TOLERANCE) {
+      return mismatch(null, field, expected, value)
+    }
+  }
+
+  // A run that says it is over must have played every round to the end
+  const finished = state.stage === 'game_over' && state.iterationHistory.length === state.totalRounds
+  if (reported.stage === 'game_over' && !finished) {
+    return mismatch(null, 'stage', state.stage, reported.stage)
+  }
+  return { ok: true, state }
+}
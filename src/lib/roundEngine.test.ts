@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest'
+import type { GameState } from '@/lib/allocationLogic'
+import { createDebtAccounts, OVER_LIMIT_FEE } from '@/lib/debtAccounts'
+import { createInitialGameState } from '@/lib/gameDefaults'
+import { INVESTMENT_WITHDRAWAL_PENALTY } from '@/lib/investments'
+import { accruesInterest, advancePeriod, getPeriodBudget } from '@/lib/roundEngine'
+
+function createState(overrides: Partial<GameState> = {}): GameState {
+  return {
+    ...createInitialGameState(),
+    stage: 'budget_allocation',
+    grossMonthlySalary: 4000,
+    monthlySalary: 3000,
+    location: 'Austin, TX',
+    payFrequency: 'monthly',
+    paycheck: 3000,
+    housingCost: 1200,
+    utilityCost: 200,
+    seed: 1,
+    debtAccounts: createDebtAccounts(4000),
+    ...overrides
+  }
+}
+
+function getBalance(state: GameState, id: string): number {
+  return state.debtAccounts.find(account => account.id === id)?.balance || 0
+}
+
+describe('getPeriodBudget', () => {
+  it('adds the carried-over balance to the paycheck', () => {
+    const budget = getPeriodBudget(createState({ currentBalance: 250 }))
+    expect(budget.carryover).toBe(250)
+    expect(budget.periodIncome).toBe(3250)
+    expect(budget.discretionaryIncome).toBe(3250 - 1400)
+  })
+
+  it('carries over what was left unspent in the previous round', () => {
+    const { state } = advancePeriod(createState(), { groceries: { amount: 1000, emoji: '🛒' } }, [])
+    expect(state.currentBalance).toBe(600)
+    expect(getPeriodBudget(state).periodIncome).toBe(3600)
+  })
+
+  it('prorates monthly fixed costs to the pay period', () => {
+    const budget = getPeriodBudget(createState({ payFrequency: 'biweekly', paycheck: 1500 }))
+    expect(budget.housing).toBeCloseTo(1200 * 12 / 26)
+    expect(budget.utilities).toBeCloseTo(200 * 12 / 26)
+    expect(budget.fixedCosts).toBeCloseTo(1400 * 12 / 26)
+    expect(budget.discretionaryIncome).toBeCloseTo(1500 - 1400 * 12 / 26)
+  })
+
+  it('includes recurring expenses due in the round', () => {
+    const budget = getPeriodBudget(createState({
+      recurringExpenses: [{ id: 'insurance', label: 'Insurance', amount: 100, frequency: 'monthly' }]
+    }))
+    expect(budget.recurringExpenses).toBe(100)
+    expect(budget.fixedCosts).toBe(1500)
+  })
+})
+
+describe('advancePeriod shortfall', () => {
+  // 1600 left after fixed costs, so spending 2000 from income leaves a 400 shortfall
+  const overspend = { groceries: { amount: 2000, emoji: '🛒' } }
+
+  it('covers a shortfall from savings first', () => {
+    const { state, breakdown } = advancePeriod(createState({ savings: 1000, investments: 1000 }), overspend, [])
+    expect(breakdown.coveredBySavings).toBe(400)
+    expect(breakdown.coveredByInvestments).toBe(0)
+    expect(breakdown.debtFromShortfall).toBe(0)
+    expect(state.currentBalance).toBe(0)
+  })
+
+  it('sells investments at a penalty once savings run out', () => {
+    const state = createState({ savings: 100, investments: 1000 })
+    const { breakdown } = advancePeriod(state, {}, [{ id: 'carRepair', adjustment: -2000 }])
+    const shortfall = -breakdown.balanceBeforeFallback
+    expect(breakdown.coveredBySavings).toBe(100)
+    expect(breakdown.coveredByInvestments).toBeCloseTo(shortfall - 100)
+    expect(breakdown.investmentPenalty).toBeCloseTo((shortfall - 100) / (1 - INVESTMENT_WITHDRAWAL_PENALTY) * INVESTMENT_WITHDRAWAL_PENALTY)
+    expect(breakdown.debtFromShortfall).toBeCloseTo(0)
+  })
+
+  it('puts what savings and investments cannot cover on the credit card', () => {
+    const { state, breakdown } = advancePeriod(createState({ savings: 100, investments: 100 }), overspend, [])
+    const coveredByInvestments = 100 * (1 - INVESTMENT_WITHDRAWAL_PENALTY)
+    expect(breakdown.coveredBySavings).toBe(100)
+    expect(breakdown.coveredByInvestments).toBeCloseTo(coveredByInvestments)
+    expect(breakdown.debtFromShortfall).toBeCloseTo(300 - coveredByInvestments)
+    expect(state.savings).toBe(0)
+    expect(state.investments).toBeCloseTo(0)
+    expect(getBalance(state, 'creditCard')).toBeGreaterThan(300 - coveredByInvestments)
+    expect(state.currentBalance).toBe(0)
+  })
+})
+
+describe('monthly statements', () => {
+  it('closes on the last pay period of each month', () => {
+    expect(accruesInterest(1, 'monthly')).toBe(true)
+    expect(accruesInterest(1, 'biweekly')).toBe(false)
+    expect(accruesInterest(2, 'biweekly')).toBe(false)
+    expect(accruesInterest(3, 'biweekly')).toBe(true)
+    expect(accruesInterest(1, 'semimonthly')).toBe(false)
+    expect(accruesInterest(2, 'semimonthly')).toBe(true)
+    expect(accruesInterest(4, 'weekly')).toBe(false)
+    expect(accruesInterest(5, 'weekly')).toBe(true)
+  })
+
+  it('charges interest and sets minimum payments only when a month closes', () => {
+    const debtAccounts = createDebtAccounts(4000).map(account =>
+      account.id === 'creditCard' ? { ...account, balance: 1000 } : account
+    )
+    const start = createState({ payFrequency: 'biweekly', paycheck: 1500, debtAccounts })
+
+    const first = advancePeriod(start, {}, [])
+    expect(first.breakdown.interestAccrued).toBe(0)
+    expect(first.breakdown.investmentReturnRate).toBeNull()
+    expect(getBalance(first.state, 'creditCard')).toBe(1000)
+
+    const second = advancePeriod(first.state, {}, [])
+    expect(second.breakdown.interestAccrued).toBe(0)
+
+    const third = advancePeriod(second.state, {}, [])
+    expect(third.breakdown.interestAccrued).toBeCloseTo(1000 * 0.22 / 12)
+    expect(third.breakdown.investmentReturnRate).not.toBeNull()
+    const card = third.state.debtAccounts.find(account => account.id === 'creditCard')
+    expect(card?.balance).toBeCloseTo(1000 + 1000 * 0.22 / 12)
+    expect(card?.minimumDue).toBeGreaterThan(0)
+  })
+
+  it('charges a late fee when the minimum was not paid by the statement', () => {
+    const debtAccounts = createDebtAccounts(4000).map(account =>
+      account.id === 'creditCard' ? { ...account, balance: 1000, minimumDue: 30 } : account
+    )
+    const { breakdown } = advancePeriod(createState({ debtAccounts }), {}, [])
+    expect(breakdown.lateFees).toBe(35)
+  })
+})
+
+describe('advancePeriod credit limits', () => {
+  it('spills a shortfall beyond the credit card limit onto the other accounts', () => {
+    // Card limit 3000, personal loan 8000
+    const { state, breakdown } = advancePeriod(createState(), {}, [{ id: 'reducedHours', adjustment: -5600 }])
+    expect(breakdown.debtFromShortfall).toBe(4000)
+    expect(getBalance(state, 'creditCard')).toBeGreaterThanOrEqual(3000)
+    expect(getBalance(state, 'personalLoan')).toBeGreaterThan(1000)
+    expect(breakdown.overLimitFee).toBe(0)
+  })
+
+  it('charges an over-limit fee once every account is at its limit', () => {
+    const debtAccounts = createDebtAccounts(4000).map(account => ({ ...account, balance: account.limit }))
+    const { state, breakdown } = advancePeriod(createState({ debtAccounts }), { groceries: { amount: 2000, emoji: '🛒' } }, [])
+    expect(breakdown.overLimit).toBe(400)
+    expect(breakdown.overLimitFee).toBe(OVER_LIMIT_FEE)
+    const card = state.debtAccounts.find(account => account.id === 'creditCard')
+    expect(card?.balance).toBeGreaterThan(3000 + 400 + OVER_LIMIT_FEE)
+  })
+})
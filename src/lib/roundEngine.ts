@@ -0,0 +1,271 @@
+import type { BudgetAllocation, GameState, RandomEvent } from '@/lib/allocationLogic'
+import { borrow, closeStatements, getTotalDebt } from '@/lib/debtAccounts'
+import {
+  getInvestmentReturnRate,
+  getMonthlySavingsInterest,
+  withdrawFromInvestments
+} from '@/lib/investments'
+import {
+  closesMonth,
+  getMonthForRound,
+  monthsToRounds,
+  prorateMonthly,
+  DEFAULT_PAY_FREQUENCY,
+  type PayFrequency
+} from '@/lib/payFrequency'
+import { getRoundExpenseCharges, type ExpenseCharge } from '@/lib/recurringExpenses'
+import { getRoundFlows, scoreRound, type RoundScore } from '@/lib/scoring'
+
+// Default simulation length: 6 months of bi-weekly pay
+export const DEFAULT_TOTAL_ROUNDS = monthsToRounds(6, DEFAULT_PAY_FREQUENCY)
+
+// Simulation lengths offered on the salary screen; anything else is a custom length
+export const SIMULATION_LENGTH_PRESETS = [
+  { key: 'threeMonths', months: 3 },
+  { key: 'sixMonths', months: 6 },
+  { key: 'oneYear', months: 12 }
+]
+
+export const MIN_TOTAL_ROUNDS = 1
+export const MAX_TOTAL_ROUNDS = 104
+
+// Clamp a player-entered round count to a playable whole number
+export function normalizeTotalRounds(rounds: number): number {
+  if (!Number.isFinite(rounds)) {
+    return DEFAULT_TOTAL_ROUNDS
+  }
+  return Math.min(MAX_TOTAL_ROUNDS, Math.max(MIN_TOTAL_ROUNDS, Math.round(rounds)))
+}
+
+export interface PeriodBudget {
+  carryover: number
+  income: number
+  periodIncome: number
+  housing: number
+  utilities: number
+  // Recurring expenses due this round, line by line
+  recurringCharges: ExpenseCharge[]
+  recurringExpenses: number
+  fixedCosts: number
+  discretionaryIncome: number
+}
+
+export interface PeriodBreakdown extends PeriodBudget {
+  totalSpending: number
+  incomeFundedSpending: number
+  savingsFundedSpending: number
+  debtFundedSpending: number
+  eventAdjustment: number
+  balanceBeforeFallback: number
+  coveredBySavings: number
+  coveredByInvestments: number
+  investmentPenalty: number
+  debtFromShortfall: number
+  // Part of the shortfall no account had credit left for, and the fee for going over the limit
+  overLimit: number
+  overLimitFee: number
+  interestAccrued: number
+  lateFees: number
+  savingsInterest: number
+  investmentReturn: number
+  // Market return applied this round, or null when the round does not close a month
+  investmentReturnRate: number | null
+  endingBalance: number
+  endingSavings: number
+  endingInvestments: number
+  endingDebt: number
+  // Financial health score of the round
+  score: RoundScore
+}
+
+// Money available to a round before the player allocates anything
+export function getPeriodBudget(state: GameState): PeriodBudget {
+  const carryover = state.currentBalance
+  const income = state.paycheck
+  const periodIncome = carryover + income
+  const housing = prorateMonthly(state.housingCost, state.payFrequency)
+  const utilities = prorateMonthly(state.utilityCost, state.payFrequency)
+  const recurringCharges = getRoundExpenseCharges(state.recurringExpenses, state.iteration, state.payFrequency)
+  const recurringExpenses = recurringCharges.reduce((total, charge) => total + charge.amount, 0)
+  const fixedCosts = housing + utilities + recurringExpenses
+
+  return {
+    carryover,
+    income,
+    periodIncome,
+    housing,
+    utilities,
+    recurringCharges,
+    recurringExpenses,
+    fixedCosts,
+    discretionaryIncome: periodIncome - fixedCosts
+  }
+}
+
+// Split the round's allocations by the pot that funded them
+export function sumAllocationsBySource(allocations: Record<string, BudgetAllocation>) {
+  return Object.values(allocations).reduce(
+    (totals, allocation) => {
+      const source = allocation.source || 'income'
+      totals[source] += allocation.amount
+      return totals
+    },
+    { income: 0, savings: 0, debt: 0 }
+  )
+}
+
+// Debt statements (interest, late fees, new minimum payments) close at the end of
+// the last pay period of each month, together with savings interest and
+// investment returns
+export function accruesInterest(iteration: number, frequency: PayFrequency): boolean {
+  return closesMonth(iteration, frequency)
+}
+
+// Total balance impact of a round's events
+export function sumEventAdjustments(events: RandomEvent[]): number {
+  return events.reduce((total, event) => total + event.adjustment, 0)
+}
+
+// Close the current round: charge fixed costs and spending, apply the random events,
+// cover any shortfall from savings, then investments and then debt,
+// close monthly debt statements, credit savings interest and investment returns,
+// score the round and record it in the iteration history.
+// Savings deposits, debt repayments and savings/debt-funded spending were already
+// applied to the state by the allocation handlers, so only income-funded spending
+// is charged against the balance here.
+export function advancePeriod(
+  state: GameState,
+  allocations: Record<string, BudgetAllocation>,
+  events: RandomEvent[]
+): { state: GameState; breakdown: PeriodBreakdown } {
+  const budget = getPeriodBudget(state)
+  const bySource = sumAllocationsBySource(allocations)
+  const eventAdjustment = sumEventAdjustments(events)
+
+  const balanceBeforeFallback = budget.discretionaryIncome - bySource.income + eventAdjustment
+  let endingBalance = balanceBeforeFallback
+  let endingSavings = state.savings
+  let endingInvestments = state.investments
+  let debtAccounts = state.debtAccounts
+  let coveredBySavings = 0
+  let coveredByInvestments = 0
+  let investmentPenalty = 0
+  let debtFromShortfall = 0
+  let overLimit = 0
+  let overLimitFee = 0
+
+  // If balance goes negative, use liquid savings first, then sell investments at a
+  // penalty, then borrow the rest, starting with the credit card
+  if (endingBalance < 0) {
+    const shortfall = Math.abs(endingBalance)
+    coveredBySavings = Math.min(endingSavings, shortfall)
+    endingSavings -= coveredBySavings
+    const withdrawal = withdrawFromInvestments(endingInvestments, shortfall - coveredBySavings)
+    coveredByInvestments = withdrawal.covered
+    investmentPenalty = withdrawal.penalty
+    endingInvestments -= withdrawal.sold
+    debtFromShortfall = shortfall - coveredBySavings - coveredByInvestments
+    const borrowed = borrow(debtAccounts, 'creditCard', debtFromShortfall)
+    debtAccounts = borrowed.accounts
+    overLimit = borrowed.overLimit
+    overLimitFee = borrowed.overLimitFee
+    endingBalance = 0
+  }
+
+  let interestAccrued = 0
+  let lateFees = 0
+  let savingsInterest = 0
+  let investmentReturn = 0
+  let investmentReturnRate: number | null = null
+  if (accruesInterest(state.iteration, state.payFrequency)) {
+    const statement = closeStatements(debtAccounts)
+    debtAccounts = statement.accounts
+    interestAccrued = statement.interest
+    lateFees = statement.lateFees
+
+    savingsInterest = getMonthlySavingsInterest(endingSavings, state.savingsApy)
+    endingSavings += savingsInterest
+    investmentReturnRate = getInvestmentReturnRate(state.seed, getMonthForRound(state.iteration, state.payFrequency))
+    investmentReturn = endingInvestments * investmentReturnRate
+    endingInvestments += investmentReturn
+  }
+  const endingDebt = getTotalDebt(debtAccounts)
+
+  const flows = getRoundFlows(
+    allocations,
+    state.categories,
+    budget.income,
+    budget.fixedCosts,
+    bySource.debt > 0 || debtFromShortfall > 0
+  )
+  const score = scoreRound(
+    flows,
+    { debt: endingDebt, savings: endingSavings },
+    state.monthlySalary,
+    state.payFrequency,
+    state.iterationHistory
+  )
+
+  const nextIteration = state.iteration + 1
+
+  // Multi-round events keep applying until their duration runs out
+  const activeEvents = events
+    .filter(event => (event.roundsRemaining || 1) > 1)
+    .map(event => ({ ...event, roundsRemaining: (event.roundsRemaining || 1) - 1 }))
+
+  return {
+    state: {
+      ...state,
+      currentBalance: endingBalance,
+      savings: endingSavings,
+      investments: endingInvestments,
+      debtAccounts,
+      iteration: nextIteration,
+      currentCategoryIndex: 0,
+      allocations: {},
+      allocatedAmount: 0,
+      activeEvents,
+      iterationHistory: [
+        ...state.iterationHistory,
+        {
+          iteration: state.iteration,
+          balance: endingBalance,
+          allocations,
+          debt: endingDebt,
+          savings: endingSavings,
+          investments: endingInvestments,
+          savingsInterest,
+          investmentReturn,
+          randomEvents: events,
+          score
+        }
+      ],
+      stage: nextIteration > state.totalRounds ? 'game_over' : 'budget_allocation'
+    },
+    breakdown: {
+      ...budget,
+      totalSpending: bySource.income + bySource.savings + bySource.debt,
+      incomeFundedSpending: bySource.income,
+      savingsFundedSpending: bySource.savings,
+      debtFundedSpending: bySource.debt,
+      eventAdjustment,
+      balanceBeforeFallback,
+      coveredBySavings,
+      coveredByInvestments,
+      investmentPenalty,
+      debtFromShortfall,
+      overLimit,
+      overLimitFee,
+      interestAccrued,
+      lateFees,
+      savingsInterest,
+      investmentReturn,
+      investmentReturnRate,
+      endingBalance,
+      endingSavings,
+      endingInvestments,
+      endingDebt,
+      score
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { createDebtAccounts } from '@/lib/debtAccounts'
+import { createInitialGameState } from '@/lib/gameDefaults'
+import { advancePeriod } from '@/lib/roundEngine'
+import { createRunCsv } from '@/lib/runFile'
+
+function playOneRound(labels: Record<string, string>) {
+  const start = {
+    ...createInitialGameState(),
+    stage: 'budget_allocation' as const,
+    grossMonthlySalary: 4000,
+    monthlySalary: 3000,
+    payFrequency: 'monthly' as const,
+    paycheck: 3000,
+    housingCost: 1200,
+    seed: 1,
+    debtAccounts: createDebtAccounts(4000),
+    categories: [
+      { key: 'groceries', emoji: '🛒', type: 'spending' as const, builtIn: true },
+      ...Object.keys(labels).map(key => ({ key, emoji: '🧩', type: 'spending' as const, label: labels[key] }))
+    ]
+  }
+  const { state } = advancePeriod(start, { groceries: { amount: 300, emoji: '🛒' } }, [{ id: 'carRepairs', adjustment: -150 }])
+  return state
+}
+
+describe('createRunCsv', () => {
+  const labels = {
+    'custom-1': '=HYPERLINK("http://example.com")',
+    'custom-2': '+1 gym',
+    'custom-3': '@SUM(A1)',
+    'custom-4': 'Line\rbreak, "quoted"'
+  }
+  const state = playOneRound(labels)
+  const csv = createRunCsv(state, key => labels[key as keyof typeof labels] || key)
+
+  it('keeps spreadsheets from running labels that start like formulas', () => {
+    expect(csv).toContain(`"'=HYPERLINK(""http://example.com"")"`)
+    expect(csv).toContain(`,'+1 gym,`)
+    expect(csv).toContain(`,'@SUM(A1),`)
+  })
+
+  it('quotes cells with carriage returns, commas or quotes', () => {
+    expect(csv).toContain('"Line\rbreak, ""quoted"""')
+  })
+
+  it('leaves negative numbers as numbers', () => {
+    expect(csv).toContain(',-150.00,')
+    expect(csv).not.toContain("'-150.00")
+  })
+})
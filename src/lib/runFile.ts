@@ -0,0 +1,183 @@
+import type { GameState, IterationHistoryItem } from '@/lib/allocationLogic'
+import { validateGameState, type ValidationIssue } from '@/lib/gameStateSchema'
+import { getMonthForRound } from '@/lib/payFrequency'
+
+// Export and import of a whole game run. The JSON document is versioned and holds
+// the setup, every completed round and the in-progress state, so an imported run
+// can be reviewed or continued. The CSV is a flat per-round, per-category table
+// for spreadsheets.
+
+export const RUN_FILE_FORMAT = 'budget-game-run'
+export const RUN_FILE_VERSION = 1
+
+// Settings fixed when the game starts
+export const RUN_CONFIG_KEYS = [
+  'grossMonthlySalary',
+  'monthlySalary',
+  'location',
+  'payFrequency',
+  'paycheck',
+  'totalRounds',
+  'categories',
+  'savingsApy',
+  'housingCost',
+  'utilityCost',
+  'recurringExpenses',
+  'taxRate',
+  'preTaxDeductions',
+  'flatTaxRate',
+  'seed',
+  'goals',
+  'challengeId',
+  'challengeToken'
+] as const satisfies readonly (keyof GameState)[]
+
+export type RunConfig = Pick<GameState, typeof RUN_CONFIG_KEYS[number]>
+
+function isConfigKey(key: string): boolean {
+  return (RUN_CONFIG_KEYS as readonly string[]).includes(key)
+}
+
+// Where the run stands, including a round that is partly allocated
+export type RunProgress = Omit<GameState, keyof RunConfig | 'iterationHistory'>
+
+export interface RunFile {
+  format: typeof RUN_FILE_FORMAT
+  version: number
+  exportedAt: string
+  config: RunConfig
+  // Allocations, events and balances of every completed round
+  rounds: IterationHistoryItem[]
+  progress: RunProgress
+}
+
+export type RunImportResult =
+  | { ok: true; state: GameState }
+  | { ok: false; error: 'notJson' | 'wrongFormat' | 'unsupportedVersion' | 'invalid'; issues: ValidationIssue[] }
+
+export function createRunFile(state: GameState): RunFile {
+  const { iterationHistory, ...rest } = state
+  const config = Object.fromEntries(RUN_CONFIG_KEYS.map(key => [key, state[key]])) as RunConfig
+  const progress = Object.fromEntries(
+    Object.entries(rest).filter(([key]) => !isConfigKey(key))
+  ) as RunProgress
+
+  return {
+    format: RUN_FILE_FORMAT,
+    version: RUN_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    config,
+    rounds: iterationHistory,
+    progress
+  }
+}
+
+// Put the parts of a run back together into a game state
+export function joinRunParts({ config, rounds, progress }: Pick<RunFile, 'config' | 'rounds' | 'progress'>): GameState {
+  return { ...progress, ...config, iterationHistory: rounds } as GameState
+}
+
+// Point a validation issue at where the value sits in the file rather than in GameState
+function toFilePath(path: string): string {
+  const [, field, rest] = /^([^.[]+)(.*)$/.exec(path) || [path, path, '']
+  if (field === 'iterationHistory') {
+    return `rounds${rest}`
+  }
+  return `${isConfigKey(field) ? 'config' : 'progress'}.${field}${rest}`
+}
+
+export function serializeRunFile(state: GameState): string {
+  return JSON.stringify(createRunFile(state), null, 2)
+}
+
+// Parse and validate an exported run, reporting every problem found
+export function parseRunFile(text: string): RunImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { ok: false, error: 'notJson', issues: [] }
+  }
+
+  if (typeof data !== 'object' || data === null || (data as RunFile).format !== RUN_FILE_FORMAT) {
+    return { ok: false, error: 'wrongFormat', issues: [] }
+  }
+  const file = data as RunFile
+  if (file.version !== RUN_FILE_VERSION) {
+    return {
+      ok: false,
+      error: 'unsupportedVersion',
+      issues: [{ path: 'version', message: `must be ${RUN_FILE_VERSION}` }]
+    }
+  }
+
+  const state = joinRunParts(file)
+  const issues = validateGameState(state, '')
+  if (issues.length > 0) {
+    return { ok: false, error: 'invalid', issues: issues.map(issue => ({ ...issue, path: toFilePath(issue.path) })) }
+  }
+  return { ok: true, state }
+}
+
+// Text such as a player-named category that starts like a formula is prefixed with
+// a quote so spreadsheets show it instead of running it; plain numbers like "-150.00"
+// are left as they are
+function escapeCsv(value: string | number): string {
+  const raw = String(value)
+  const text = /^[=+\-@\t\r]/.test(raw) && !/^-?\d+(\.\d+)?$/.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const RUN_CSV_COLUMNS = [
+  'round',
+  'month',
+  'category_key',
+  'category',
+  'category_type',
+  'amount',
+  'source',
+  'events',
+  'event_adjustment',
+  'ending_balance',
+  'ending_savings',
+  'ending_investments',
+  'ending_debt',
+  'savings_interest',
+  'investment_return',
+  'round_score',
+  'round_grade'
+]
+
+// One row per completed round and category, with the round's totals repeated on each row
+export function createRunCsv(state: GameState, getCategoryLabel: (key: string) => string): string {
+  const rows = state.iterationHistory.flatMap(round => {
+    const events = round.randomEvents.map(event => event.id).join(';')
+    const eventAdjustment = round.randomEvents.reduce((total, event) => total + event.adjustment, 0)
+    return state.categories.map(category => {
+      const allocation = round.allocations[category.key]
+      return [
+        round.iteration,
+        getMonthForRound(round.iteration, state.payFrequency),
+        category.key,
+        getCategoryLabel(category.key),
+        category.type,
+        (allocation?.amount || 0).toFixed(2),
+        allocation?.source || 'income',
+        events,
+        eventAdjustment.toFixed(2),
+        round.balance.toFixed(2),
+        round.savings.toFixed(2),
+        round.investments.toFixed(2),
+        round.debt.toFixed(2),
+        round.savingsInterest.toFixed(2),
+        round.investmentReturn.toFixed(2),
+        round.score.score,
+        round.score.grade
+      ]
+    })
+  })
+
+  return [RUN_CSV_COLUMNS, ...rows]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\n')
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { getSaveDefaults } from '@/lib/gameDefaults'
+import {
+  listSaves,
+  MAX_SAVE_SLOTS,
+  migrateSave,
+  SAVE_FORMAT_VERSION,
+  SAVE_KEY_PREFIX,
+  writeSave,
+  type SaveGame,
+  type SaveStorage
+} from '@/lib/saveGames'
+
+function createStorage(): SaveStorage {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: key => {
+      items.delete(key)
+    }
+  }
+}
+
+function createSave(id: string, updatedAt: string): SaveGame {
+  const defaults = getSaveDefaults()
+  return {
+    version: SAVE_FORMAT_VERSION,
+    id,
+    name: id,
+    createdAt: updatedAt,
+    updatedAt,
+    state: { ...defaults.state, stage: 'budget_allocation', location: 'Austin, TX' },
+    ui: defaults.ui
+  }
+}
+
+describe('migrateSave', () => {
+  it('upgrades a save from an older version through each migration', () => {
+    const old = { version: SAVE_FORMAT_VERSION - 1, id: 'slot', title: 'First game', state: { stage: 'summary' } }
+    const save = migrateSave(old, getSaveDefaults(), {
+      [SAVE_FORMAT_VERSION - 1]: ({ title, ...rest }) => ({ ...rest, name: title, version: SAVE_FORMAT_VERSION })
+    })
+    expect(save?.version).toBe(SAVE_FORMAT_VERSION)
+    expect(save?.name).toBe('First game')
+    expect(save?.state.stage).toBe('summary')
+  })
+
+  it('rejects an older version it has no migration for', () => {
+    expect(migrateSave({ version: SAVE_FORMAT_VERSION - 1, id: 'slot', state: { stage: 'summary' } }, getSaveDefaults())).toBeNull()
+  })
+
+  it('fills in fields the save predates from the defaults', () => {
+    const defaults = getSaveDefaults()
+    const save = migrateSave({
+      version: SAVE_FORMAT_VERSION,
+      id: 'slot',
+      state: { stage: 'budget_allocation', location: 'Austin, TX' },
+      ui: { currentAmount: 120 }
+    }, defaults)
+    expect(save?.name).toBe('')
+    expect(save?.createdAt).toBe(new Date(0).toISOString())
+    expect(save?.state).toEqual({ ...defaults.state, stage: 'budget_allocation', location: 'Austin, TX' })
+    expect(save?.ui).toEqual({ ...defaults.ui, currentAmount: 120 })
+  })
+
+  it('rejects a save from a newer version', () => {
+    expect(migrateSave({ ...createSave('slot', '2026-01-01'), version: SAVE_FORMAT_VERSION + 1 }, getSaveDefaults())).toBeNull()
+  })
+
+  it('rejects anything that is not a save', () => {
+    expect(migrateSave(null, getSaveDefaults())).toBeNull()
+    expect(migrateSave({ version: SAVE_FORMAT_VERSION, id: 'slot' }, getSaveDefaults())).toBeNull()
+  })
+})
+
+describe('writeSave', () => {
+  it('drops the oldest slots beyond the limit', () => {
+    const storage = createStorage()
+    const defaults = getSaveDefaults()
+    for (let day = 1; day <= MAX_SAVE_SLOTS + 2; day++) {
+      const date = `2026-01-${String(day).padStart(2, '0')}`
+      expect(writeSave(storage, createSave(`slot-${day}`, date), defaults)).toBe(true)
+    }
+
+    const ids = listSaves(storage, defaults).map(save => save.id)
+    expect(ids).toHaveLength(MAX_SAVE_SLOTS)
+    expect(ids).not.toContain('slot-1')
+    expect(ids).not.toContain('slot-2')
+    expect(storage.getItem(SAVE_KEY_PREFIX + 'slot-1')).toBeNull()
+  })
+
+  it('keeps the save being written even when it is the oldest', () => {
+    const storage = createStorage()
+    const defaults = getSaveDefaults()
+    for (let day = 1; day <= MAX_SAVE_SLOTS; day++) {
+      writeSave(storage, createSave(`slot-${day}`, `2026-02-${String(day).padStart(2, '0')}`), defaults)
+    }
+    writeSave(storage, createSave('imported', '2025-12-31'), defaults)
+
+    const ids = listSaves(storage, defaults).map(save => save.id)
+    expect(ids).toHaveLength(MAX_SAVE_SLOTS)
+    expect(ids).toContain('imported')
+    expect(ids).not.toContain('slot-1')
+  })
+})
@@ -0,0 +1,212 @@
+import type { AllocationState, GameState } from '@/lib/allocationLogic'
+import type { BudgetTemplate } from '@/lib/budgetTemplates'
+import type { CostProvenance } from '@/lib/costOfLiving'
+import type { DebtInstrument } from '@/lib/debtAccounts'
+import type { PreTaxDeductions } from '@/lib/taxes'
+
+// Local save slots. Every game autosaves into its own slot after each transition so
+// a refresh, a language switch or an accidental navigation can be resumed.
+// Saves are stored as JSON in localStorage under SAVE_KEY_PREFIX + slot id.
+
+// Bump when the saved shape changes and add a migration from the previous version
+export const SAVE_FORMAT_VERSION = 1
+
+export const SAVE_KEY_PREFIX = 'budget-game:save:'
+export const MAX_SAVE_SLOTS = 10
+
+export interface CostEstimates {
+  housing_cost: number
+  utility_cost: number
+  tax_rate: number
+}
+
+// Server copy of a game (see /api/games); the write key lets this device update it
+export interface RemoteGame {
+  id: string
+  writeKey: string
+}
+
+// In-round UI state that lives outside GameState
+export interface SavedUiState extends AllocationState {
+  debtUsedThisRound: number
+  debtInstrument: DebtInstrument
+  repaymentTarget: DebtInstrument
+  allocationView: 'guided' | 'fullBudget'
+  budgetTemplate: BudgetTemplate | null
+  expertAdvice: string
+  locationEstimates: CostEstimates | null
+  // Where the location estimates came from; null for costs fixed by a challenge
+  costProvenance: CostProvenance | null
+  editableCosts: CostEstimates
+  preTaxDeductions: PreTaxDeductions
+  useFlatTaxRate: boolean
+  remoteGame: RemoteGame | null
+}
+
+export interface SaveGame {
+  version: number
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  state: GameState
+  ui: SavedUiState
+}
+
+// What the slot list shows without parsing every game in full
+export interface SaveSlotSummary {
+  id: string
+  name: string
+  updatedAt: string
+  stage: GameState['stage']
+  iteration: number
+  totalRounds: number
+  location: string
+}
+
+// Fresh game and UI state that fill in anything a save predates
+export interface SaveDefaults {
+  state: GameState
+  ui: SavedUiState
+}
+
+export type SaveStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem' | 'key' | 'length'>
+
+export type RawSave = Record<string, unknown> & { version: number }
+
+// Migrations keyed by the version they upgrade from; each returns the next version
+export type SaveMigrations = Record<number, (save: RawSave) => RawSave>
+
+// Fields added to GameState or SavedUiState with a sensible default need no migration,
+// since loading fills them in from the defaults.
+const MIGRATIONS: SaveMigrations = {}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Upgrade a stored save to the current format and fill in fields it predates.
+// Returns null for anything that is not a save or comes from a newer version.
+export function migrateSave(
+  raw: unknown,
+  defaults: SaveDefaults,
+  migrations: SaveMigrations = MIGRATIONS
+): SaveGame | null {
+  if (!isRecord(raw) || typeof raw.version !== 'number' || typeof raw.id !== 'string') {
+    return null
+  }
+  let save = raw as RawSave
+  while (save.version < SAVE_FORMAT_VERSION) {
+    const migrate = migrations[save.version]
+    if (!migrate) {
+      return null
+    }
+    save = migrate(save)
+  }
+  if (save.version !== SAVE_FORMAT_VERSION || !isRecord(save.state) || typeof save.state.stage !== 'string') {
+    return null
+  }
+
+  return {
+    version: SAVE_FORMAT_VERSION,
+    id: save.id as string,
+    name: typeof save.name === 'string' ? save.name : '',
+    createdAt: typeof save.createdAt === 'string' ? save.createdAt : new Date(0).toISOString(),
+    updatedAt: typeof save.updatedAt === 'string' ? save.updatedAt : new Date(0).toISOString(),
+    state: { ...defaults.state, ...save.state } as GameState,
+    ui: { ...defaults.ui, ...(isRecord(save.ui) ? save.ui : {}) } as SavedUiState
+  }
+}
+
+export function createSaveId(): string {
+  return `${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`
+}
+
+function getSaveKeys(storage: SaveStorage): string[] {
+  const keys: string[] = []
+  for (let index = 0; index < storage.length; index++) {
+    const key = storage.key(index)
+    if (key?.startsWith(SAVE_KEY_PREFIX)) {
+      keys.push(key)
+    }
+  }
+  return keys
+}
+
+export function loadSave(storage: SaveStorage, id: string, defaults: SaveDefaults): SaveGame | null {
+  try {
+    const raw = storage.getItem(SAVE_KEY_PREFIX + id)
+    return raw ? migrateSave(JSON.parse(raw), defaults) : null
+  } catch {
+    return null
+  }
+}
+
+// Every readable save, most recently played first
+export function listSaves(storage: SaveStorage, defaults: SaveDefaults): SaveGame[] {
+  return getSaveKeys(storage)
+    .map(key => loadSave(storage, key.slice(SAVE_KEY_PREFIX.length), defaults))
+    .filter((save): save is SaveGame => save !== null)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export function summarizeSave(save: SaveGame): SaveSlotSummary {
+  return {
+    id: save.id,
+    name: save.name,
+    updatedAt: save.updatedAt,
+    stage: save.state.stage,
+    iteration: save.state.iteration,
+    totalRounds: save.state.totalRounds,
+    location: save.state.location
+  }
+}
+
+// The most recent save of a game that is still in progress, optionally only among
+// games that `matches` accepts
+export function getResumableSave(
+  storage: SaveStorage,
+  defaults: SaveDefaults,
+  matches: (state: GameState) => boolean = () => true
+): SaveGame | null {
+  return listSaves(storage, defaults).find(save => save.state.stage !== 'game_over' && matches(save.state)) || null
+}
+
+// Write a save, dropping the oldest other slots beyond MAX_SAVE_SLOTS.
+// Returns false when storage is unavailable or full.
+export function writeSave(storage: SaveStorage, save: SaveGame, defaults: SaveDefaults): boolean {
+  try {
+    storage.setItem(SAVE_KEY_PREFIX + save.id, JSON.stringify(save))
+    listSaves(storage, defaults)
+      .filter(existing => existing.id !== save.id)
+      .slice(MAX_SAVE_SLOTS - 1)
+      .forEach(existing => storage.removeItem(SAVE_KEY_PREFIX + existing.id))
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Code that continues a server copy on another device: "<id>.<write key>"
+export function formatSyncCode(remote: RemoteGame): string {
+  return `${remote.id}.${remote.writeKey}`
+}
+
+export function parseSyncCode(code: string): RemoteGame | null {
+  const [id, writeKey, ...rest] = code.trim().split('.')
+  return id && writeKey && rest.length === 0 ? { id, writeKey } : null
+}
+
+export function deleteSave(storage: SaveStorage, id: string): void {
+  storage.removeItem(SAVE_KEY_PREFIX + id)
+}
+
+export function renameSave(
+  storage: SaveStorage,
+  id: string,
+  name: string,
+  defaults: SaveDefaults
+): boolean {
+  const save = loadSave(storage, id, defaults)
+  return save ? writeSave(storage, { ...save, name }, defaults) : false
+}
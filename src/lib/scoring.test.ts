@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest'
+import type { BudgetCategory } from '@/lib/categories'
+import {
+  computeMetrics,
+  getLetterGrade,
+  getRoundFlows,
+  scoreGame,
+  scoreMetrics,
+  scoreRound,
+  SCORE_WEIGHTS,
+  toMonthly,
+  type RoundFlows,
+  type RoundScore,
+  type ScoreMetrics
+} from '@/lib/scoring'
+import { createRunState, playRun } from '@/test/runs'
+
+// Metrics that earn full marks on every metric
+const BEST: ScoreMetrics = {
+  savingsRate: 0.2,
+  debtToIncome: 0,
+  emergencyFundMonths: 3,
+  essentialsShare: 0.7,
+  debtUsage: 0
+}
+
+describe('scoreMetrics', () => {
+  it('gives full points at every target', () => {
+    const result = scoreMetrics(BEST)
+    expect(result.points).toEqual(SCORE_WEIGHTS)
+    expect(result.score).toBe(100)
+    expect(result.grade).toBe('A')
+  })
+
+  it('gives half the points halfway to each target', () => {
+    const result = scoreMetrics({
+      savingsRate: 0.1,
+      debtToIncome: 1,
+      emergencyFundMonths: 1.5,
+      // Wants at 45% of spending, halfway between 30% and 60%
+      essentialsShare: 0.55,
+      debtUsage: 0.5
+    })
+    expect(result.points).toEqual({
+      savingsRate: 12.5,
+      debtToIncome: 10,
+      emergencyFundMonths: 10,
+      essentialsShare: 7.5,
+      debtUsage: 10
+    })
+    expect(result.score).toBe(50)
+    expect(result.grade).toBe('F')
+  })
+
+  it('gives nothing at or past the worst values', () => {
+    const result = scoreMetrics({
+      savingsRate: 0,
+      debtToIncome: 3,
+      emergencyFundMonths: 0,
+      essentialsShare: 0.3,
+      debtUsage: 1
+    })
+    expect(Object.values(result.points)).toEqual([0, 0, 0, 0, 0])
+    expect(result.score).toBe(0)
+  })
+
+  it('caps each metric at its weight', () => {
+    expect(scoreMetrics({ ...BEST, savingsRate: 0.5, emergencyFundMonths: 12, essentialsShare: 1 }).score).toBe(100)
+  })
+})
+
+describe('getLetterGrade', () => {
+  it('grades at each threshold', () => {
+    const grades = [100, 90, 89, 80, 79, 70, 69, 60, 59, 0].map(getLetterGrade)
+    expect(grades).toEqual(['A', 'A', 'B', 'B', 'C', 'C', 'D', 'D', 'F', 'F'])
+  })
+})
+
+describe('computeMetrics', () => {
+  it('measures each metric against income, costs and rounds', () => {
+    const metrics = computeMetrics(
+      { income: 1000, saved: 200, essentials: 700, wants: 300 },
+      { debt: 500, savings: 6000, monthlyIncome: 2000, monthlyEssentials: 1500, roundsWithDebt: 1, rounds: 4 }
+    )
+    expect(metrics).toEqual({
+      savingsRate: 0.2,
+      debtToIncome: 0.25,
+      emergencyFundMonths: 4,
+      essentialsShare: 0.7,
+      debtUsage: 0.25
+    })
+  })
+
+  it('falls back when there is nothing to divide by', () => {
+    const metrics = computeMetrics(
+      { income: 0, saved: 0, essentials: 0, wants: 0 },
+      { debt: 100, savings: 0, monthlyIncome: 0, monthlyEssentials: 0, roundsWithDebt: 0, rounds: 0 }
+    )
+    expect(metrics).toEqual({
+      savingsRate: 0,
+      debtToIncome: 2,
+      emergencyFundMonths: 0,
+      essentialsShare: 1,
+      debtUsage: 0
+    })
+  })
+})
+
+describe('getRoundFlows', () => {
+  const categories: BudgetCategory[] = [
+    { key: 'groceries', emoji: '🛒', type: 'spending', essential: true },
+    { key: 'diningOut', emoji: '🍽️', type: 'spending' },
+    { key: 'savings', emoji: '💰', type: 'savings' },
+    { key: 'investments', emoji: '📈', type: 'investment' },
+    { key: 'debtRepayment', emoji: '💳', type: 'debtRepayment' }
+  ]
+
+  it('splits allocations into saved money, essentials and wants', () => {
+    const flows = getRoundFlows(
+      {
+        groceries: { amount: 300, emoji: '🛒' },
+        diningOut: { amount: 100, emoji: '🍽️', source: 'debt' },
+        savings: { amount: 200, emoji: '💰' },
+        investments: { amount: 50, emoji: '📈', source: 'savings' },
+        debtRepayment: { amount: 150, emoji: '💳' }
+      },
+      categories,
+      2000,
+      1400,
+      true
+    )
+    expect(flows).toEqual({ income: 2000, saved: 200, essentials: 1700, wants: 100, usedDebt: true })
+  })
+})
+
+describe('toMonthly', () => {
+  it('converts per-round amounts by the pay schedule', () => {
+    expect(toMonthly(1000, 'monthly')).toBe(1000)
+    expect(toMonthly(1200, 'biweekly')).toBe(2600)
+    expect(toMonthly(1200, 'weekly')).toBe(5200)
+  })
+})
+
+describe('scoreGame', () => {
+  it('has no score before the first round', () => {
+    expect(scoreGame([], 2000, 'monthly')).toBeNull()
+  })
+
+  it('scores a finished game from its totals and final balances', () => {
+    const rounds: RoundFlows[] = [
+      { income: 1000, saved: 200, essentials: 600, wants: 200, usedDebt: false },
+      { income: 1000, saved: 0, essentials: 600, wants: 200, usedDebt: true }
+    ]
+    const history: { debt: number; savings: number; score: RoundScore }[] = []
+    for (const flows of rounds) {
+      const balances = { debt: 400, savings: 200 }
+      history.push({ ...balances, score: scoreRound(flows, balances, 2000, 'monthly', history) })
+    }
+
+    const result = scoreGame(history, 2000, 'monthly')
+    expect(result?.metrics).toEqual({
+      savingsRate: 0.1,
+      debtToIncome: 0.2,
+      emergencyFundMonths: 200 / 600,
+      essentialsShare: 0.75,
+      debtUsage: 0.5
+    })
+    expect(result?.points).toEqual({
+      savingsRate: 12.5,
+      debtToIncome: 18,
+      emergencyFundMonths: 2.2,
+      essentialsShare: 15,
+      debtUsage: 10
+    })
+    expect(result?.score).toBe(58)
+    expect(result?.grade).toBe('F')
+  })
+
+  it('grades a played run by its score', () => {
+    const run = playRun(createRunState())
+    const result = scoreGame(run.iterationHistory, run.monthlySalary, run.payFrequency)
+    expect(result?.metrics.debtUsage).toBe(0.5)
+    expect(result?.grade).toBe(getLetterGrade(result?.score ?? -1))
+  })
+})
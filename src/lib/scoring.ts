@@ -0,0 +1,225 @@
+import type { BudgetAllocation } from '@/lib/allocationLogic'
+import type { BudgetCategory } from '@/lib/categories'
+import { getPeriodsPerYear, type PayFrequency } from '@/lib/payFrequency'
+
+// Financial health score. Every round is scored from five metrics, each worth a
+// share of 100 points:
+//
+//   savingsRate         25 pts  income put into savings and investments ÷ income;
+//                               full marks at 20% or more
+//   debtToIncome        20 pts  outstanding debt ÷ net monthly income;
+//                               full marks debt-free, nothing at 2× monthly income
+//   emergencyFundMonths 20 pts  savings ÷ monthly essential costs;
+//                               full marks at 3 months of coverage
+//   essentialsShare     15 pts  essentials ÷ all spending, where essentials are fixed
+//                               costs plus categories marked essential; full marks
+//                               while wants stay at or under 30% of spending,
+//                               nothing at 60%
+//   debtUsage           20 pts  share of rounds so far that borrowed;
+//                               full marks when debt was never used
+//
+// The end-of-game score applies the same rules to the whole run: totals for income,
+// savings and spending, final balances, and the share of all rounds that borrowed.
+
+export type ScoreMetric = 'savingsRate' | 'debtToIncome' | 'emergencyFundMonths' | 'essentialsShare' | 'debtUsage'
+
+export const SCORE_METRICS: ScoreMetric[] = [
+  'savingsRate',
+  'debtToIncome',
+  'emergencyFundMonths',
+  'essentialsShare',
+  'debtUsage'
+]
+
+export const SCORE_WEIGHTS: Record<ScoreMetric, number> = {
+  savingsRate: 25,
+  debtToIncome: 20,
+  emergencyFundMonths: 20,
+  essentialsShare: 15,
+  debtUsage: 20
+}
+
+export const TARGET_SAVINGS_RATE = 0.2
+export const MAX_DEBT_TO_INCOME = 2
+export const TARGET_EMERGENCY_MONTHS = 3
+export const TARGET_WANTS_SHARE = 0.3
+export const MAX_WANTS_SHARE = 0.6
+
+export type LetterGrade = 'A' | 'B' | 'C' | 'D' | 'F'
+
+// Lowest score for each grade, best first
+export const GRADE_THRESHOLDS: { grade: LetterGrade; minScore: number }[] = [
+  { grade: 'A', minScore: 90 },
+  { grade: 'B', minScore: 80 },
+  { grade: 'C', minScore: 70 },
+  { grade: 'D', minScore: 60 },
+  { grade: 'F', minScore: 0 }
+]
+
+// Raw money flows of a round, kept so whole-run metrics can be rebuilt from history
+export interface RoundFlows {
+  income: number
+  saved: number
+  essentials: number
+  wants: number
+  usedDebt: boolean
+}
+
+export interface ScoreMetrics {
+  savingsRate: number
+  debtToIncome: number
+  emergencyFundMonths: number
+  // Essentials ÷ all spending, 0 to 1
+  essentialsShare: number
+  // Share of rounds that borrowed, 0 to 1
+  debtUsage: number
+}
+
+export interface ScoreBreakdown {
+  metrics: ScoreMetrics
+  // Points earned per metric, out of SCORE_WEIGHTS
+  points: Record<ScoreMetric, number>
+  score: number
+  grade: LetterGrade
+}
+
+// Per-round record stored with each history entry
+export interface RoundScore extends ScoreBreakdown {
+  flows: RoundFlows
+}
+
+// Balances and costs the ratio metrics are measured against
+export interface ScoreContext {
+  debt: number
+  savings: number
+  monthlyIncome: number
+  monthlyEssentials: number
+  roundsWithDebt: number
+  rounds: number
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+function ratio(numerator: number, denominator: number, fallback: number): number {
+  return denominator > 0 ? numerator / denominator : fallback
+}
+
+export function getLetterGrade(score: number): LetterGrade {
+  return (GRADE_THRESHOLDS.find(threshold => score >= threshold.minScore) || GRADE_THRESHOLDS[GRADE_THRESHOLDS.length - 1]).grade
+}
+
+// Split a round's allocations into money saved, essentials and wants using the
+// category types; fixed costs always count as essentials
+export function getRoundFlows(
+  allocations: Record<string, BudgetAllocation>,
+  categories: BudgetCategory[],
+  income: number,
+  fixedCosts: number,
+  usedDebt: boolean
+): RoundFlows {
+  const flows: RoundFlows = { income, saved: 0, essentials: fixedCosts, wants: 0, usedDebt }
+  Object.entries(allocations).forEach(([key, allocation]) => {
+    const category = categories.find(entry => entry.key === key)
+    const type = category?.type || 'spending'
+    if (type === 'savings' || type === 'investment') {
+      // Moving money out of savings back into savings is not new saving
+      if ((allocation.source || 'income') === 'income') {
+        flows.saved += allocation.amount
+      }
+    } else if (type === 'spending') {
+      if (category?.essential) {
+        flows.essentials += allocation.amount
+      } else {
+        flows.wants += allocation.amount
+      }
+    }
+  })
+  return flows
+}
+
+// Monthly equivalent of a per-round amount
+export function toMonthly(amount: number, frequency: PayFrequency): number {
+  return amount * getPeriodsPerYear(frequency) / 12
+}
+
+export function computeMetrics(flows: Omit<RoundFlows, 'usedDebt'>, context: ScoreContext): ScoreMetrics {
+  return {
+    savingsRate: ratio(flows.saved, flows.income, 0),
+    debtToIncome: ratio(context.debt, context.monthlyIncome, context.debt > 0 ? MAX_DEBT_TO_INCOME : 0),
+    emergencyFundMonths: ratio(context.savings, context.monthlyEssentials, context.savings > 0 ? TARGET_EMERGENCY_MONTHS : 0),
+    essentialsShare: ratio(flows.essentials, flows.essentials + flows.wants, 1),
+    debtUsage: ratio(context.roundsWithDebt, context.rounds, 0)
+  }
+}
+
+export function scoreMetrics(metrics: ScoreMetrics): ScoreBreakdown {
+  const wantsShare = 1 - metrics.essentialsShare
+  const fractions: Record<ScoreMetric, number> = {
+    savingsRate: clamp01(metrics.savingsRate / TARGET_SAVINGS_RATE),
+    debtToIncome: clamp01(1 - metrics.debtToIncome / MAX_DEBT_TO_INCOME),
+    emergencyFundMonths: clamp01(metrics.emergencyFundMonths / TARGET_EMERGENCY_MONTHS),
+    essentialsShare: clamp01((MAX_WANTS_SHARE - wantsShare) / (MAX_WANTS_SHARE - TARGET_WANTS_SHARE)),
+    debtUsage: clamp01(1 - metrics.debtUsage)
+  }
+  const points = SCORE_METRICS.reduce((result, metric) => {
+    result[metric] = Math.round(fractions[metric] * SCORE_WEIGHTS[metric] * 10) / 10
+    return result
+  }, {} as Record<ScoreMetric, number>)
+  const score = Math.round(SCORE_METRICS.reduce((total, metric) => total + fractions[metric] * SCORE_WEIGHTS[metric], 0))
+
+  return { metrics, points, score, grade: getLetterGrade(score) }
+}
+
+// Score of a single round. Debt usage counts this round together with the earlier
+// ones in `history`.
+export function scoreRound(
+  flows: RoundFlows,
+  balances: { debt: number; savings: number },
+  monthlyIncome: number,
+  frequency: PayFrequency,
+  history: { score: RoundScore }[]
+): RoundScore {
+  const earlierWithDebt = history.filter(item => item.score.flows.usedDebt).length
+  const metrics = computeMetrics(flows, {
+    ...balances,
+    monthlyIncome,
+    monthlyEssentials: toMonthly(flows.essentials, frequency),
+    roundsWithDebt: earlierWithDebt + (flows.usedDebt ? 1 : 0),
+    rounds: history.length + 1
+  })
+  return { ...scoreMetrics(metrics), flows }
+}
+
+// Score of a whole run from its history, or null before the first round is played
+export function scoreGame(
+  history: { debt: number; savings: number; score: RoundScore }[],
+  monthlyIncome: number,
+  frequency: PayFrequency
+): ScoreBreakdown | null {
+  if (history.length === 0) {
+    return null
+  }
+  const totals = history.reduce(
+    (sum, { score: { flows } }) => {
+      sum.income += flows.income
+      sum.saved += flows.saved
+      sum.essentials += flows.essentials
+      sum.wants += flows.wants
+      sum.roundsWithDebt += flows.usedDebt ? 1 : 0
+      return sum
+    },
+    { income: 0, saved: 0, essentials: 0, wants: 0, roundsWithDebt: 0 }
+  )
+  const last = history[history.length - 1]
+
+  return scoreMetrics(computeMetrics(totals, {
+    debt: last.debt,
+    savings: last.savings,
+    monthlyIncome,
+    monthlyEssentials: toMonthly(totals.essentials / history.length, frequency),
+    roundsWithDebt: totals.roundsWithDebt,
+    rounds: history.length
+  }))
+}
@@ -0,0 +1,321 @@
+// Bundled income and payroll tax tables (2024 tax year, single filer).
+// Every jurisdiction uses the same generic format, so another country or region can be
+// added by appending an entry with its brackets, deduction and payroll taxes.
+// All amounts are annual and in the local currency.
+
+export interface TaxBracket {
+  // Upper bound of the bracket in taxable income; null for the top bracket
+  upTo: number | null
+  rate: number
+}
+
+export interface PayrollTax {
+  // Also the message key in the `tax.lines` namespace of messages/*.json
+  id: string
+  rate: number
+  // Wages below this amount are not taxed
+  threshold?: number
+  // Wages above this amount are not taxed
+  wageBase?: number
+}
+
+export interface TaxJurisdiction {
+  id: string
+  name: string
+  // ISO country code; regions share it with their country
+  country: string
+  // Set for states and provinces, which are taxed on top of their country
+  region?: string
+  // Lower-case names, abbreviations and major cities used to match a location
+  aliases: string[]
+  // Deducted from income before the brackets apply (standard deduction or allowance)
+  deduction: number
+  brackets: TaxBracket[]
+  payrollTaxes?: PayrollTax[]
+  // Pre-tax contributions that this jurisdiction still taxes as income
+  taxesRetirementContributions?: boolean
+  taxesHsaContributions?: boolean
+}
+
+const NO_INCOME_TAX: TaxBracket[] = []
+
+export const TAX_TABLES_YEAR = 2024
+
+export const TAX_JURISDICTIONS: TaxJurisdiction[] = [
+  {
+    id: 'us',
+    name: 'US Federal',
+    country: 'US',
+    aliases: ['us', 'usa', 'united states', 'united states of america', 'america'],
+    deduction: 14600,
+    brackets: [
+      { upTo: 11600, rate: 0.1 },
+      { upTo: 47150, rate: 0.12 },
+      { upTo: 100525, rate: 0.22 },
+      { upTo: 191950, rate: 0.24 },
+      { upTo: 243725, rate: 0.32 },
+      { upTo: 609350, rate: 0.35 },
+      { upTo: null, rate: 0.37 }
+    ],
+    payrollTaxes: [
+      { id: 'socialSecurity', rate: 0.062, wageBase: 168600 },
+      { id: 'medicare', rate: 0.0145 },
+      { id: 'additionalMedicare', rate: 0.009, threshold: 200000 }
+    ]
+  },
+  {
+    id: 'us-ca',
+    name: 'California',
+    country: 'US',
+    region: 'CA',
+    aliases: ['ca', 'california', 'los angeles', 'san francisco', 'san diego', 'san jose', 'sacramento', 'oakland'],
+    deduction: 5540,
+    brackets: [
+      { upTo: 10756, rate: 0.01 },
+      { upTo: 25499, rate: 0.02 },
+      { upTo: 40245, rate: 0.04 },
+      { upTo: 55866, rate: 0.06 },
+      { upTo: 70606, rate: 0.08 },
+      { upTo: 360659, rate: 0.093 },
+      { upTo: 432787, rate: 0.103 },
+      { upTo: 721314, rate: 0.113 },
+      { upTo: null, rate: 0.123 }
+    ],
+    payrollTaxes: [{ id: 'stateDisability', rate: 0.011 }],
+    taxesHsaContributions: true
+  },
+  {
+    id: 'us-ny',
+    name: 'New York',
+    country: 'US',
+    region: 'NY',
+    aliases: ['ny', 'new york', 'new york city', 'nyc', 'brooklyn', 'manhattan', 'buffalo', 'albany'],
+    deduction: 8000,
+    brackets: [
+      { upTo: 8500, rate: 0.04 },
+      { upTo: 11700, rate: 0.045 },
+      { upTo: 13900, rate: 0.0525 },
+      { upTo: 80650, rate: 0.055 },
+      { upTo: 215400, rate: 0.06 },
+      { upTo: 1077550, rate: 0.0685 },
+      { upTo: 5000000, rate: 0.0965 },
+      { upTo: 25000000, rate: 0.103 },
+      { upTo: null, rate: 0.109 }
+    ]
+  },
+  {
+    id: 'us-nj',
+    name: 'New Jersey',
+    country: 'US',
+    region: 'NJ',
+    aliases: ['nj', 'new jersey', 'newark', 'jersey city'],
+    deduction: 1000,
+    brackets: [
+      { upTo: 20000, rate: 0.014 },
+      { upTo: 35000, rate: 0.0175 },
+      { upTo: 40000, rate: 0.035 },
+      { upTo: 75000, rate: 0.05525 },
+      { upTo: 500000, rate: 0.0637 },
+      { upTo: 1000000, rate: 0.0897 },
+      { upTo: null, rate: 0.1075 }
+    ],
+    taxesHsaContributions: true
+  },
+  {
+    id: 'us-il',
+    name: 'Illinois',
+    country: 'US',
+    region: 'IL',
+    aliases: ['il', 'illinois', 'chicago'],
+    deduction: 2775,
+    brackets: [{ upTo: null, rate: 0.0495 }]
+  },
+  {
+    id: 'us-ma',
+    name: 'Massachusetts',
+    country: 'US',
+    region: 'MA',
+    aliases: ['ma', 'massachusetts', 'boston', 'cambridge'],
+    deduction: 4400,
+    brackets: [
+      { upTo: 1053750, rate: 0.05 },
+      { upTo: null, rate: 0.09 }
+    ]
+  },
+  {
+    id: 'us-pa',
+    name: 'Pennsylvania',
+    country: 'US',
+    region: 'PA',
+    aliases: ['pa', 'pennsylvania', 'philadelphia', 'pittsburgh'],
+    deduction: 0,
+    brackets: [{ upTo: null, rate: 0.0307 }],
+    taxesRetirementContributions: true
+  },
+  {
+    id: 'us-nc',
+    name: 'North Carolina',
+    country: 'US',
+    region: 'NC',
+    aliases: ['nc', 'north carolina', 'charlotte', 'raleigh'],
+    deduction: 12750,
+    brackets: [{ upTo: null, rate: 0.045 }]
+  },
+  {
+    id: 'us-ga',
+    name: 'Georgia',
+    country: 'US',
+    region: 'GA',
+    aliases: ['ga', 'georgia', 'atlanta', 'savannah'],
+    deduction: 12000,
+    brackets: [{ upTo: null, rate: 0.0539 }]
+  },
+  {
+    id: 'us-dc',
+    name: 'District of Columbia',
+    country: 'US',
+    region: 'DC',
+    aliases: ['dc', 'district of columbia', 'washington dc', 'washington d c'],
+    deduction: 14600,
+    brackets: [
+      { upTo: 10000, rate: 0.04 },
+      { upTo: 40000, rate: 0.06 },
+      { upTo: 60000, rate: 0.065 },
+      { upTo: 250000, rate: 0.085 },
+      { upTo: 500000, rate: 0.0925 },
+      { upTo: 1000000, rate: 0.0975 },
+      { upTo: null, rate: 0.1075 }
+    ]
+  },
+  {
+    id: 'us-co',
+    name: 'Colorado',
+    country: 'US',
+    region: 'CO',
+    aliases: ['co', 'colorado', 'denver', 'boulder'],
+    deduction: 14600,
+    brackets: [{ upTo: null, rate: 0.0425 }]
+  },
+  {
+    id: 'us-az',
+    name: 'Arizona',
+    country: 'US',
+    region: 'AZ',
+    aliases: ['az', 'arizona', 'phoenix', 'tucson'],
+    deduction: 14600,
+    brackets: [{ upTo: null, rate: 0.025 }]
+  },
+  {
+    id: 'us-or',
+    name: 'Oregon',
+    country: 'US',
+    region: 'OR',
+    aliases: ['or', 'oregon', 'portland'],
+    deduction: 2745,
+    brackets: [
+      { upTo: 4300, rate: 0.0475 },
+      { upTo: 10750, rate: 0.0675 },
+      { upTo: 125000, rate: 0.0875 },
+      { upTo: null, rate: 0.099 }
+    ]
+  },
+  {
+    id: 'us-tx',
+    name: 'Texas',
+    country: 'US',
+    region: 'TX',
+    aliases: ['tx', 'texas', 'austin', 'houston', 'dallas', 'san antonio'],
+    deduction: 0,
+    brackets: NO_INCOME_TAX
+  },
+  {
+    id: 'us-fl',
+    name: 'Florida',
+    country: 'US',
+    region: 'FL',
+    aliases: ['fl', 'florida', 'miami', 'orlando', 'tampa'],
+    deduction: 0,
+    brackets: NO_INCOME_TAX
+  },
+  {
+    id: 'us-wa',
+    name: 'Washington',
+    country: 'US',
+    region: 'WA',
+    aliases: ['wa', 'washington', 'washington state', 'seattle', 'spokane'],
+    deduction: 0,
+    brackets: NO_INCOME_TAX
+  },
+  {
+    id: 'us-nv',
+    name: 'Nevada',
+    country: 'US',
+    region: 'NV',
+    aliases: ['nv', 'nevada', 'las vegas', 'reno'],
+    deduction: 0,
+    brackets: NO_INCOME_TAX
+  },
+  {
+    id: 'us-tn',
+    name: 'Tennessee',
+    country: 'US',
+    region: 'TN',
+    aliases: ['tn', 'tennessee', 'nashville', 'memphis'],
+    deduction: 0,
+    brackets: NO_INCOME_TAX
+  },
+  {
+    id: 'gb',
+    name: 'United Kingdom',
+    country: 'GB',
+    aliases: ['uk', 'gb', 'united kingdom', 'great britain', 'england', 'london', 'manchester', 'birmingham'],
+    // Personal allowance; bands below are measured above it
+    deduction: 12570,
+    brackets: [
+      { upTo: 37700, rate: 0.2 },
+      { upTo: 112570, rate: 0.4 },
+      { upTo: null, rate: 0.45 }
+    ],
+    payrollTaxes: [
+      { id: 'nationalInsurance', rate: 0.08, threshold: 12570, wageBase: 50270 },
+      { id: 'nationalInsuranceUpper', rate: 0.02, threshold: 50270 }
+    ],
+    taxesHsaContributions: true
+  },
+  {
+    id: 'ca',
+    name: 'Canada Federal',
+    country: 'CA',
+    aliases: ['canada'],
+    // Basic personal amount, treated as a deduction
+    deduction: 15705,
+    brackets: [
+      { upTo: 55867, rate: 0.15 },
+      { upTo: 111733, rate: 0.205 },
+      { upTo: 173205, rate: 0.26 },
+      { upTo: 246752, rate: 0.29 },
+      { upTo: null, rate: 0.33 }
+    ],
+    payrollTaxes: [
+      { id: 'canadaPension', rate: 0.0595, threshold: 3500, wageBase: 68500 },
+      { id: 'employmentInsurance', rate: 0.0166, wageBase: 63200 }
+    ],
+    taxesHsaContributions: true
+  },
+  {
+    id: 'ca-on',
+    name: 'Ontario',
+    country: 'CA',
+    region: 'ON',
+    aliases: ['on', 'ontario', 'toronto', 'ottawa'],
+    deduction: 12399,
+    brackets: [
+      { upTo: 51446, rate: 0.0505 },
+      { upTo: 102894, rate: 0.0915 },
+      { upTo: 150000, rate: 0.1116 },
+      { upTo: 220000, rate: 0.1216 },
+      { upTo: null, rate: 0.1316 }
+    ],
+    taxesHsaContributions: true
+  }
+]
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { calculatePaystub, findTaxJurisdictions, getGamePaystub } from '@/lib/taxes'
+
+function ids(location: string): string[] {
+  return findTaxJurisdictions(location).map(jurisdiction => jurisdiction.id)
+}
+
+describe('findTaxJurisdictions', () => {
+  it('finds the country and the state or province', () => {
+    expect(ids('Austin, TX')).toEqual(['us', 'us-tx'])
+    expect(ids('Seattle, Washington')).toEqual(['us', 'us-wa'])
+    expect(ids('Atlanta, Georgia')).toEqual(['us', 'us-ga'])
+    expect(ids('Georgia')).toEqual(['us', 'us-ga'])
+    expect(ids('Toronto, Canada')).toEqual(['ca', 'ca-on'])
+    expect(ids('Los Angeles, CA')).toEqual(['us', 'us-ca'])
+  })
+
+  it('tells Washington, DC apart from Washington state', () => {
+    expect(ids('Washington, DC')).toEqual(['us', 'us-dc'])
+    expect(ids('Washington D.C.')).toEqual(['us', 'us-dc'])
+  })
+
+  it('does not match places in a country without bundled tables', () => {
+    expect(ids('San Jose, Costa Rica')).toEqual([])
+    expect(ids('Tbilisi, Georgia')).toEqual([])
+    expect(ids('San José, Costa Rica')).toEqual([])
+  })
+})
+
+describe('getGamePaystub', () => {
+  const deductions = { retirementRate: 0.05, hsaMonthly: 100 }
+
+  it('rebuilds the paystub from the deductions and flat rate kept in the state', () => {
+    const state = { grossMonthlySalary: 5000, location: 'Austin, TX', taxRate: 18, preTaxDeductions: deductions, flatTaxRate: null }
+    expect(getGamePaystub(state)).toEqual(calculatePaystub(5000, findTaxJurisdictions('Austin, TX'), deductions))
+    expect(getGamePaystub({ ...state, flatTaxRate: 20 }).flatRate).toBe(true)
+  })
+
+  it('falls back to the effective rate for older games without tax tables', () => {
+    const paystub = getGamePaystub({ grossMonthlySalary: 5000, location: 'Lisbon, Portugal', taxRate: 30 })
+    expect(paystub.flatRate).toBe(true)
+    expect(paystub.net).toBe(3500)
+  })
+})
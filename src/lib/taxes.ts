@@ -0,0 +1,192 @@
+import type { GameState } from '@/lib/allocationLogic'
+import { matchAliases, namesOtherCountry, parseLocation, type AliasMatch, type ParsedLocation } from '@/lib/locationMatch'
+import {
+  TAX_JURISDICTIONS,
+  type PayrollTax,
+  type TaxBracket,
+  type TaxJurisdiction
+} from '@/lib/taxTables'
+
+// Turn gross pay into net pay: pre-tax deductions, progressive income tax for the
+// player's country and region, and payroll taxes, computed on annual amounts
+
+export interface PreTaxDeductions {
+  // Share of gross pay contributed to a 401(k) or similar retirement plan, e.g. 0.05
+  retirementRate: number
+  // Monthly health savings account (HSA) contribution
+  hsaMonthly: number
+}
+
+export const DEFAULT_PRE_TAX_DEDUCTIONS: PreTaxDeductions = { retirementRate: 0, hsaMonthly: 0 }
+
+// Annual contribution limits (2024, under age 50, self-only HSA coverage)
+export const RETIREMENT_CONTRIBUTION_LIMIT = 23000
+export const HSA_CONTRIBUTION_LIMIT = 4150
+
+export interface PaystubLine {
+  kind: 'deduction' | 'incomeTax' | 'payrollTax'
+  // Message key in the `tax.lines` namespace of messages/*.json
+  id: string
+  // Name of the taxing jurisdiction for income tax lines
+  jurisdiction?: string
+  // Monthly amount
+  amount: number
+}
+
+export interface Paystub {
+  gross: number
+  lines: PaystubLine[]
+  totalDeductions: number
+  totalTaxes: number
+  net: number
+  // Taxes as a percentage of gross pay
+  effectiveTaxRate: number
+  // True when a single flat rate replaced the bracket tables
+  flatRate: boolean
+}
+
+// More certain matches first: a whole part over a name found within the text, later
+// parts (usually the state or country) over earlier ones, longer names over shorter
+function compareMatches(a: AliasMatch, b: AliasMatch): number {
+  return Number(b.exact) - Number(a.exact) || b.part - a.part || b.length - a.length
+}
+
+function findJurisdiction(candidates: TaxJurisdiction[], location: ParsedLocation): TaxJurisdiction | undefined {
+  return candidates
+    .filter(jurisdiction => !namesOtherCountry(jurisdiction.country, jurisdiction.aliases, location))
+    .map(jurisdiction => ({ jurisdiction, match: matchAliases(jurisdiction.aliases, location) }))
+    .filter((entry): entry is { jurisdiction: TaxJurisdiction; match: AliasMatch } => entry.match !== null)
+    .sort((a, b) => compareMatches(a.match, b.match))[0]?.jurisdiction
+}
+
+// Tax jurisdictions for a free-text location such as "Austin, TX" or "Toronto, Canada":
+// the country first, then the state or province when one is recognized.
+// Returns an empty list when there are no bundled tables for the location.
+export function findTaxJurisdictions(location: string): TaxJurisdiction[] {
+  const parsed = parseLocation(location)
+  const countries = TAX_JURISDICTIONS.filter(jurisdiction => !jurisdiction.region)
+  const regions = TAX_JURISDICTIONS.filter(jurisdiction => jurisdiction.region)
+  const country = findJurisdiction(countries, parsed)
+  const region = findJurisdiction(regions.filter(jurisdiction => !country || jurisdiction.country === country.country), parsed)
+
+  const home = country || countries.find(jurisdiction => region && jurisdiction.country === region.country)
+  if (!home) {
+    return []
+  }
+  return region ? [home, region] : [home]
+}
+
+// Progressive tax on taxable income: each bracket's rate applies to the part of
+// income that falls inside it
+export function calculateBracketTax(taxableIncome: number, brackets: TaxBracket[]): number {
+  let tax = 0
+  let lowerBound = 0
+  for (const bracket of brackets) {
+    if (taxableIncome <= lowerBound) break
+    const upperBound = bracket.upTo === null ? taxableIncome : Math.min(taxableIncome, bracket.upTo)
+    tax += (upperBound - lowerBound) * bracket.rate
+    lowerBound = bracket.upTo === null ? taxableIncome : bracket.upTo
+  }
+  return tax
+}
+
+export function calculatePayrollTax(wages: number, payrollTax: PayrollTax): number {
+  const taxedWages = Math.min(wages, payrollTax.wageBase ?? Infinity) - (payrollTax.threshold || 0)
+  return Math.max(0, taxedWages) * payrollTax.rate
+}
+
+// Monthly pre-tax contributions, capped at the annual limits
+export function getPreTaxContributions(grossMonthly: number, deductions: PreTaxDeductions) {
+  return {
+    retirement: Math.min(grossMonthly * Math.max(0, deductions.retirementRate), RETIREMENT_CONTRIBUTION_LIMIT / 12),
+    hsa: Math.min(Math.max(0, deductions.hsaMonthly), HSA_CONTRIBUTION_LIMIT / 12)
+  }
+}
+
+// Paystub for one month of gross pay. When `flatRatePercent` is given (a player
+// override, or no bundled tables for the location) it replaces income and payroll
+// taxes and is applied to pay after pre-tax deductions.
+export function calculatePaystub(
+  grossMonthly: number,
+  jurisdictions: TaxJurisdiction[],
+  deductions: PreTaxDeductions = DEFAULT_PRE_TAX_DEDUCTIONS,
+  flatRatePercent: number | null = null
+): Paystub {
+  const gross = Math.max(0, grossMonthly)
+  const contributions = getPreTaxContributions(gross, deductions)
+  const lines: PaystubLine[] = []
+
+  if (contributions.retirement > 0) {
+    lines.push({ kind: 'deduction', id: 'retirement', amount: contributions.retirement })
+  }
+  if (contributions.hsa > 0) {
+    lines.push({ kind: 'deduction', id: 'hsa', amount: contributions.hsa })
+  }
+  const totalDeductions = contributions.retirement + contributions.hsa
+
+  const useFlatRate = flatRatePercent !== null || jurisdictions.length === 0
+  if (useFlatRate) {
+    const rate = Math.min(100, Math.max(0, flatRatePercent ?? 0)) / 100
+    lines.push({ kind: 'incomeTax', id: 'flatRate', amount: (gross - totalDeductions) * rate })
+  } else {
+    const annualGross = gross * 12
+    const annualRetirement = contributions.retirement * 12
+    const annualHsa = contributions.hsa * 12
+
+    for (const jurisdiction of jurisdictions) {
+      const taxableIncome = annualGross
+        - (jurisdiction.taxesRetirementContributions ? 0 : annualRetirement)
+        - (jurisdiction.taxesHsaContributions ? 0 : annualHsa)
+        - jurisdiction.deduction
+      if (jurisdiction.brackets.length > 0) {
+        lines.push({
+          kind: 'incomeTax',
+          id: 'incomeTax',
+          jurisdiction: jurisdiction.name,
+          amount: calculateBracketTax(Math.max(0, taxableIncome), jurisdiction.brackets) / 12
+        })
+      }
+      // HSA contributions made through payroll are also exempt from payroll taxes
+      const payrollWages = annualGross - (jurisdiction.taxesHsaContributions ? 0 : annualHsa)
+      for (const payrollTax of jurisdiction.payrollTaxes || []) {
+        const amount = calculatePayrollTax(payrollWages, payrollTax) / 12
+        if (amount > 0) {
+          lines.push({ kind: 'payrollTax', id: payrollTax.id, amount })
+        }
+      }
+    }
+  }
+
+  const totalTaxes = lines
+    .filter(line => line.kind !== 'deduction')
+    .reduce((total, line) => total + line.amount, 0)
+  const net = gross - totalDeductions - totalTaxes
+
+  return {
+    gross,
+    lines,
+    totalDeductions,
+    totalTaxes,
+    net,
+    effectiveTaxRate: gross > 0 ? (totalTaxes / gross) * 100 : 0,
+    flatRate: useFlatRate
+  }
+}
+
+// Paystub a game was played with. Games saved before the deductions and flat rate
+// were kept in the state use the tax tables when the location has them, otherwise
+// the effective tax rate, with no deductions.
+export function getGamePaystub(
+  state: Pick<GameState, 'grossMonthlySalary' | 'location' | 'taxRate' | 'preTaxDeductions' | 'flatTaxRate'>
+): Paystub {
+  const jurisdictions = findTaxJurisdictions(state.location)
+  const flatRate = state.flatTaxRate !== undefined
+    ? state.flatTaxRate
+    : jurisdictions.length === 0 ? state.taxRate : null
+  return calculatePaystub(
+    state.grossMonthlySalary,
+    jurisdictions,
+    state.preTaxDeductions || DEFAULT_PRE_TAX_DEDUCTIONS,
+    flatRate
+  )
+}
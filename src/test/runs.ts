@@ -0,0 +1,70 @@
+import { applyAllocationPlan, type GameState, type PlannedAllocation } from '@/lib/allocationLogic'
+import { DEFAULT_CATEGORIES } from '@/lib/categories'
+import { createDebtAccounts } from '@/lib/debtAccounts'
+import { rollEventsForState } from '@/lib/eventCatalog'
+import { createInitialGameState } from '@/lib/gameDefaults'
+import { prorateMonthly } from '@/lib/payFrequency'
+import { advancePeriod } from '@/lib/roundEngine'
+import { DEFAULT_PRE_TAX_DEDUCTIONS, getGamePaystub } from '@/lib/taxes'
+
+// Seeded runs shared by the tests that play whole games
+
+// Rounds that fund from income, dip into savings, borrow and repay
+export const PLANS: Record<string, PlannedAllocation>[] = [
+  {
+    transportation: { amount: 150, source: 'income' },
+    groceries: { amount: 250, source: 'income' },
+    diningOut: { amount: 80, source: 'income' },
+    savings: { amount: 300, source: 'income' },
+    investments: { amount: 100, source: 'income' }
+  },
+  {
+    groceries: { amount: 300, source: 'income' },
+    entertainment: { amount: 120, source: 'savings' },
+    miscellaneous: { amount: 200, source: 'debt' }
+  },
+  {
+    transportation: { amount: 150, source: 'income' },
+    healthcare: { amount: 90, source: 'income' },
+    debtRepayment: { amount: 250, source: 'income' },
+    savings: { amount: 100, source: 'income' }
+  },
+  {
+    groceries: { amount: 900, source: 'income' },
+    diningOut: { amount: 400, source: 'debt' }
+  }
+]
+
+// A game set up as the game sets it up, with pay from the tax tables, ready for its first round
+export function createRunState(overrides: Partial<GameState> = {}): GameState {
+  const setup: GameState = {
+    ...createInitialGameState(),
+    stage: 'budget_allocation',
+    grossMonthlySalary: 4000,
+    location: 'Austin, TX',
+    housingCost: 1200,
+    utilityCost: 200,
+    seed: 777,
+    totalRounds: PLANS.length,
+    categories: DEFAULT_CATEGORIES,
+    preTaxDeductions: DEFAULT_PRE_TAX_DEDUCTIONS,
+    flatTaxRate: null,
+    ...overrides
+  }
+  const paystub = getGamePaystub(setup)
+  return {
+    ...setup,
+    monthlySalary: paystub.net,
+    paycheck: prorateMonthly(paystub.net, setup.payFrequency),
+    taxRate: Math.round(paystub.effectiveTaxRate * 100) / 100,
+    debtAccounts: createDebtAccounts(setup.grossMonthlySalary)
+  }
+}
+
+// Play one round per plan with the events the seed draws
+export function playRun(start: GameState, plans: Record<string, PlannedAllocation>[] = PLANS): GameState {
+  return plans.reduce((state, plan) => {
+    const allocated = applyAllocationPlan(state, plan, 'creditCard', 'creditCard')
+    return advancePeriod(allocated, allocated.allocations, rollEventsForState(allocated)).state
+  }, start)
+}